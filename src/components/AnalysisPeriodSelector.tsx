@@ -0,0 +1,114 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  ANALYSIS_PERIOD_OPTIONS,
+  formatPeriodDays,
+  getPeriodDays,
+  type AnalysisPeriod,
+  type AnalysisPeriodType,
+} from '@/lib/turnover';
+
+interface AnalysisPeriodSelectorProps {
+  period: AnalysisPeriod;
+  onChange: (period: AnalysisPeriod) => void;
+}
+
+const ISO_DATE = 'yyyy-MM-dd';
+const DISPLAY_DATE = 'dd MMM yyyy';
+
+const AnalysisPeriodSelector: React.FC<AnalysisPeriodSelectorProps> = ({ period, onChange }) => {
+  const range: DateRange | undefined = period.startDate
+    ? {
+        from: parseISO(period.startDate),
+        to: period.endDate ? parseISO(period.endDate) : undefined,
+      }
+    : undefined;
+
+  const handleTypeChange = (value: string) => {
+    onChange({ ...period, type: value as AnalysisPeriodType });
+  };
+
+  const handleRangeChange = (selected: DateRange | undefined) => {
+    onChange({
+      ...period,
+      startDate: selected?.from ? format(selected.from, ISO_DATE) : undefined,
+      endDate: selected?.to ? format(selected.to, ISO_DATE) : undefined,
+    });
+  };
+
+  const periodDays = getPeriodDays(period);
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+      <div className="md:w-56">
+        <Label htmlFor="analysisPeriod" className="text-sm font-medium mb-1 block">
+          Analysis Period
+        </Label>
+        <Select value={period.type} onValueChange={handleTypeChange}>
+          <SelectTrigger id="analysisPeriod" className="w-full border-gray-300">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ANALYSIS_PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.type} value={option.type}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {period.type === 'custom' && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "md:w-72 justify-start text-left font-normal border-gray-300",
+                !range && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {range?.from ? (
+                range.to ? (
+                  <>
+                    {format(range.from, DISPLAY_DATE)} – {format(range.to, DISPLAY_DATE)}
+                  </>
+                ) : (
+                  format(range.from, DISPLAY_DATE)
+                )
+              ) : (
+                <span>Pick a date range</span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              initialFocus
+              mode="range"
+              defaultMonth={range?.from}
+              selected={range}
+              onSelect={handleRangeChange}
+              numberOfMonths={2}
+              className="p-3 pointer-events-auto"
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <p className="text-sm text-gray-500 md:mb-2">
+        COGS should cover {periodDays > 0 ? `${formatPeriodDays(periodDays)} days` : 'the selected period'}
+      </p>
+    </div>
+  );
+};
+
+export default AnalysisPeriodSelector;
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { Briefcase, Download, Plus, Settings, Store, Tag, Upload } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import WorkspaceDialog from './WorkspaceDialog';
+import { useToast } from '@/hooks/use-toast';
+import type { WorkspacesState } from '@/hooks/use-workspaces';
+import type { ReportBranding } from '@/lib/export';
+import { exportWorkspace, getWorkspaceFileName, WORKSPACE_KIND_LABELS, type Workspace, type WorkspaceKind } from '@/lib/storage';
+
+interface AppSidebarProps {
+  workspaces: WorkspacesState;
+}
+
+const KIND_ICONS: Record<WorkspaceKind, React.ComponentType<{ className?: string }>> = {
+  store: Store,
+  brand: Tag,
+  client: Briefcase,
+};
+
+type DialogTarget = { mode: 'new' } | { mode: 'edit'; workspace: Workspace };
+
+const AppSidebar: React.FC<AppSidebarProps> = ({ workspaces }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dialog, setDialog] = useState<DialogTarget | null>(null);
+  const { activeWorkspace } = workspaces;
+
+  const handleSave = async (name: string, kind: WorkspaceKind, branding: ReportBranding) => {
+    try {
+      if (dialog?.mode === 'edit') {
+        await workspaces.updateWorkspace({ ...dialog.workspace, name, kind, branding });
+      } else {
+        await workspaces.addWorkspace(name, kind, branding);
+      }
+    } catch (error) {
+      console.error('Error saving workspace:', error);
+      toast({
+        variant: "destructive",
+        title: "Workspace Not Saved",
+        description: "This browser is not letting the app store data. Check that site data is allowed and try again.",
+      });
+    }
+  };
+
+  const handleDelete = async (workspace: Workspace) => {
+    try {
+      await workspaces.removeWorkspace(workspace.id);
+      toast({ title: "Workspace Deleted", description: `${workspace.name} has been removed.` });
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      toast({ variant: "destructive", title: "Delete Failed", description: "The workspace could not be deleted. Please try again." });
+    }
+  };
+
+  const handleExport = async () => {
+    if (!activeWorkspace) return;
+    try {
+      const file = await exportWorkspace(activeWorkspace);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getWorkspaceFileName(activeWorkspace);
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({
+        title: "Workspace Exported",
+        description: `${activeWorkspace.name} and its ${file.calculations.length} saved calculations are in one JSON file.`,
+      });
+    } catch (error) {
+      console.error('Error exporting workspace:', error);
+      toast({ variant: "destructive", title: "Export Failed", description: "The workspace could not be exported. Please try again." });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const workspace = await workspaces.importWorkspaceFile(await file.text());
+      toast({ title: "Workspace Imported", description: `${workspace.name} is now open.` });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : 'The workspace could not be imported.',
+      });
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="p-4">
+        <p className="text-lg font-bold text-primary">Retail Insights</p>
+        <p className="text-xs text-gray-500">Stores, brands and clients</p>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Workspaces</SidebarGroupLabel>
+          <SidebarGroupAction title="New workspace" onClick={() => setDialog({ mode: 'new' })}>
+            <Plus />
+            <span className="sr-only">New workspace</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {workspaces.workspaces.map((workspace) => {
+                const Icon = KIND_ICONS[workspace.kind];
+                return (
+                  <SidebarMenuItem key={workspace.id}>
+                    <SidebarMenuButton
+                      isActive={workspace.id === activeWorkspace?.id}
+                      tooltip={`${WORKSPACE_KIND_LABELS[workspace.kind]}: ${workspace.name}`}
+                      onClick={() => workspaces.selectWorkspace(workspace.id)}
+                    >
+                      <Icon />
+                      <span>{workspace.name}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuAction showOnHover onClick={() => setDialog({ mode: 'edit', workspace })}>
+                      <Settings />
+                      <span className="sr-only">{workspace.name} settings</span>
+                    </SidebarMenuAction>
+                  </SidebarMenuItem>
+                );
+              })}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={handleExport} disabled={!activeWorkspace}>
+              <Download />
+              <span>Export Workspace</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={() => fileInputRef.current?.click()}>
+              <Upload />
+              <span>Import Workspace</span>
+            </SidebarMenuButton>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+              aria-label="Workspace file"
+            />
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+
+      {dialog && (
+        <WorkspaceDialog
+          key={dialog.mode === 'edit' ? dialog.workspace.id : 'new'}
+          workspace={dialog.mode === 'edit' ? dialog.workspace : undefined}
+          open
+          onOpenChange={(open) => {
+            if (!open) setDialog(null);
+          }}
+          onSave={handleSave}
+          onDelete={
+            dialog.mode === 'edit' && workspaces.workspaces.length > 1 ? () => handleDelete(dialog.workspace) : undefined
+          }
+        />
+      )}
+    </Sidebar>
+  );
+};
+
+export default AppSidebar;
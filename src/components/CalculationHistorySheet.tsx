@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Copy, History, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { getPeriodLabel, METHOD_DEFINITIONS, type TurnoverResult } from '@/lib/turnover';
+import {
+  createSavedCalculation,
+  deleteCalculation,
+  duplicateCalculation,
+  getCalculationLabel,
+  listCalculations,
+  saveCalculation,
+  type CalculatorState,
+  type SavedCalculation,
+} from '@/lib/storage';
+
+interface CalculationHistorySheetProps {
+  workspaceId: string;
+  current: CalculatorState;
+  result: TurnoverResult;
+  onLoad: (calculation: SavedCalculation) => void;
+}
+
+const CalculationHistorySheet: React.FC<CalculationHistorySheetProps> = ({ workspaceId, current, result, onLoad }) => {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState('');
+  const [calculations, setCalculations] = useState<SavedCalculation[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setCalculations(await listCalculations(workspaceId));
+      setStorageError(null);
+    } catch (error) {
+      console.error('Error reading saved calculations:', error);
+      setStorageError('Saved calculations are unavailable in this browser. Private windows and blocked site data stop them being stored.');
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating saved calculations:', error);
+    }
+    await refresh();
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      await saveCalculation(createSavedCalculation(workspaceId, label.trim() || getCalculationLabel(current), current, result));
+      setLabel('');
+    });
+
+  const handleLoad = (calculation: SavedCalculation) => {
+    onLoad(calculation);
+    setOpen(false);
+  };
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) refresh();
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant="secondary" className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Calculation History</SheetTitle>
+          <SheetDescription>
+            Each calculation is saved in this browser a few seconds after you stop changing it. Save one under a name to find it again easily, load one to pick up where you left off, or duplicate it to try changes without losing the original.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6">
+          <Label htmlFor="calculationLabel" className="text-sm font-medium mb-1 block">
+            Name
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="calculationLabel"
+              value={label}
+              placeholder={getCalculationLabel(current)}
+              onChange={(e) => setLabel(e.target.value)}
+              className="border-gray-300"
+            />
+            <Button onClick={handleSave} className="cta-button flex items-center gap-2 shrink-0">
+              <Save className="h-4 w-4" />
+              Save
+            </Button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Current: {result.ratio.toFixed(2)} turns, {result.daysSalesOfInventory.toFixed(0)} days of inventory.
+          </p>
+        </div>
+
+        {storageError && <p className="mt-4 text-sm text-destructive">{storageError}</p>}
+
+        <div className="mt-6 space-y-3">
+          {calculations.length === 0 && !storageError && (
+            <p className="text-sm text-gray-500">No calculations yet.</p>
+          )}
+          {calculations.map((calculation) => (
+            <div key={calculation.id} className="rounded-lg border border-gray-200 bg-white p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-primary">{calculation.label}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(parseISO(calculation.savedAt), 'dd MMM yyyy, HH:mm')} · {METHOD_DEFINITIONS[calculation.method].label} ·{' '}
+                    {getPeriodLabel(calculation.period)}
+                  </p>
+                </div>
+                <p className="text-right text-sm font-semibold whitespace-nowrap">
+                  {calculation.ratio.toFixed(2)}x
+                  <span className="block text-xs font-normal text-gray-500">{calculation.daysSalesOfInventory.toFixed(0)} days</span>
+                </p>
+              </div>
+              <div className="mt-2 flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => handleLoad(calculation)} className="flex items-center gap-1">
+                  <Upload className="h-3 w-3" />
+                  Load
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => run(() => saveCalculation(duplicateCalculation(calculation)))}
+                  className="flex items-center gap-1"
+                >
+                  <Copy className="h-3 w-3" />
+                  Duplicate
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Delete ${calculation.label}`}
+                  onClick={() => run(() => deleteCalculation(calculation.id))}
+                  className="ml-auto"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CalculationHistorySheet;
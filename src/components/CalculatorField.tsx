@@ -0,0 +1,59 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface CalculatorFieldProps {
+  name: string;
+  /** Defaults to `name`; set it when the same field is rendered twice on screen. */
+  id?: string;
+  label: string;
+  tooltip: string;
+  value: number;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  /** Unit marker shown inside the input, e.g. "₹", "units" or "%". */
+  suffix?: string;
+  step?: number | string;
+}
+
+const CalculatorField: React.FC<CalculatorFieldProps> = ({
+  name,
+  id = name,
+  label,
+  tooltip,
+  value,
+  onChange,
+  suffix = '₹',
+  step,
+}) => {
+  return (
+    <div>
+      <Label htmlFor={id} className="text-sm font-medium mb-1 block">
+        {label}
+      </Label>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="relative">
+              <Input
+                id={id}
+                name={name}
+                type="number"
+                step={step}
+                value={value}
+                onChange={onChange}
+                className="w-full border-gray-300"
+              />
+              <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">{suffix}</span>
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{tooltip}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </div>
+  );
+};
+
+export default CalculatorField;
@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import CalculatorField from './CalculatorField';
+import { calculateCarryingCost, type CalculatorValues, type TurnoverResult } from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface CarryingCostPanelProps {
+  values: CalculatorValues;
+  result: TurnoverResult;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const COMPONENT_TOOLTIPS: Record<string, string> = {
+  costOfCapitalRate: 'Interest or opportunity cost on the money tied up in stock',
+  storageCostRate: 'Warehouse rent, utilities and handling as a share of inventory value',
+  insuranceRate: 'Insurance premiums and taxes on stock held',
+  shrinkageRate: 'Theft, damage and recording errors',
+  obsolescenceRate: 'Markdowns and write-offs on stock that goes out of date or season',
+};
+
+const CarryingCostPanel: React.FC<CarryingCostPanelProps> = ({ values, result, onInputChange }) => {
+  const carryingCost = useMemo(() => calculateCarryingCost(values, result), [values, result]);
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <h3 className="text-xl font-bold text-primary mb-1">Inventory Carrying Cost</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        The yearly cost of holding your average inventory of {formatCurrency(carryingCost.averageInventoryAtCost)} at cost.
+        Enter each component as a percentage of inventory value per year.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        {carryingCost.components.map((component) => (
+          <CalculatorField
+            key={component.key}
+            name={component.key}
+            label={`${component.label} (% per year)`}
+            tooltip={COMPONENT_TOOLTIPS[component.key]}
+            value={component.rate}
+            onChange={onInputChange}
+            suffix="%"
+            step="0.1"
+          />
+        ))}
+        <CalculatorField
+          name="dsiReductionDays"
+          label="Reduce DSI by"
+          tooltip="Number of days you aim to cut from Days Sales of Inventory"
+          value={values.dsiReductionDays}
+          onChange={onInputChange}
+          suffix="days"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+          <h4 className="text-sm font-medium text-gray-500 mb-1">Annual Carrying Cost</h4>
+          <span className="text-2xl font-bold text-primary">{formatCurrency(carryingCost.annualCarryingCost)}</span>
+          <p className="mt-2 text-sm text-gray-600">{carryingCost.totalRate.toFixed(1)}% of average inventory</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+          <h4 className="text-sm font-medium text-gray-500 mb-1">Cost per Day of DSI</h4>
+          <span className="text-2xl font-bold text-primary">{formatCurrency(carryingCost.costPerDsiDay)}</span>
+          <p className="mt-2 text-sm text-gray-600">per year, for each day of sales held in stock</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+          <h4 className="text-sm font-medium text-gray-500 mb-1">Savings from {values.dsiReductionDays} Fewer Days</h4>
+          <span className="text-2xl font-bold text-primary">{formatCurrency(carryingCost.reductionSavings)}</span>
+          <p className="mt-2 text-sm text-gray-600">
+            per year, taking DSI from {result.daysSalesOfInventory.toFixed(0)} to {Math.max(result.daysSalesOfInventory - values.dsiReductionDays, 0).toFixed(0)} days
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg border border-gray-200 text-sm text-gray-600 space-y-1">
+        {carryingCost.components.map((component) => (
+          <p key={component.key}>
+            {component.label}: {component.rate}% × {formatCurrency(carryingCost.averageInventoryAtCost)} = {formatCurrency(component.annualCost)}
+          </p>
+        ))}
+        <p className="font-medium mt-2">
+          Total Carrying Cost = {carryingCost.totalRate.toFixed(1)}% × {formatCurrency(carryingCost.averageInventoryAtCost)} = {formatCurrency(carryingCost.annualCarryingCost)}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CarryingCostPanel;
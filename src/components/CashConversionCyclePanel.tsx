@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, Legend } from 'recharts';
+import CalculatorField from './CalculatorField';
+import { calculateCashConversionCycle, type CalculatorValues, type TurnoverResult } from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface CashConversionCyclePanelProps {
+  values: CalculatorValues;
+  result: TurnoverResult;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const CashConversionCyclePanel: React.FC<CashConversionCyclePanelProps> = ({ values, result, onInputChange }) => {
+  const cycle = useMemo(() => calculateCashConversionCycle(values, result), [values, result]);
+
+  // Both rows span DSI + DSO: the top shows the operating cycle, the bottom splits it
+  // into the days suppliers finance and the cash gap the business funds itself.
+  const timelineData = [
+    {
+      name: 'Operating Cycle',
+      inventory: cycle.daysSalesOfInventory,
+      receivables: cycle.daysSalesOutstanding,
+    },
+    {
+      name: 'Cash Cycle',
+      payables: Math.min(cycle.daysPayablesOutstanding, cycle.daysSalesOfInventory + cycle.daysSalesOutstanding),
+      cashGap: Math.max(cycle.cycleDays, 0),
+    },
+  ];
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <h3 className="text-xl font-bold text-primary mb-1">Cash Conversion Cycle</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        How long cash is tied up between paying suppliers and collecting from customers. Uses net sales and purchases from the inputs above.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <CalculatorField
+          name="accountsReceivable"
+          label="Average Accounts Receivable (₹)"
+          tooltip="Average amount customers owed you over the period"
+          value={values.accountsReceivable}
+          onChange={onInputChange}
+        />
+        <CalculatorField
+          name="accountsPayable"
+          label="Average Accounts Payable (₹)"
+          tooltip="Average amount you owed suppliers over the period"
+          value={values.accountsPayable}
+          onChange={onInputChange}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: 'DSI', value: cycle.daysSalesOfInventory },
+          { label: 'DSO', value: cycle.daysSalesOutstanding },
+          { label: 'DPO', value: cycle.daysPayablesOutstanding },
+          { label: 'Cash Conversion Cycle', value: cycle.cycleDays },
+        ].map((item) => (
+          <div key={item.label} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h4 className="text-sm font-medium text-gray-500 mb-1">{item.label}</h4>
+            <div className="flex items-end">
+              <span className="text-2xl font-bold text-primary">{item.value.toFixed(0)}</span>
+              <span className="text-sm text-gray-500 ml-2 mb-1">days</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-[200px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={timelineData}
+            layout="vertical"
+            margin={{ top: 10, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" unit=" d" />
+            <YAxis type="category" dataKey="name" width={110} />
+            <RechartTooltip formatter={(value: number) => `${Number(value).toFixed(0)} days`} />
+            <Legend />
+            <Bar dataKey="inventory" name="Inventory (DSI)" stackId="cycle" fill="#245e4f" />
+            <Bar dataKey="receivables" name="Receivables (DSO)" stackId="cycle" fill="#7ac9a7" />
+            <Bar dataKey="payables" name="Supplier-financed (DPO)" stackId="cycle" fill="#4a8fe7" />
+            <Bar dataKey="cashGap" name="Cash Gap (CCC)" stackId="cycle" fill="#e9c46a" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 bg-white p-4 rounded-lg border border-gray-200 text-sm text-gray-600 space-y-1">
+        <p>
+          Cash Conversion Cycle = {cycle.daysSalesOfInventory.toFixed(0)} + {cycle.daysSalesOutstanding.toFixed(0)} − {cycle.daysPayablesOutstanding.toFixed(0)} = {cycle.cycleDays.toFixed(0)} days
+        </p>
+        <p>Each day of cycle ties up about {formatCurrency(cycle.cashPerDay)} (COGS per day)</p>
+        <p className="font-medium">
+          {cycle.cycleDays > 0
+            ? `Working capital tied up: ${formatCurrency(cycle.cashTiedUp)}`
+            : 'Suppliers finance your whole operating cycle, so no working capital is tied up'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CashConversionCyclePanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import CalculatorField from './CalculatorField';
+import type { CalculatorValues, CostOfGoodsSoldSource } from '@/lib/turnover';
+
+interface CostOfGoodsSoldInputsProps {
+  /** Used to keep element ids unique when the inputs appear on more than one tab. */
+  idPrefix: string;
+  values: CalculatorValues;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSourceChange: (source: CostOfGoodsSoldSource) => void;
+  /** Render beginning and ending inventory too, for tabs that don't already ask for them. */
+  includeInventoryBalances: boolean;
+}
+
+const CostOfGoodsSoldInputs: React.FC<CostOfGoodsSoldInputsProps> = ({
+  idPrefix,
+  values,
+  onInputChange,
+  onSourceChange,
+  includeInventoryBalances,
+}) => {
+  const derived = values.costOfGoodsSoldSource === 'derived';
+
+  return (
+    <>
+      <div className="md:col-span-2 flex items-center gap-3">
+        <Switch
+          id={`${idPrefix}-deriveCogs`}
+          checked={derived}
+          onCheckedChange={(checked) => onSourceChange(checked ? 'derived' : 'entered')}
+        />
+        <Label htmlFor={`${idPrefix}-deriveCogs`} className="text-sm font-medium">
+          I don't know my COGS — derive it from purchases and inventory
+        </Label>
+      </div>
+
+      {derived ? (
+        <>
+          {includeInventoryBalances && (
+            <>
+              <CalculatorField
+                name="beginningInventory"
+                label="Beginning Inventory (₹)"
+                tooltip="Value of inventory at the start of the period"
+                value={values.beginningInventory}
+                onChange={onInputChange}
+              />
+              <CalculatorField
+                name="endingInventory"
+                label="Ending Inventory (₹)"
+                tooltip="Value of inventory at the end of the period"
+                value={values.endingInventory}
+                onChange={onInputChange}
+              />
+            </>
+          )}
+          <CalculatorField
+            name="purchases"
+            label="Purchases (₹)"
+            tooltip="Cost of stock bought during the period"
+            value={values.purchases}
+            onChange={onInputChange}
+          />
+          <CalculatorField
+            name="freightIn"
+            label="Freight-in (₹)"
+            tooltip="Inbound shipping and handling paid on purchases (optional)"
+            value={values.freightIn}
+            onChange={onInputChange}
+          />
+          <CalculatorField
+            name="purchaseReturns"
+            label="Purchase Returns (₹)"
+            tooltip="Cost of stock returned to suppliers (optional)"
+            value={values.purchaseReturns}
+            onChange={onInputChange}
+          />
+          <CalculatorField
+            name="purchaseDiscounts"
+            label="Purchase Discounts (₹)"
+            tooltip="Trade and early-payment discounts received from suppliers (optional)"
+            value={values.purchaseDiscounts}
+            onChange={onInputChange}
+          />
+        </>
+      ) : (
+        <CalculatorField
+          name="costOfGoodsSold"
+          label="Cost of Goods Sold (₹)"
+          tooltip="Total cost of inventory sold during the period"
+          value={values.costOfGoodsSold}
+          onChange={onInputChange}
+        />
+      )}
+    </>
+  );
+};
+
+export default CostOfGoodsSoldInputs;
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, Legend } from 'recharts';
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  compareCostingMethods,
+  COSTING_METHOD_LABELS,
+  createPurchaseLot,
+  DEFAULT_COSTING_COMPARISON,
+  type AnalysisPeriod,
+  type CostingComparisonInput,
+  type PurchaseLot,
+} from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface CostingComparisonPanelProps {
+  period: AnalysisPeriod;
+}
+
+const formatDifference = (value: number, reference: number): string => {
+  if (reference === 0 || value === reference) return '—';
+  const change = ((value - reference) / reference) * 100;
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
+
+const CostingComparisonPanel: React.FC<CostingComparisonPanelProps> = ({ period }) => {
+  const [input, setInput] = useState<CostingComparisonInput>(DEFAULT_COSTING_COMPARISON);
+
+  const outcomes = useMemo(() => compareCostingMethods(input, period), [input, period]);
+  const [reference] = outcomes;
+  const available = input.openingQuantity + input.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+  const updateNumber = (field: 'openingQuantity' | 'openingUnitCost' | 'unitsSold') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInput({ ...input, [field]: parseFloat(e.target.value) || 0 });
+  };
+
+  const updateLot = (id: string, changes: Partial<PurchaseLot>) => {
+    setInput({ ...input, lots: input.lots.map((lot) => (lot.id === id ? { ...lot, ...changes } : lot)) });
+  };
+
+  const addLot = () => {
+    const last = input.lots[input.lots.length - 1];
+    setInput({
+      ...input,
+      lots: [...input.lots, createPurchaseLot(`Lot ${input.lots.length + 1}`, last?.quantity ?? 1000, last?.unitCost ?? input.openingUnitCost)],
+    });
+  };
+
+  const removeLot = (id: string) => {
+    setInput({ ...input, lots: input.lots.filter((lot) => lot.id !== id) });
+  };
+
+  const chartData = outcomes.map((outcome) => ({
+    name: COSTING_METHOD_LABELS[outcome.method],
+    turnover: outcome.turnover.ratio,
+    dsi: outcome.turnover.daysSalesOfInventory,
+  }));
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <h3 className="text-xl font-bold text-primary mb-1">Costing Method Comparison</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        The same purchases and sales valued under FIFO, weighted average and LIFO. When costs change, each method splits the
+        spend differently between COGS and closing stock, which moves turnover and DSI. Sales are costed after the last lot arrives.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <Label htmlFor="costingOpeningQuantity" className="text-sm font-medium mb-1 block">
+            Opening Stock (units)
+          </Label>
+          <Input
+            id="costingOpeningQuantity"
+            type="number"
+            value={input.openingQuantity}
+            onChange={updateNumber('openingQuantity')}
+            className="border-gray-300"
+          />
+        </div>
+        <div>
+          <Label htmlFor="costingOpeningCost" className="text-sm font-medium mb-1 block">
+            Opening Unit Cost (₹)
+          </Label>
+          <Input
+            id="costingOpeningCost"
+            type="number"
+            value={input.openingUnitCost}
+            onChange={updateNumber('openingUnitCost')}
+            className="border-gray-300"
+          />
+        </div>
+        <div>
+          <Label htmlFor="costingUnitsSold" className="text-sm font-medium mb-1 block">
+            Units Sold in Period
+          </Label>
+          <Input
+            id="costingUnitsSold"
+            type="number"
+            value={input.unitsSold}
+            onChange={updateNumber('unitsSold')}
+            className="border-gray-300"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 mb-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Purchase Lot</TableHead>
+              <TableHead>Quantity</TableHead>
+              <TableHead>Unit Cost (₹)</TableHead>
+              <TableHead className="text-right">Lot Value</TableHead>
+              <TableHead className="w-[56px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {input.lots.map((lot) => (
+              <TableRow key={lot.id}>
+                <TableCell>
+                  <Input
+                    value={lot.label}
+                    onChange={(e) => updateLot(lot.id, { label: e.target.value })}
+                    aria-label="Lot name"
+                    className="h-8 border-gray-300"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={lot.quantity}
+                    onChange={(e) => updateLot(lot.id, { quantity: parseFloat(e.target.value) || 0 })}
+                    aria-label={`${lot.label} quantity`}
+                    className="h-8 border-gray-300"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={lot.unitCost}
+                    onChange={(e) => updateLot(lot.id, { unitCost: parseFloat(e.target.value) || 0 })}
+                    aria-label={`${lot.label} unit cost`}
+                    className="h-8 border-gray-300"
+                  />
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(lot.quantity * lot.unitCost)}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" aria-label={`Remove ${lot.label}`} onClick={() => removeLot(lot.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <Button variant="outline" onClick={addLot} className="flex items-center gap-2 mb-6">
+        <Plus className="h-4 w-4" />
+        Add Lot
+      </Button>
+
+      {input.unitsSold > available && (
+        <p className="mb-4 text-sm text-amber-700">
+          {input.unitsSold - available} more units are sold than were on hand; those are costed at the last lot's cost.
+        </p>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              <TableHead className="text-right">COGS</TableHead>
+              <TableHead className="text-right">Closing Inventory</TableHead>
+              <TableHead className="text-right">Turnover</TableHead>
+              <TableHead className="text-right">DSI (days)</TableHead>
+              <TableHead className="text-right">Turnover vs FIFO</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outcomes.map((outcome) => (
+              <TableRow key={outcome.method}>
+                <TableCell className="font-medium">{COSTING_METHOD_LABELS[outcome.method]}</TableCell>
+                <TableCell className="text-right">{formatCurrency(outcome.costOfGoodsSold)}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(outcome.endingInventory)}
+                  <span className="block text-xs text-gray-500">{outcome.endingQuantity.toLocaleString('en-IN')} units</span>
+                </TableCell>
+                <TableCell className="text-right font-medium">{outcome.turnover.ratio.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{outcome.turnover.daysSalesOfInventory.toFixed(0)}</TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right",
+                    outcome.turnover.ratio > reference.turnover.ratio && "text-emerald-700",
+                    outcome.turnover.ratio < reference.turnover.ratio && "text-red-700"
+                  )}
+                >
+                  {outcome === reference ? 'Reference' : formatDifference(outcome.turnover.ratio, reference.turnover.ratio)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis yAxisId="left" />
+            <YAxis yAxisId="right" orientation="right" />
+            <RechartTooltip
+              formatter={(value: number, name: string) => [Number(value).toFixed(name === 'DSI (days)' ? 0 : 2), name]}
+            />
+            <Legend />
+            <Bar yAxisId="left" dataKey="turnover" name="Turnover Ratio" fill="#245e4f" />
+            <Bar yAxisId="right" dataKey="dsi" name="DSI (days)" fill="#7ac9a7" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default CostingComparisonPanel;
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip as RechartTooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  createPeriodRecord,
+  FORECAST_MODELS,
+  forecastTurnoverHistory,
+  LOW_TURNOVER_THRESHOLD,
+  MIN_FORECAST_PERIODS,
+  resolveCostOfGoodsSold,
+  type CalculatorValues,
+  type ForecastModel,
+  type PeriodHistory,
+} from '@/lib/turnover';
+
+interface ForecastPanelProps {
+  values: CalculatorValues;
+  history: PeriodHistory;
+  onHistoryChange: (history: PeriodHistory) => void;
+}
+
+type ForecastMetric = 'ratio' | 'dsi';
+
+const HORIZONS = [3, 6, 9, 12];
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({ values, history, onHistoryChange }) => {
+  const [model, setModel] = useState<ForecastModel>('linear');
+  const [horizon, setHorizon] = useState<number>(6);
+  const [metric, setMetric] = useState<ForecastMetric>('ratio');
+
+  const forecast = useMemo(() => forecastTurnoverHistory(history, model, horizon), [history, model, horizon]);
+
+  const addCurrentInputs = () => {
+    const record = createPeriodRecord(`Period ${history.records.length + 1}`, {
+      costOfGoodsSold: resolveCostOfGoodsSold(values),
+      beginningInventory: values.beginningInventory,
+      endingInventory: values.endingInventory,
+    });
+    onHistoryChange({ ...history, records: [...history.records, record] });
+  };
+
+  const chartData = useMemo(() => {
+    if (!forecast) return [];
+    const series = metric === 'ratio' ? forecast.ratio : forecast.daysSalesOfInventory;
+    const actualPoints = forecast.actuals.map((actual, index) => {
+      const value = metric === 'ratio' ? actual.ratio : actual.daysSalesOfInventory;
+      const isLast = index === forecast.actuals.length - 1;
+      // Start the forecast line and band at the last actual so the two lines join up.
+      return isLast
+        ? { label: actual.label, actual: value, forecast: value, band: [value, value] }
+        : { label: actual.label, actual: value };
+    });
+    const forecastPoints = series.points.map((point) => ({
+      label: `+${point.step}`,
+      forecast: point.value,
+      band: [Math.max(point.lower, 0), point.upper],
+    }));
+    return [...actualPoints, ...forecastPoints];
+  }, [forecast, metric]);
+
+  const frequencyLabel = history.frequency === 'month' ? 'months' : 'quarters';
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-primary mb-1">Turnover Forecast</h3>
+          <p className="text-sm text-gray-500">
+            Projects turnover and DSI from your period history ({history.records.length} {frequencyLabel} entered).
+          </p>
+        </div>
+        <Button variant="outline" onClick={addCurrentInputs} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add Current Inputs as a Period
+        </Button>
+      </div>
+
+      {!forecast ? (
+        <p className="text-sm text-gray-600">
+          Enter at least {MIN_FORECAST_PERIODS} periods of history to see a forecast.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <div>
+              <Label htmlFor="forecastModel" className="text-sm font-medium mb-1 block">
+                Model
+              </Label>
+              <Select value={model} onValueChange={(value) => setModel(value as ForecastModel)}>
+                <SelectTrigger id="forecastModel" className="w-full border-gray-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORECAST_MODELS.map((option) => (
+                    <SelectItem key={option.model} value={option.model}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="forecastHorizon" className="text-sm font-medium mb-1 block">
+                Forecast Ahead
+              </Label>
+              <Select value={String(horizon)} onValueChange={(value) => setHorizon(Number(value))}>
+                <SelectTrigger id="forecastHorizon" className="w-full border-gray-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HORIZONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} {frequencyLabel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="forecastMetric" className="text-sm font-medium mb-1 block">
+                Metric
+              </Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as ForecastMetric)}>
+                <SelectTrigger id="forecastMetric" className="w-full border-gray-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ratio">Turnover ratio</SelectItem>
+                  <SelectItem value="dsi">Days Sales of Inventory</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {model === 'holt-winters' && !forecast.ratio.seasonal && (
+            <p className="mb-4 text-xs text-gray-500">
+              Seasonality needs two full years of history, so this forecast uses the trend only.
+            </p>
+          )}
+
+          {forecast.lowTurnoverStep !== null && (
+            <div className="mb-4 flex items-start gap-2 rounded-md border border-destructive/40 bg-white p-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Turnover is projected to fall below {LOW_TURNOVER_THRESHOLD} in {forecast.lowTurnoverStep}{' '}
+                {forecast.lowTurnoverStep === 1 ? frequencyLabel.slice(0, -1) : frequencyLabel} — the low-turnover range.
+              </span>
+            </div>
+          )}
+
+          <div className="h-[320px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <RechartTooltip
+                  formatter={(value: number | number[], name: string) => {
+                    const digits = metric === 'ratio' ? 2 : 0;
+                    return Array.isArray(value)
+                      ? [`${value[0].toFixed(digits)} – ${value[1].toFixed(digits)}`, name]
+                      : [Number(value).toFixed(digits), name];
+                  }}
+                />
+                <Legend />
+                <Area dataKey="band" name="Forecast range (80%)" stroke="none" fill="#7ac9a7" fillOpacity={0.3} />
+                <Line dataKey="actual" name="Actual" stroke="#245e4f" strokeWidth={2} dot />
+                <Line dataKey="forecast" name="Forecast" stroke="#245e4f" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                {metric === 'ratio' && (
+                  <ReferenceLine y={LOW_TURNOVER_THRESHOLD} stroke="#e9c46a" strokeDasharray="3 3" label="Low turnover" />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForecastPanel;
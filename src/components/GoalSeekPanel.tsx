@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  getGoalSeekVariables,
+  solveForTarget,
+  type CalculationMethod,
+  type CalculatorValues,
+  type GoalSeekMetric,
+  type GoalSeekVariable,
+  type TurnoverResult,
+} from '@/lib/turnover';
+import { formatMeasure } from '@/lib/format';
+
+interface GoalSeekPanelProps {
+  values: CalculatorValues;
+  method: CalculationMethod;
+  result: TurnoverResult;
+}
+
+const DEFAULT_TARGETS: Record<GoalSeekMetric, number> = {
+  ratio: 6,
+  dsi: 60,
+};
+
+const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({ values, method, result }) => {
+  const [metric, setMetric] = useState<GoalSeekMetric>('ratio');
+  const [targetValue, setTargetValue] = useState<number>(DEFAULT_TARGETS.ratio);
+  const [solveFor, setSolveFor] = useState<GoalSeekVariable>('averageInventory');
+
+  const variables = getGoalSeekVariables(values, method);
+  // Switching method can remove the selected variable (e.g. ending inventory), so fall back to the first option.
+  const activeVariable = variables.some((option) => option.variable === solveFor) ? solveFor : variables[0].variable;
+
+  const solution = useMemo(
+    () => solveForTarget(values, method, result, { metric, value: targetValue, solveFor: activeVariable }),
+    [values, method, result, metric, targetValue, activeVariable]
+  );
+
+  const handleMetricChange = (value: string) => {
+    const nextMetric = value as GoalSeekMetric;
+    setMetric(nextMetric);
+    setTargetValue(DEFAULT_TARGETS[nextMetric]);
+  };
+
+  const isIncrease = solution.gap > 0;
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <h3 className="text-xl font-bold text-primary mb-1">Target Turnover Goal-Seek</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Work backwards from a target turnover or DSI to the inventory or sales you need, keeping every other input as it is.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div>
+          <Label htmlFor="goalSeekMetric" className="text-sm font-medium mb-1 block">
+            Target
+          </Label>
+          <Select value={metric} onValueChange={handleMetricChange}>
+            <SelectTrigger id="goalSeekMetric" className="w-full border-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ratio">Turnover ratio (times/year)</SelectItem>
+              <SelectItem value="dsi">Days Sales of Inventory</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="goalSeekValue" className="text-sm font-medium mb-1 block">
+            Target Value
+          </Label>
+          <div className="relative">
+            <Input
+              id="goalSeekValue"
+              type="number"
+              step="0.1"
+              value={targetValue}
+              onChange={(e) => setTargetValue(parseFloat(e.target.value) || 0)}
+              className="w-full border-gray-300"
+            />
+            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">
+              {metric === 'ratio' ? 'times' : 'days'}
+            </span>
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="goalSeekVariable" className="text-sm font-medium mb-1 block">
+            Solve For
+          </Label>
+          <Select value={activeVariable} onValueChange={(value) => setSolveFor(value as GoalSeekVariable)}>
+            <SelectTrigger id="goalSeekVariable" className="w-full border-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {variables.map((option) => (
+                <SelectItem key={option.variable} value={option.variable}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {solution.feasible ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h4 className="text-sm font-medium text-gray-500 mb-1">{solution.label}</h4>
+            <span className="text-2xl font-bold text-primary">{formatMeasure(solution.requiredValue, result.basis)}</span>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h4 className="text-sm font-medium text-gray-500 mb-1">Current</h4>
+            <span className="text-2xl font-bold text-primary">{formatMeasure(solution.currentValue, result.basis)}</span>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h4 className="text-sm font-medium text-gray-500 mb-1">Gap</h4>
+            <span className="text-2xl font-bold text-primary">
+              {isIncrease ? '+' : '−'}{formatMeasure(Math.abs(solution.gap), result.basis)}
+            </span>
+            <p className="mt-2 text-sm text-gray-600">
+              {Math.abs(solution.gapPercent).toFixed(1)}% {isIncrease ? 'more' : 'less'} than today
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-destructive">
+          This target can't be reached by changing that input alone. Try a different target or solve for another input.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GoalSeekPanel;
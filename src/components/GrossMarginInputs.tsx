@@ -0,0 +1,55 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import CalculatorField from './CalculatorField';
+import type { CalculatorValues, GrossMarginSource } from '@/lib/turnover';
+
+interface GrossMarginInputsProps {
+  values: CalculatorValues;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSourceChange: (source: GrossMarginSource) => void;
+}
+
+const GrossMarginInputs: React.FC<GrossMarginInputsProps> = ({ values, onInputChange, onSourceChange }) => {
+  const entered = values.grossMarginSource === 'entered';
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <h4 className="text-md font-semibold text-primary mb-1">Margin Inputs for GMROI</h4>
+      <p className="text-sm text-gray-500 mb-4">
+        Gross margin return on inventory uses the same period and average inventory at cost as the turnover above.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <CalculatorField
+          name="netSales"
+          id="gmroi-netSales"
+          label="Net Sales (₹)"
+          tooltip="Sales revenue for the period after returns, allowances and discounts"
+          value={values.netSales}
+          onChange={onInputChange}
+        />
+        {entered && (
+          <CalculatorField
+            name="grossMargin"
+            label="Gross Margin (₹)"
+            tooltip="Net sales less cost of goods sold for the period"
+            value={values.grossMargin}
+            onChange={onInputChange}
+          />
+        )}
+        <div className="md:col-span-2 flex items-center gap-3">
+          <Switch
+            id="enterGrossMargin"
+            checked={entered}
+            onCheckedChange={(checked) => onSourceChange(checked ? 'entered' : 'cogs')}
+          />
+          <Label htmlFor="enterGrossMargin" className="text-sm font-medium">
+            Enter gross margin directly instead of net sales less COGS
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GrossMarginInputs;
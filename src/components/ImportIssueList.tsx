@@ -0,0 +1,30 @@
+import React from 'react';
+import { AlertTriangle } from "lucide-react";
+import type { ImportIssue } from '@/lib/import';
+
+interface ImportIssueListProps {
+  issues: ImportIssue[];
+  /** How many issues to list before summarising the rest. */
+  limit?: number;
+}
+
+const ImportIssueList: React.FC<ImportIssueListProps> = ({ issues, limit = 8 }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {issues.slice(0, limit).map((issue, index) => (
+        <li
+          key={index}
+          className={`flex items-start gap-2 ${issue.severity === 'error' ? 'text-destructive' : 'text-amber-700'}`}
+        >
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{issue.item ?? `Row ${issue.row}`}: {issue.message}</span>
+        </li>
+      ))}
+      {issues.length > limit && <li className="text-gray-500">…and {issues.length - limit} more</li>}
+    </ul>
+  );
+};
+
+export default ImportIssueList;
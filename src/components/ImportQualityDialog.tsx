@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  buildQualityReport,
+  checkImportQuality,
+  QUALITY_CHECK_LABELS,
+  UNCATEGORISED,
+  type QualityCheck,
+  type QualityFinding,
+  type SkuImport,
+  type SkuRecord,
+} from '@/lib/import';
+
+interface ImportQualityDialogProps {
+  /** The import under review; its records are not changed until the review is applied. */
+  skuImport: SkuImport;
+  onApply: (reviewed: SkuImport) => void;
+  onCancel: () => void;
+}
+
+type EditableNumberField = 'costOfGoodsSold' | 'openingStockValue' | 'closingStockValue';
+
+const NUMBER_COLUMNS: { field: EditableNumberField; label: string }[] = [
+  { field: 'costOfGoodsSold', label: 'COGS (₹)' },
+  { field: 'openingStockValue', label: 'Opening (₹)' },
+  { field: 'closingStockValue', label: 'Closing (₹)' },
+];
+
+const PAGE_SIZE = 25;
+
+const ImportQualityDialog: React.FC<ImportQualityDialogProps> = ({ skuImport, onApply, onCancel }) => {
+  const [records, setRecords] = useState<SkuRecord[]>(skuImport.records);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+
+  // Rows stay listed once flagged, so fixing a row does not make it jump out of view.
+  const flaggedRows = useMemo(
+    () => Array.from(new Set(checkImportQuality(skuImport.records).map((finding) => finding.index))),
+    [skuImport]
+  );
+  const findings = useMemo(() => checkImportQuality(records, excluded), [records, excluded]);
+
+  const findingsByRow = new Map<number, QualityFinding[]>();
+  for (const finding of findings) {
+    findingsByRow.set(finding.index, [...(findingsByRow.get(finding.index) ?? []), finding]);
+  }
+  const counts = findings.reduce<Partial<Record<QualityCheck, number>>>(
+    (totals, finding) => ({ ...totals, [finding.check]: (totals[finding.check] ?? 0) + 1 }),
+    {}
+  );
+  const rowsWithErrors = flaggedRows.filter((index) => findingsByRow.get(index)?.some((finding) => finding.severity === 'error'));
+
+  const updateRecord = (index: number, changes: Partial<SkuRecord>) => {
+    setRecords(records.map((record, position) => (position === index ? { ...record, ...changes } : record)));
+  };
+
+  const toggleExcluded = (index: number, include: boolean) => {
+    const next = new Set(excluded);
+    if (include) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExcluded(next);
+  };
+
+  const handleApply = () => {
+    // A cleared category cell is applied as uncategorised rather than as a blank category.
+    const reviewed = records.map((record) => ({ ...record, category: record.category.trim() || UNCATEGORISED }));
+    onApply({
+      ...skuImport,
+      records: reviewed.filter((_, index) => !excluded.has(index)),
+      quality: buildQualityReport(skuImport.records, reviewed, excluded),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Check Imported Data</DialogTitle>
+          <DialogDescription>
+            {flaggedRows.length} of {skuImport.records.length} items from {skuImport.fileName} look wrong. Correct the figures or untick an item
+            to leave it out, then apply the data to the calculator.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          {(Object.keys(QUALITY_CHECK_LABELS) as QualityCheck[]).map((check) => (
+            <span
+              key={check}
+              className={cn(
+                "rounded-full border px-3 py-1",
+                counts[check] ? "border-amber-300 bg-amber-50 text-amber-800" : "border-gray-200 text-gray-400"
+              )}
+            >
+              {QUALITY_CHECK_LABELS[check]}: {counts[check] ?? 0}
+            </span>
+          ))}
+        </div>
+
+        <div className="rounded-lg border border-gray-200">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[56px]">Use</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead className="min-w-[130px]">Category</TableHead>
+                {NUMBER_COLUMNS.map((column) => (
+                  <TableHead key={column.field} className="min-w-[120px]">{column.label}</TableHead>
+                ))}
+                <TableHead className="min-w-[220px]">Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flaggedRows.slice(0, visibleCount).map((index) => {
+                const record = records[index];
+                const isExcluded = excluded.has(index);
+                const rowFindings = findingsByRow.get(index) ?? [];
+                return (
+                  <TableRow key={index} className={cn(isExcluded && "opacity-50")}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!isExcluded}
+                        onCheckedChange={(checked) => toggleExcluded(index, checked === true)}
+                        aria-label={`Use ${record.sku}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{record.sku}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={record.category}
+                        onChange={(e) => updateRecord(index, { category: e.target.value })}
+                        disabled={isExcluded}
+                        className="h-8 border-gray-300"
+                      />
+                    </TableCell>
+                    {NUMBER_COLUMNS.map((column) => (
+                      <TableCell key={column.field}>
+                        <Input
+                          type="number"
+                          value={record[column.field]}
+                          onChange={(e) => updateRecord(index, { [column.field]: parseFloat(e.target.value) || 0 })}
+                          disabled={isExcluded}
+                          className="h-8 border-gray-300"
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-xs">
+                      {isExcluded ? (
+                        <span className="text-gray-500">Left out</span>
+                      ) : rowFindings.length === 0 ? (
+                        <span className="text-emerald-700">Resolved</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {rowFindings.map((finding) => (
+                            <li
+                              key={finding.check}
+                              className={cn("flex items-start gap-1", finding.severity === 'error' ? "text-destructive" : "text-amber-700")}
+                            >
+                              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                              {finding.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        {flaggedRows.length > visibleCount && (
+          <Button variant="link" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} className="px-0 self-start">
+            Show {Math.min(PAGE_SIZE, flaggedRows.length - visibleCount)} more of {flaggedRows.length - visibleCount} remaining
+          </Button>
+        )}
+
+        <DialogFooter className="gap-2">
+          {rowsWithErrors.length > 0 && (
+            <Button variant="outline" onClick={() => setExcluded(new Set([...excluded, ...rowsWithErrors]))}>
+              Leave Out {rowsWithErrors.length} with Errors
+            </Button>
+          )}
+          <Button variant="outline" onClick={onCancel}>
+            Cancel Import
+          </Button>
+          <Button onClick={handleApply} disabled={excluded.size === records.length} className="cta-button">
+            Apply {records.length - excluded.size} Items
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportQualityDialog;
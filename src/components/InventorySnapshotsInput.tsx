@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip as RechartTooltip, XAxis, YAxis } from 'recharts';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  parseSnapshotList,
+  resizeSnapshots,
+  SNAPSHOT_FREQUENCIES,
+} from '@/lib/turnover';
+
+interface InventorySnapshotsInputProps {
+  snapshots: number[];
+  beginningInventory: number;
+  endingInventory: number;
+  onChange: (snapshots: number[]) => void;
+}
+
+const formatSnapshotList = (snapshots: number[]): string => snapshots.join('\n');
+
+const isSameList = (a: number[], b: number[]): boolean => a.length === b.length && a.every((value, index) => value === b[index]);
+
+const InventorySnapshotsInput: React.FC<InventorySnapshotsInputProps> = ({
+  snapshots,
+  beginningInventory,
+  endingInventory,
+  onChange,
+}) => {
+  const enabled = snapshots.length > 0;
+  // Keep the raw text so partially typed or pasted input isn't reformatted under the cursor.
+  const [text, setText] = useState(() => formatSnapshotList(snapshots));
+  const [syncedSnapshots, setSyncedSnapshots] = useState(snapshots);
+
+  // Snapshots can also change from outside (a ledger replay, a restored session, a shared
+  // link). Show those in the textarea unless they are just what was typed there.
+  if (snapshots !== syncedSnapshots) {
+    setSyncedSnapshots(snapshots);
+    if (!isSameList(parseSnapshotList(text), snapshots)) setText(formatSnapshotList(snapshots));
+  }
+
+  const matchingFrequency = SNAPSHOT_FREQUENCIES.find((option) => option.count === snapshots.length);
+
+  const applySnapshots = (next: number[]) => {
+    setText(formatSnapshotList(next));
+    onChange(next);
+  };
+
+  const handleToggle = (checked: boolean) => {
+    applySnapshots(checked ? resizeSnapshots([], SNAPSHOT_FREQUENCIES[1].count, beginningInventory, endingInventory) : []);
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    const option = SNAPSHOT_FREQUENCIES.find((item) => item.frequency === frequency);
+    if (!option) return;
+    applySnapshots(resizeSnapshots(snapshots.slice(0, option.count), option.count, beginningInventory, endingInventory));
+  };
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setText(e.target.value);
+    const parsed = parseSnapshotList(e.target.value);
+    if (parsed.length > 0) {
+      onChange(parsed);
+    }
+  };
+
+  const sparklineData = snapshots.map((value, index) => ({ index: index + 1, value }));
+
+  return (
+    <div className="md:col-span-2 space-y-3">
+      <div className="flex items-center gap-3">
+        <Switch id="useSnapshots" checked={enabled} onCheckedChange={handleToggle} />
+        <Label htmlFor="useSnapshots" className="text-sm font-medium">
+          Average periodic inventory balances instead of beginning and ending inventory
+        </Label>
+      </div>
+
+      {enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="snapshotFrequency" className="text-sm font-medium mb-1 block">
+                Balance Frequency
+              </Label>
+              <Select value={matchingFrequency?.frequency ?? ''} onValueChange={handleFrequencyChange}>
+                <SelectTrigger id="snapshotFrequency" className="w-full border-gray-300">
+                  <SelectValue placeholder={`${snapshots.length} balances`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {SNAPSHOT_FREQUENCIES.map((option) => (
+                    <SelectItem key={option.frequency} value={option.frequency}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="inventorySnapshots" className="text-sm font-medium mb-1 block">
+                Inventory Balances at Cost (₹)
+              </Label>
+              <Textarea
+                id="inventorySnapshots"
+                value={text}
+                onChange={handleTextChange}
+                rows={6}
+                className="w-full border-gray-300 font-mono text-sm"
+                placeholder="One balance per line, or paste a column from a spreadsheet"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {snapshots.length} balances entered, oldest first
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <span className="text-sm font-medium mb-1 block">Balance Trend</span>
+            <div className="h-[120px] w-full bg-white rounded-md border border-gray-200 p-2">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={sparklineData}>
+                  <XAxis dataKey="index" hide />
+                  <YAxis hide domain={['auto', 'auto']} />
+                  <RechartTooltip
+                    formatter={(value: number) => [`₹${value.toLocaleString('en-IN')}`, 'Balance']}
+                    labelFormatter={(label) => `Snapshot ${label}`}
+                  />
+                  <Line type="monotone" dataKey="value" stroke="#245e4f" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventorySnapshotsInput;
@@ -1,84 +1,196 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, Legend, ReferenceLine } from 'recharts';
-import { Calculator, Download, Mail } from "lucide-react";
+import { Calculator, Download, FileSpreadsheet, Link2, Mail } from "lucide-react";
 import { useToast } from '@/hooks/use-toast';
+import { useCalculatorSession } from '@/hooks/use-calculator-session';
+import { useCalculationAutoSave } from '@/hooks/use-calculation-autosave';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
+import AnalysisPeriodSelector from './AnalysisPeriodSelector';
+import CalculatorField from './CalculatorField';
+import InventorySnapshotsInput from './InventorySnapshotsInput';
+import CostOfGoodsSoldInputs from './CostOfGoodsSoldInputs';
+import GrossMarginInputs from './GrossMarginInputs';
+import GoalSeekPanel from './GoalSeekPanel';
+import ScenarioComparisonPanel from './ScenarioComparisonPanel';
+import SensitivityPanel from './SensitivityPanel';
+import MonteCarloPanel from './MonteCarloPanel';
+import PeriodHistoryTable from './PeriodHistoryTable';
+import ForecastPanel from './ForecastPanel';
+import CashConversionCyclePanel from './CashConversionCyclePanel';
+import CarryingCostPanel from './CarryingCostPanel';
+import CostingComparisonPanel from './CostingComparisonPanel';
+import SkuImportDialog from './SkuImportDialog';
+import TallyImportDialog from './TallyImportDialog';
+import PlatformImportDialog from './PlatformImportDialog';
+import PasteDataDialog from './PasteDataDialog';
+import LedgerImportDialog from './LedgerImportDialog';
+import SkuDrillDownPanel from './SkuDrillDownPanel';
+import ImportQualityDialog from './ImportQualityDialog';
+import CalculationHistorySheet from './CalculationHistorySheet';
+import {
+  applyLedgerReplay,
+  BASELINE_SCENARIO_ID,
+  calculateCarryingCost,
+  calculateGmroi,
+  calculateTurnover,
+  COSTING_METHOD_LABELS,
+  DAYS_IN_YEAR,
+  DEFAULT_ANALYSIS_PERIOD,
+  DEFAULT_BENCHMARK_NAME,
+  DEFAULT_CALCULATOR_VALUES,
+  DEFAULT_PERIOD_HISTORY,
+  derivesCostOfGoodsSold,
+  describeDaysSalesOfInventory,
+  describeGmroi,
+  evaluateScenario,
+  findBenchmark,
+  describeTurnover,
+  formatPeriodDays,
+  getLedgerPeriod,
+  getPeriodLabel,
+  GMROI_BENCHMARKS,
+  INDUSTRY_BENCHMARKS,
+  ledgerToPeriodRecords,
+  METHOD_DEFINITIONS,
+  type AnalysisPeriod,
+  type CalculationMethod,
+  type CalculatorValues,
+  type CostOfGoodsSoldSource,
+  type GrossMarginSource,
+  type HistoryFrequency,
+  type InventoryBasis,
+  type LedgerReplay,
+  type PeriodHistory,
+  type PeriodRecord,
+  type Scenario,
+  type ScenarioOutcome,
+  type StepUnit,
+} from '@/lib/turnover';
+import { applySkuRecords, buildQualityReport, checkImportQuality, type SkuImport } from '@/lib/import';
+import { addQualityAppendix, buildResultsWorkbook } from '@/lib/export';
+import { formatCurrency, formatMeasure } from '@/lib/format';
+import { buildShareUrl, decodeShareState, SHARE_PARAM } from '@/lib/share';
+import type { CalculatorSession, CalculatorState, SavedCalculation, Workspace } from '@/lib/storage';
 
-type CalculationMethod = 'cogs' | 'average';
+const formatStepValue = (value: number, unit: StepUnit): string => {
+  return unit === 'units' ? formatMeasure(value, 'units') : formatCurrency(value);
+};
 
-interface CalculatorValues {
-  costOfGoodsSold: number;
-  beginningInventory: number;
-  endingInventory: number;
-  averageInventory: number;
-}
+const formatPercentChange = (value: number, reference: number): string => {
+  if (reference === 0 || value === reference) return 'the same as';
+  const change = ((value - reference) / reference) * 100;
+  return `${Math.abs(change).toFixed(1)}% ${change > 0 ? 'above' : 'below'}`;
+};
 
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-    maximumFractionDigits: 0,
-  }).format(value);
+const BASIS_NOTES: Record<Exclude<InventoryBasis, 'cost'>, string> = {
+  retail: 'Measured at retail prices, so it reads higher than the cost-based ratio and the benchmarks below.',
+  units: 'Measured in units, so it is not directly comparable with the cost-based ratio or the benchmarks below.',
 };
 
-const InventoryTurnoverCalculator: React.FC = () => {
+interface InventoryTurnoverCalculatorProps {
+  /** Owns the saved session, saved calculations and report branding. */
+  workspace: Workspace;
+}
+
+const InventoryTurnoverCalculator: React.FC<InventoryTurnoverCalculatorProps> = ({ workspace }) => {
   const { toast } = useToast();
   const resultRef = useRef<HTMLDivElement>(null);
   
   const [method, setMethod] = useState<CalculationMethod>('cogs');
-  const [values, setValues] = useState<CalculatorValues>({
-    costOfGoodsSold: 1000000,
-    beginningInventory: 250000,
-    endingInventory: 150000,
-    averageInventory: 200000
+  const [period, setPeriod] = useState<AnalysisPeriod>(DEFAULT_ANALYSIS_PERIOD);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [benchmarkName, setBenchmarkName] = useState<string>(DEFAULT_BENCHMARK_NAME);
+  const [history, setHistory] = useState<PeriodHistory>(DEFAULT_PERIOD_HISTORY);
+  const [skuImport, setSkuImport] = useState<SkuImport | null>(null);
+  const [pendingImport, setPendingImport] = useState<SkuImport | null>(null);
+  const [values, setValues] = useState<CalculatorValues>(DEFAULT_CALCULATOR_VALUES);
+  
+  const calculatorState = useMemo<CalculatorState>(
+    () => ({ values, method, period, benchmarkName }),
+    [values, method, period, benchmarkName]
+  );
+  const session = useMemo<CalculatorSession>(
+    () => ({ ...calculatorState, scenarios, history }),
+    [calculatorState, scenarios, history]
+  );
+  
+  const restored = useCalculatorSession(workspace.id, session, (saved) => {
+    setValues(saved.values);
+    setMethod(saved.method);
+    setPeriod(saved.period);
+    setBenchmarkName(saved.benchmarkName);
+    setScenarios(saved.scenarios);
+    setHistory(saved.history);
   });
   
-  const [turnoverRatio, setTurnoverRatio] = useState<number>(0);
-  const [daysToSell, setDaysToSell] = useState<number>(0);
-  const [benchmarkData, setBenchmarkData] = useState<any[]>([]);
-  const [comparisonData, setComparisonData] = useState<any[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
   
+  // A shared link opens after the saved session is restored so that the link wins, then
+  // leaves the address bar so reloading keeps any changes made since.
   useEffect(() => {
-    calculateResults();
-  }, [values, method]);
+    const shared = searchParams.get(SHARE_PARAM);
+    if (!restored || !shared) return;
+    let cancelled = false;
+    decodeShareState(shared)
+      .then((state) => {
+        if (cancelled) return;
+        setValues(state.values);
+        setMethod(state.method);
+        setPeriod(state.period);
+        setBenchmarkName(state.benchmarkName);
+        toast({
+          title: "Shared Calculation Opened",
+          description: "The inputs, method and benchmark from the link are now in the calculator.",
+        });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          variant: "destructive",
+          title: "Link Not Opened",
+          description: error instanceof Error ? error.message : 'The shared link could not be read.',
+        });
+      })
+      .finally(() => {
+        if (cancelled) return;
+        const remaining = new URLSearchParams(searchParams);
+        remaining.delete(SHARE_PARAM);
+        setSearchParams(remaining, { replace: true });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [restored, searchParams, setSearchParams, toast]);
   
-  const calculateResults = () => {
-    let inventoryValue: number;
-    let ratio: number;
-    
-    if (method === 'cogs') {
-      inventoryValue = (values.beginningInventory + values.endingInventory) / 2;
-      ratio = values.costOfGoodsSold / inventoryValue;
-    } else {
-      inventoryValue = values.averageInventory;
-      ratio = values.costOfGoodsSold / inventoryValue;
-    }
-    
-    setTurnoverRatio(ratio);
-    setDaysToSell(365 / ratio);
-    
-    // Update chart data
-    setBenchmarkData([
-      { name: 'Apparel', value: 4.5 },
-      { name: 'Electronics', value: 5.2 },
-      { name: 'Grocery', value: 12.8 },
-      { name: 'Furniture', value: 2.3 },
-      { name: 'General Retail', value: 3.8 },
-    ]);
-    
-    setComparisonData([
-      { name: 'Your Business', value: ratio },
-      { name: 'Industry Avg.', value: 3.8 },
-    ]);
-  };
+  const result = useMemo(() => calculateTurnover(values, method, period), [values, method, period]);
+  useCalculationAutoSave(workspace.id, calculatorState, result, restored);
+  const benchmark = findBenchmark(benchmarkName);
+  const gmroi = useMemo(() => calculateGmroi(values, result), [values, result]);
+  const methodDefinition = METHOD_DEFINITIONS[method];
+  const turnoverRatio = result.ratio;
+  const daysToSell = result.daysSalesOfInventory;
+  
+  const scenarioOutcomes = useMemo<ScenarioOutcome[]>(() => [
+    {
+      id: BASELINE_SCENARIO_ID,
+      name: scenarios.length > 0 ? 'Baseline' : 'Your Business',
+      turnover: result,
+      carryingCost: calculateCarryingCost(values, result),
+    },
+    ...scenarios.map((scenario) => evaluateScenario(scenario, method, period)),
+  ], [values, result, scenarios, method, period]);
+  
+  const comparisonData = useMemo(() => [
+    ...scenarioOutcomes.map((outcome) => ({ name: outcome.name, value: outcome.turnover.ratio })),
+    { name: `${benchmark.name} Avg.`, value: benchmark.value },
+  ], [scenarioOutcomes, benchmark]);
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -88,10 +200,97 @@ const InventoryTurnoverCalculator: React.FC = () => {
     });
   };
   
+  const handleCostOfGoodsSoldSourceChange = (costOfGoodsSoldSource: CostOfGoodsSoldSource) => {
+    setValues({ ...values, costOfGoodsSoldSource });
+  };
+  
+  const handleGrossMarginSourceChange = (grossMarginSource: GrossMarginSource) => {
+    setValues({ ...values, grossMarginSource });
+  };
+  
+  const handleSnapshotsChange = (inventorySnapshots: number[]) => {
+    setValues({ ...values, inventorySnapshots });
+  };
+  
   const handleMethodChange = (value: string) => {
     setMethod(value as CalculationMethod);
   };
   
+  const applySkuImport = (imported: SkuImport) => {
+    setValues(applySkuRecords(values, imported.records));
+    setSkuImport(imported);
+    setPendingImport(null);
+    toast({
+      title: "Stock Data Imported",
+      description: `${imported.records.length} items from ${imported.fileName} now drive your COGS and inventory inputs.`,
+    });
+  };
+  
+  // Imports with data-quality findings are reviewed before they replace the inputs.
+  const handleSkuImport = (imported: SkuImport) => {
+    if (checkImportQuality(imported.records).length > 0) {
+      setPendingImport(imported);
+    } else {
+      applySkuImport({ ...imported, quality: buildQualityReport(imported.records, imported.records, new Set()) });
+    }
+  };
+  
+  const handlePastedValues = (pasted: CalculatorValues) => {
+    setValues(pasted);
+    toast({
+      title: "Pasted Values Applied",
+      description: "The calculator inputs have been updated from your spreadsheet.",
+    });
+  };
+  
+  const handlePastedHistory = (pasted: PeriodHistory) => {
+    setHistory(pasted);
+    toast({
+      title: "Period History Updated",
+      description: `Your history now has ${pasted.records.length} periods.`,
+    });
+  };
+  
+  const handleLedgerReplay = (replay: LedgerReplay, fileName: string, replaceHistory: boolean) => {
+    setValues(applyLedgerReplay(values, replay));
+    setMethod('cogs');
+    setPeriod(getLedgerPeriod(replay));
+    setSkuImport(null);
+    if (replaceHistory) {
+      setHistory({ frequency: 'month', records: ledgerToPeriodRecords(replay) });
+    }
+    toast({
+      title: "Ledger Replayed",
+      description: `COGS and ${replay.months.length} month-end balances from ${fileName} (${COSTING_METHOD_LABELS[replay.method]}) now drive the calculation.`,
+    });
+  };
+  
+  const handleLoadCalculation = (calculation: SavedCalculation) => {
+    setValues(calculation.values);
+    setMethod(calculation.method);
+    setPeriod(calculation.period);
+    setBenchmarkName(calculation.benchmarkName);
+    setSkuImport(null);
+    toast({
+      title: "Calculation Loaded",
+      description: `"${calculation.label}" is back in the calculator.`,
+    });
+  };
+  
+  const handleLoadHistoryRecord = (record: PeriodRecord, frequency: HistoryFrequency) => {
+    setValues({
+      ...values,
+      costOfGoodsSoldSource: 'entered',
+      costOfGoodsSold: record.costOfGoodsSold,
+      beginningInventory: record.beginningInventory,
+      endingInventory: record.endingInventory,
+      inventorySnapshots: [],
+    });
+    setMethod('cogs');
+    setPeriod({ type: frequency });
+    resultRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+  
   const generatePDF = async () => {
     if (!resultRef.current) return;
     
@@ -116,22 +315,24 @@ const InventoryTurnoverCalculator: React.FC = () => {
       });
       
       // Add branded header
-      pdf.setFillColor(36, 94, 79); // dark green
+      const { branding } = workspace;
+      pdf.setFillColor(branding.accentColor);
       pdf.rect(0, 0, 210, 25, 'F');
       pdf.setTextColor(255, 255, 255);
       pdf.setFont('helvetica', 'bold');
       pdf.setFontSize(16);
-      pdf.text('Retail Insights Visualizer', 105, 15, { align: 'center' });
+      pdf.text(branding.headerText, 105, 15, { align: 'center' });
       
       // Add report title
-      pdf.setTextColor(36, 94, 79);
+      pdf.setTextColor(branding.accentColor);
       pdf.setFontSize(20);
       pdf.text('Inventory Turnover Analysis', 105, 40, { align: 'center' });
       
       // Add date
       pdf.setFontSize(10);
       pdf.setTextColor(100, 100, 100);
-      pdf.text(`Generated on: ${new Date().toLocaleDateString('en-IN')}`, 105, 50, { align: 'center' });
+      const generatedOn = `Generated on: ${new Date().toLocaleDateString('en-IN')}`;
+      pdf.text(branding.preparedFor ? `Prepared for ${branding.preparedFor} | ${generatedOn}` : generatedOn, 105, 50, { align: 'center' });
       
       // Add image of results
       const imgWidth = 180;
@@ -139,11 +340,15 @@ const InventoryTurnoverCalculator: React.FC = () => {
       pdf.addImage(imgData, 'PNG', 15, 60, imgWidth, imgHeight);
       
       // Add footer
-      pdf.setFillColor(36, 94, 79);
+      pdf.setFillColor(branding.accentColor);
       pdf.rect(0, 282, 210, 15, 'F');
       pdf.setTextColor(255, 255, 255);
       pdf.setFontSize(10);
-      pdf.text('© 2023 Retail Insights Visualizer | www.retailinsights.com', 105, 290, { align: 'center' });
+      pdf.text(branding.footerText, 105, 290, { align: 'center' });
+      
+      if (skuImport?.quality) {
+        addQualityAppendix(pdf, skuImport.fileName, skuImport.quality, branding.accentColor);
+      }
       
       pdf.save('inventory-turnover-analysis.pdf');
       
@@ -161,6 +366,55 @@ const InventoryTurnoverCalculator: React.FC = () => {
     }
   };
   
+  const downloadWorkbook = async () => {
+    try {
+      const blob = await buildResultsWorkbook({
+        values,
+        method,
+        result,
+        gmroi,
+        carryingCost: scenarioOutcomes[0].carryingCost,
+        benchmark,
+        outcomes: scenarioOutcomes,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'inventory-turnover-analysis.xlsx';
+      link.click();
+      URL.revokeObjectURL(url);
+      
+      toast({
+        title: "Excel Workbook Downloaded",
+        description: "Results, calculation details and scenarios are in the workbook as live formulas.",
+      });
+    } catch (error) {
+      console.error('Error generating workbook:', error);
+      toast({
+        variant: "destructive",
+        title: "Download Failed",
+        description: "There was an error generating your Excel workbook. Please try again.",
+      });
+    }
+  };
+  
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await buildShareUrl(calculatorState));
+      toast({
+        title: "Link Copied",
+        description: "Anyone with the link opens the calculator with your inputs, method and benchmark.",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        variant: "destructive",
+        title: "Copy Failed",
+        description: "The link could not be copied to your clipboard. Please try again.",
+      });
+    }
+  };
+  
   const sendEmail = () => {
     // In a real implementation, this would connect to a backend service
     toast({
@@ -176,6 +430,9 @@ const InventoryTurnoverCalculator: React.FC = () => {
           <div className="flex items-center gap-2">
             <Calculator className="h-6 w-6" />
             <CardTitle className="text-2xl font-bold">Inventory Turnover Calculator</CardTitle>
+            <div className="ml-auto">
+              <CalculationHistorySheet workspaceId={workspace.id} current={calculatorState} result={result} onLoad={handleLoadCalculation} />
+            </div>
           </div>
           <CardDescription className="text-gray-100 mt-2">
             Analyze how efficiently your retail business moves inventory and compare with industry benchmarks
@@ -183,168 +440,167 @@ const InventoryTurnoverCalculator: React.FC = () => {
         </CardHeader>
         
         <CardContent className="p-6">
-          <Tabs defaultValue="cogs" onValueChange={handleMethodChange} className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-6">
+          <div className="flex flex-col md:flex-row md:justify-between gap-4">
+            <AnalysisPeriodSelector period={period} onChange={setPeriod} />
+            <div className="flex flex-wrap gap-2 mb-6 md:self-end">
+              <PasteDataDialog
+                values={values}
+                history={history}
+                onApplyValues={handlePastedValues}
+                onApplyHistory={handlePastedHistory}
+              />
+              <SkuImportDialog onImport={handleSkuImport} />
+              <TallyImportDialog onImport={handleSkuImport} />
+              <PlatformImportDialog onImport={handleSkuImport} />
+              <LedgerImportDialog onApply={handleLedgerReplay} />
+            </div>
+          </div>
+          
+          {pendingImport && (
+            <ImportQualityDialog
+              key={pendingImport.fileName}
+              skuImport={pendingImport}
+              onApply={applySkuImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+          
+          <Tabs value={method} onValueChange={handleMethodChange} className="w-full">
+            <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 h-auto mb-6">
               <TabsTrigger value="cogs">COGS Method</TabsTrigger>
               <TabsTrigger value="average">Average Inventory Method</TabsTrigger>
+              <TabsTrigger value="sales">Sales Method</TabsTrigger>
+              <TabsTrigger value="units">Units Method</TabsTrigger>
             </TabsList>
             
             <TabsContent value="cogs" className="space-y-4 animate-slide-up">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <Label htmlFor="costOfGoodsSold" className="text-sm font-medium mb-1 block">
-                    Cost of Goods Sold (₹)
-                  </Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <div className="relative">
-                          <Input
-                            id="costOfGoodsSold"
-                            name="costOfGoodsSold"
-                            type="number"
-                            value={values.costOfGoodsSold}
-                            onChange={handleInputChange}
-                            className="w-full border-gray-300"
-                          />
-                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Total cost of inventory sold during the period</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-                
-                <div>
-                  <Label htmlFor="beginningInventory" className="text-sm font-medium mb-1 block">
-                    Beginning Inventory (₹)
-                  </Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <div className="relative">
-                          <Input
-                            id="beginningInventory"
-                            name="beginningInventory"
-                            type="number"
-                            value={values.beginningInventory}
-                            onChange={handleInputChange}
-                            className="w-full border-gray-300"
-                          />
-                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Value of inventory at the start of the period</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-                
-                <div>
-                  <Label htmlFor="endingInventory" className="text-sm font-medium mb-1 block">
-                    Ending Inventory (₹)
-                  </Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <div className="relative">
-                          <Input
-                            id="endingInventory"
-                            name="endingInventory"
-                            type="number"
-                            value={values.endingInventory}
-                            onChange={handleInputChange}
-                            className="w-full border-gray-300"
-                          />
-                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Value of inventory at the end of the period</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
+                <CostOfGoodsSoldInputs
+                  idPrefix="cogs"
+                  values={values}
+                  onInputChange={handleInputChange}
+                  onSourceChange={handleCostOfGoodsSoldSourceChange}
+                  includeInventoryBalances={values.inventorySnapshots.length > 0}
+                />
+                {values.inventorySnapshots.length === 0 && (
+                  <>
+                    <CalculatorField
+                      name="beginningInventory"
+                      label="Beginning Inventory (₹)"
+                      tooltip="Value of inventory at the start of the period"
+                      value={values.beginningInventory}
+                      onChange={handleInputChange}
+                    />
+                    <CalculatorField
+                      name="endingInventory"
+                      label="Ending Inventory (₹)"
+                      tooltip="Value of inventory at the end of the period"
+                      value={values.endingInventory}
+                      onChange={handleInputChange}
+                    />
+                  </>
+                )}
+                <InventorySnapshotsInput
+                  snapshots={values.inventorySnapshots}
+                  beginningInventory={values.beginningInventory}
+                  endingInventory={values.endingInventory}
+                  onChange={handleSnapshotsChange}
+                />
               </div>
             </TabsContent>
             
             <TabsContent value="average" className="space-y-4 animate-slide-up">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <Label htmlFor="costOfGoodsSold" className="text-sm font-medium mb-1 block">
-                    Cost of Goods Sold (₹)
-                  </Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <div className="relative">
-                          <Input
-                            id="costOfGoodsSold"
-                            name="costOfGoodsSold"
-                            type="number"
-                            value={values.costOfGoodsSold}
-                            onChange={handleInputChange}
-                            className="w-full border-gray-300"
-                          />
-                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Total cost of inventory sold during the period</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-                
-                <div>
-                  <Label htmlFor="averageInventory" className="text-sm font-medium mb-1 block">
-                    Average Inventory Value (₹)
-                  </Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <div className="relative">
-                          <Input
-                            id="averageInventory"
-                            name="averageInventory"
-                            type="number"
-                            value={values.averageInventory}
-                            onChange={handleInputChange}
-                            className="w-full border-gray-300"
-                          />
-                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
-                        </div>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Average value of inventory over the period</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
+                <CostOfGoodsSoldInputs
+                  idPrefix="average"
+                  values={values}
+                  onInputChange={handleInputChange}
+                  onSourceChange={handleCostOfGoodsSoldSourceChange}
+                  includeInventoryBalances
+                />
+                <CalculatorField
+                  name="averageInventory"
+                  label="Average Inventory Value (₹)"
+                  tooltip="Average value of inventory over the period"
+                  value={values.averageInventory}
+                  onChange={handleInputChange}
+                />
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="sales" className="space-y-4 animate-slide-up">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <CalculatorField
+                  name="netSales"
+                  label="Net Sales (₹)"
+                  tooltip="Sales revenue for the period after returns, allowances and discounts"
+                  value={values.netSales}
+                  onChange={handleInputChange}
+                />
+                <CalculatorField
+                  name="averageRetailInventory"
+                  label="Average Inventory at Retail (₹)"
+                  tooltip="Average inventory over the period valued at its selling price"
+                  value={values.averageRetailInventory}
+                  onChange={handleInputChange}
+                />
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="units" className="space-y-4 animate-slide-up">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <CalculatorField
+                  name="unitsSold"
+                  label="Units Sold"
+                  tooltip="Number of units sold or shipped during the period"
+                  value={values.unitsSold}
+                  onChange={handleInputChange}
+                  suffix="units"
+                />
+                <CalculatorField
+                  name="averageUnitsOnHand"
+                  label="Average Units on Hand"
+                  tooltip="Average number of units in stock over the period"
+                  value={values.averageUnitsOnHand}
+                  onChange={handleInputChange}
+                  suffix="units"
+                />
               </div>
             </TabsContent>
           </Tabs>
           
+          <GrossMarginInputs
+            values={values}
+            onInputChange={handleInputChange}
+            onSourceChange={handleGrossMarginSourceChange}
+          />
+          
           <div ref={resultRef} className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
             <h3 className="text-xl font-bold text-primary mb-4">Your Results</h3>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-6">
+            {result.warnings.length > 0 && (
+              <ul className="mb-4 space-y-1 text-sm text-destructive">
+                {result.warnings.map((warning) => (
+                  <li key={warning.code}>{warning.message}</li>
+                ))}
+              </ul>
+            )}
+            
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-6">
               <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
-                <h4 className="text-sm font-medium text-gray-500 mb-1">Inventory Turnover Ratio</h4>
+                <h4 className="text-sm font-medium text-gray-500 mb-1">{methodDefinition.label} Ratio</h4>
                 <div className="flex items-end">
                   <span className="text-3xl font-bold text-primary">{turnoverRatio.toFixed(2)}</span>
                   <span className="text-sm text-gray-500 ml-2 mb-1">times/year</span>
                 </div>
                 <p className="mt-2 text-sm text-gray-600">
-                  {turnoverRatio < 2 ? 
-                    "Low turnover - consider reducing inventory levels" : 
-                    turnoverRatio > 6 ? 
-                      "High turnover - efficient inventory management" : 
-                      "Average turnover - within normal retail range"}
+                  {describeTurnover(turnoverRatio)}
                 </p>
+                {result.basis !== 'cost' && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {BASIS_NOTES[result.basis]}
+                  </p>
+                )}
               </div>
               
               <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
@@ -354,17 +610,38 @@ const InventoryTurnoverCalculator: React.FC = () => {
                   <span className="text-sm text-gray-500 ml-2 mb-1">days</span>
                 </div>
                 <p className="mt-2 text-sm text-gray-600">
-                  {daysToSell > 180 ? 
-                    "Your inventory takes a long time to sell" : 
-                    daysToSell < 60 ? 
-                      "Your inventory sells very quickly" : 
-                      "Your inventory sells at an average pace"}
+                  {describeDaysSalesOfInventory(daysToSell)}
+                </p>
+              </div>
+              
+              <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <h4 className="text-sm font-medium text-gray-500 mb-1">GMROI</h4>
+                <div className="flex items-end">
+                  <span className="text-3xl font-bold text-primary">{gmroi.gmroi.toFixed(2)}</span>
+                  <span className="text-sm text-gray-500 ml-2 mb-1">₹ margin per ₹ inventory/year</span>
+                </div>
+                <p className="mt-2 text-sm text-gray-600">
+                  {describeGmroi(gmroi.gmroi)}
                 </p>
               </div>
             </div>
             
             <div className="mt-6">
-              <h4 className="text-lg font-semibold text-primary mb-4">Inventory Turnover Comparison</h4>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                <h4 className="text-lg font-semibold text-primary">Inventory Turnover Comparison</h4>
+                <Select value={benchmark.name} onValueChange={setBenchmarkName}>
+                  <SelectTrigger aria-label="Industry benchmark" className="sm:w-56 border-gray-300 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INDUSTRY_BENCHMARKS.map((item) => (
+                      <SelectItem key={item.name} value={item.name}>
+                        Compare with {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="h-[300px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart
@@ -375,13 +652,13 @@ const InventoryTurnoverCalculator: React.FC = () => {
                     <XAxis dataKey="name" />
                     <YAxis />
                     <RechartTooltip 
-                      formatter={(value: any) => {
+                      formatter={(value: number) => {
                         return [`${Number(value).toFixed(2)} times`, 'Turnover Ratio'];
                       }} 
                     />
                     <Legend />
                     <Bar dataKey="value" name="Turnover Ratio" fill="#245e4f" radius={[4, 4, 0, 0]} />
-                    <ReferenceLine y={3.8} stroke="#e9c46a" strokeDasharray="3 3" />
+                    <ReferenceLine y={benchmark.value} stroke="#e9c46a" strokeDasharray="3 3" />
                   </BarChart>
                 </ResponsiveContainer>
               </div>
@@ -392,14 +669,14 @@ const InventoryTurnoverCalculator: React.FC = () => {
               <div className="h-[300px] w-full">
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart
-                    data={benchmarkData}
+                    data={INDUSTRY_BENCHMARKS}
                     margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                   >
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="name" />
                     <YAxis />
                     <RechartTooltip 
-                      formatter={(value: any) => {
+                      formatter={(value: number) => {
                         return [`${Number(value).toFixed(2)} times`, 'Turnover Ratio'];
                       }}
                     />
@@ -411,45 +688,122 @@ const InventoryTurnoverCalculator: React.FC = () => {
               </div>
             </div>
             
+            <div className="mt-6">
+              <h4 className="text-lg font-semibold text-primary mb-4">GMROI Benchmarks</h4>
+              <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={GMROI_BENCHMARKS}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis />
+                    <RechartTooltip
+                      formatter={(value: number) => {
+                        return [`₹${Number(value).toFixed(2)}`, 'GMROI'];
+                      }}
+                    />
+                    <Legend />
+                    <Bar dataKey="value" name="GMROI" fill="#7ac9a7" radius={[4, 4, 0, 0]} />
+                    <ReferenceLine y={gmroi.gmroi} stroke="#e9c46a" strokeDasharray="3 3" label="Your GMROI" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            
             <div className="mt-8 bg-white p-4 rounded-lg border border-gray-200">
               <h4 className="text-md font-semibold text-primary mb-2">Calculation Details</h4>
               <div className="text-sm text-gray-600 space-y-1">
-                {method === 'cogs' ? (
-                  <>
-                    <p>Cost of Goods Sold: {formatCurrency(values.costOfGoodsSold)}</p>
-                    <p>Beginning Inventory: {formatCurrency(values.beginningInventory)}</p>
-                    <p>Ending Inventory: {formatCurrency(values.endingInventory)}</p>
-                    <p>Average Inventory: {formatCurrency((values.beginningInventory + values.endingInventory) / 2)}</p>
-                    <p className="font-medium mt-2">
-                      Inventory Turnover = {formatCurrency(values.costOfGoodsSold)} ÷ {formatCurrency((values.beginningInventory + values.endingInventory) / 2)} = {turnoverRatio.toFixed(2)}
+                <p>Analysis Period: {getPeriodLabel(period)} ({formatPeriodDays(result.periodDays)} days)</p>
+                {result.steps
+                  .filter((step) => step.unit === 'currency' || step.unit === 'units')
+                  .map((step) => step.key === 'costOfGoodsSold' && derivesCostOfGoodsSold(values, method) ? (
+                    <p key={step.key} className="font-medium">
+                      Cost of Goods Sold = {formatCurrency(values.beginningInventory)} + {formatCurrency(values.purchases)}
+                      {' + '}{formatCurrency(values.freightIn)} − {formatCurrency(values.purchaseReturns)}
+                      {' − '}{formatCurrency(values.purchaseDiscounts)} − {formatCurrency(values.endingInventory)} = {formatCurrency(step.value)}
                     </p>
-                  </>
-                ) : (
-                  <>
-                    <p>Cost of Goods Sold: {formatCurrency(values.costOfGoodsSold)}</p>
-                    <p>Average Inventory: {formatCurrency(values.averageInventory)}</p>
-                    <p className="font-medium mt-2">
-                      Inventory Turnover = {formatCurrency(values.costOfGoodsSold)} ÷ {formatCurrency(values.averageInventory)} = {turnoverRatio.toFixed(2)}
-                    </p>
-                  </>
+                  ) : (
+                    <p key={step.key}>{step.label}: {formatStepValue(step.value, step.unit)}</p>
+                  ))}
+                {result.twoPointAverage !== undefined && result.twoPointAverage > 0 && (
+                  <p className="text-xs text-gray-500">
+                    The simple two-point average would be {formatCurrency(result.twoPointAverage)},{' '}
+                    {formatPercentChange(result.twoPointAverage, result.averageInventory)} the {values.inventorySnapshots.length}-snapshot
+                    average, giving a turnover of {(turnoverRatio * result.averageInventory / result.twoPointAverage).toFixed(2)} instead of {turnoverRatio.toFixed(2)}.
+                  </p>
                 )}
+                <p className="font-medium mt-2">
+                  Period Turnover = {formatMeasure(result.throughput, result.basis)} ÷ {formatMeasure(result.averageInventory, result.basis)} = {result.periodRatio.toFixed(2)}
+                </p>
                 <p className="font-medium">
-                  Days Sales of Inventory = 365 ÷ {turnoverRatio.toFixed(2)} = {daysToSell.toFixed(0)} days
+                  Annualised {methodDefinition.label} = {result.periodRatio.toFixed(2)} × ({DAYS_IN_YEAR} ÷ {formatPeriodDays(result.periodDays)}) = {turnoverRatio.toFixed(2)}
+                </p>
+                <p className="font-medium">
+                  GMROI = {formatCurrency(gmroi.grossMargin)} ÷ {formatCurrency(gmroi.averageInventoryAtCost)} × ({DAYS_IN_YEAR} ÷ {formatPeriodDays(result.periodDays)}) = {gmroi.gmroi.toFixed(2)}
+                  {values.grossMarginSource === 'cogs' && (
+                    <span className="font-normal"> (gross margin = net sales {formatCurrency(gmroi.netSales)} − COGS, {gmroi.grossMarginPercent.toFixed(1)}% of sales)</span>
+                  )}
+                </p>
+                <p className="font-medium">
+                  Days Sales of Inventory = {formatPeriodDays(result.periodDays)} ÷ {result.periodRatio.toFixed(2)} = {daysToSell.toFixed(0)} days
                 </p>
               </div>
             </div>
           </div>
+          
+          {skuImport && (
+            <SkuDrillDownPanel
+              key={skuImport.fileName}
+              skuImport={skuImport}
+              period={period}
+              onClear={() => setSkuImport(null)}
+            />
+          )}
+          
+          <GoalSeekPanel values={values} method={method} result={result} />
+          
+          <ScenarioComparisonPanel
+            values={values}
+            method={method}
+            scenarios={scenarios}
+            outcomes={scenarioOutcomes}
+            onScenariosChange={setScenarios}
+          />
+          
+          <SensitivityPanel values={values} method={method} period={period} />
+          
+          <MonteCarloPanel values={values} method={method} period={period} result={result} benchmark={benchmark} />
+          
+          <PeriodHistoryTable history={history} onHistoryChange={setHistory} onLoadRecord={handleLoadHistoryRecord} />
+          
+          <ForecastPanel values={values} history={history} onHistoryChange={setHistory} />
+          
+          <CashConversionCyclePanel values={values} result={result} onInputChange={handleInputChange} />
+          
+          <CarryingCostPanel values={values} result={result} onInputChange={handleInputChange} />
+          
+          <CostingComparisonPanel period={period} />
         </CardContent>
         
         <CardFooter className="flex flex-col sm:flex-row justify-between gap-4 p-6 bg-gray-50 rounded-b-xl border-t border-gray-100">
           <div className="text-sm text-gray-500">
             Use the buttons to save or share your results
           </div>
-          <div className="flex gap-3">
+          <div className="flex flex-wrap gap-3">
+            <Button variant="outline" onClick={copyShareLink} className="flex items-center gap-2">
+              <Link2 className="h-4 w-4" />
+              Copy Link
+            </Button>
             <Button variant="outline" onClick={sendEmail} className="flex items-center gap-2">
               <Mail className="h-4 w-4" />
               Email Results
             </Button>
+            <Button variant="outline" onClick={downloadWorkbook} className="flex items-center gap-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              Download Excel
+            </Button>
             <Button onClick={generatePDF} className="cta-button flex items-center gap-2">
               <Download className="h-4 w-4" />
               Download PDF
@@ -480,7 +834,7 @@ const InventoryTurnoverCalculator: React.FC = () => {
           <h3 className="subsection-title">How to Calculate Inventory Turnover</h3>
           <div className="info-text space-y-4">
             <p>
-              There are two common methods to calculate inventory turnover:
+              There are three common ways to calculate inventory turnover:
             </p>
             <ol className="list-decimal pl-5 space-y-2">
               <li>
@@ -490,9 +844,16 @@ const InventoryTurnoverCalculator: React.FC = () => {
                 </p>
               </li>
               <li>
-                <strong>Sales Method:</strong> Inventory Turnover = Net Sales ÷ Average Inventory
+                <strong>Sales Method:</strong> Inventory Turnover = Net Sales ÷ Average Inventory at Retail
                 <p className="mt-1">
                   This alternative uses net sales instead of COGS and is sometimes used when cost information is unavailable.
+                  Because both figures include your markup, the result is higher than the cost-based ratio and should not be mixed with it.
+                </p>
+              </li>
+              <li>
+                <strong>Units Method:</strong> Unit Turnover = Units Sold ÷ Average Units on Hand
+                <p className="mt-1">
+                  Warehouse and operations teams often track turnover in units, which removes the effect of price changes and product mix on value.
                 </p>
               </li>
             </ol>
@@ -619,6 +980,23 @@ const InventoryTurnoverCalculator: React.FC = () => {
           </div>
         </section>
         
+        <section>
+          <h3 className="subsection-title">Gross Margin Return on Inventory (GMROI)</h3>
+          <div className="info-text space-y-4">
+            <p>
+              Turnover on its own rewards fast-moving lines even when they earn very little. GMROI balances it by measuring how many rupees 
+              of gross margin each rupee of inventory at cost earns over a year.
+            </p>
+            <div className="bg-white p-3 rounded-md border border-gray-200 my-3 text-center">
+              <strong>GMROI = Gross Margin ÷ Average Inventory at Cost</strong>
+            </div>
+            <p>
+              A GMROI below 1 means inventory is returning less margin than it ties up. A slow-moving, high-margin category can earn the 
+              same GMROI as a fast-moving, low-margin one, which is why the two metrics are best read together.
+            </p>
+          </div>
+        </section>
+        
         <section>
           <h3 className="subsection-title">Conclusion</h3>
           <div className="info-text space-y-4">
@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ImportIssueList from './ImportIssueList';
+import {
+  detectHeaderRow,
+  guessLedgerColumns,
+  LEDGER_COLUMNS,
+  parseCsv,
+  parseLedgerRows,
+  readWorkbook,
+  type ImportIssue,
+  type LedgerColumnMapping,
+  type WorksheetTable,
+} from '@/lib/import';
+import {
+  COSTING_METHOD_LABELS,
+  DEFAULT_COSTING_METHOD,
+  replayLedger,
+  type CostingMethod,
+  type LedgerReplay,
+} from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface LedgerImportDialogProps {
+  /** `replaceHistory` asks for the replayed months to replace the period history. */
+  onApply: (replay: LedgerReplay, fileName: string, replaceHistory: boolean) => void;
+}
+
+const NOT_MAPPED = 'none';
+
+const isWorkbook = (file: File): boolean => /\.xlsx$/i.test(file.name);
+
+const LedgerImportDialog: React.FC<LedgerImportDialogProps> = ({ onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<WorksheetTable[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<LedgerColumnMapping | null>(null);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD);
+  const [replaceHistory, setReplaceHistory] = useState(true);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const rows = useMemo(() => sheets[sheetIndex]?.rows ?? [], [sheets, sheetIndex]);
+  const headerRow = useMemo(() => detectHeaderRow(rows), [rows]);
+  const headers = rows[headerRow] ?? [];
+  const missingColumns = mapping ? LEDGER_COLUMNS.filter((definition) => definition.required && mapping[definition.column] === null) : [];
+
+  const parsed = useMemo(
+    () => (mapping ? parseLedgerRows(rows.slice(headerRow + 1), mapping, headerRow + 2) : null),
+    [rows, headerRow, mapping]
+  );
+  const replay = useMemo(
+    () => (parsed && missingColumns.length === 0 && parsed.entries.length > 0 ? replayLedger(parsed.entries, costingMethod) : null),
+    [parsed, missingColumns.length, costingMethod]
+  );
+  const issues: ImportIssue[] = [
+    ...(parsed?.issues ?? []),
+    ...(replay?.warnings ?? []).map((warning) => ({
+      row: 0,
+      item: `${warning.sku} on ${warning.date}`,
+      severity: 'warning' as const,
+      message: warning.message,
+    })),
+  ];
+
+  const reset = () => {
+    setFileName('');
+    setSheets([]);
+    setSheetIndex(0);
+    setMapping(null);
+    setReadError(null);
+  };
+
+  const selectSheet = (tables: WorksheetTable[], index: number) => {
+    const table = tables[index];
+    const header = table ? detectHeaderRow(table.rows) : 0;
+    const usable = table && table.rows.length > header + 1;
+    setSheetIndex(index);
+    setMapping(usable ? guessLedgerColumns(table.rows[header]) : null);
+    setReadError(usable ? null : 'The sheet needs a header row and at least one ledger line below it.');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    let tables: WorksheetTable[];
+    try {
+      tables = isWorkbook(file)
+        ? await readWorkbook(await file.arrayBuffer())
+        : [{ name: file.name, rows: parseCsv(await file.text()) }];
+    } catch {
+      setSheets([]);
+      setMapping(null);
+      setReadError('This file could not be read. Save it as .xlsx or .csv and try again.');
+      return;
+    }
+    setSheets(tables);
+    selectSheet(tables, 0);
+  };
+
+  const handleApply = () => {
+    if (!replay) return;
+    onApply(replay, fileName, replaceHistory);
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <BookOpen className="h-4 w-4" />
+          Import Stock Ledger
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rebuild COGS from a Stock Ledger</DialogTitle>
+          <DialogDescription>
+            Upload purchase receipts, sales lines and adjustments with a date, SKU, quantity and unit cost. The ledger is replayed under
+            the costing method you choose to work out COGS and each month-end inventory balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="ledgerImportFile" className="text-sm font-medium mb-1 block">
+            CSV or Excel File
+          </Label>
+          <Input
+            id="ledgerImportFile"
+            type="file"
+            accept=".csv,.txt,.xlsx,text/csv"
+            onChange={handleFileChange}
+            className="border-gray-300"
+          />
+          {readError && <p className="mt-2 text-sm text-destructive">{readError}</p>}
+        </div>
+
+        {mapping && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {sheets.length > 1 && (
+                <div>
+                  <Label htmlFor="ledgerSheet" className="text-xs font-medium mb-1 block">
+                    Sheet
+                  </Label>
+                  <Select value={String(sheetIndex)} onValueChange={(value) => selectSheet(sheets, Number(value))}>
+                    <SelectTrigger id="ledgerSheet" className="w-full border-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheets.map((sheet, index) => (
+                        <SelectItem key={sheet.name} value={String(index)}>
+                          {sheet.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {LEDGER_COLUMNS.map((definition) => (
+                <div key={definition.column}>
+                  <Label htmlFor={`ledgerMap-${definition.column}`} className="text-xs font-medium mb-1 block">
+                    {definition.label}{definition.required ? ' *' : ''}
+                  </Label>
+                  <Select
+                    value={mapping[definition.column] === null ? NOT_MAPPED : String(mapping[definition.column])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [definition.column]: value === NOT_MAPPED ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger id={`ledgerMap-${definition.column}`} className="w-full border-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="ledgerCostingMethod" className="text-xs font-medium mb-1 block">
+                  Costing Method
+                </Label>
+                <Select value={costingMethod} onValueChange={(value) => setCostingMethod(value as CostingMethod)}>
+                  <SelectTrigger id="ledgerCostingMethod" className="w-full border-gray-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {COSTING_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {mapping.type === null && missingColumns.length === 0 && (
+              <p className="text-xs text-gray-500">No type column: positive quantities are read as receipts and negative ones as sales.</p>
+            )}
+          </>
+        )}
+
+        {missingColumns.length > 0 && (
+          <p className="text-sm text-destructive">
+            Map {missingColumns.map((definition) => definition.label).join(', ')} to continue.
+          </p>
+        )}
+
+        {replay && (
+          <>
+            <p className="text-sm text-gray-700">
+              {parsed?.entries.length} ledger lines for {replay.skuCount} SKUs over {replay.months.length} months
+              {parsed && parsed.skippedRows > 0 && `, ${parsed.skippedRows} lines skipped`}. COGS under{' '}
+              {COSTING_METHOD_LABELS[replay.method]}: {formatCurrency(replay.costOfGoodsSold)}.
+            </p>
+            <div className="rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Opening</TableHead>
+                    <TableHead className="text-right">COGS</TableHead>
+                    <TableHead className="text-right">of which Write-offs</TableHead>
+                    <TableHead className="text-right">Month-end</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {replay.months.map((month) => (
+                    <TableRow key={month.month}>
+                      <TableCell className="font-medium">{month.label}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.openingInventory)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.costOfGoodsSold)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.writeOffs)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.closingInventory)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="ledgerReplaceHistory"
+                checked={replaceHistory}
+                onCheckedChange={(checked) => setReplaceHistory(checked === true)}
+              />
+              <Label htmlFor="ledgerReplaceHistory" className="text-sm">
+                Replace the period history with these {replay.months.length} months
+              </Label>
+            </div>
+          </>
+        )}
+
+        {issues.length > 0 && (
+          <div className="text-sm">
+            <h4 className="font-semibold text-primary">Ledger Lines Needing Attention</h4>
+            <ImportIssueList issues={issues} limit={12} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleApply} disabled={!replay || replay.months.length === 0} className="cta-button">
+            Use Ledger Results
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LedgerImportDialog;
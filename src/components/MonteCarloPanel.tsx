@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, ReferenceLine } from 'recharts';
+import { Dices, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  INPUT_LABELS,
+  METHOD_DEFINITIONS,
+  runMonteCarlo,
+  triangularAround,
+  validateDistribution,
+  type AnalysisPeriod,
+  type CalculationMethod,
+  type CalculatorValues,
+  type Distribution,
+  type IndustryBenchmark,
+  type MonteCarloResult,
+  type NormalDistribution,
+  type TriangularDistribution,
+  type TurnoverResult,
+} from '@/lib/turnover';
+
+interface MonteCarloPanelProps {
+  values: CalculatorValues;
+  method: CalculationMethod;
+  period: AnalysisPeriod;
+  result: TurnoverResult;
+  benchmark: IndustryBenchmark;
+}
+
+interface DistributionEditorProps {
+  id: string;
+  label: string;
+  distribution: Distribution;
+  onChange: (distribution: Distribution) => void;
+}
+
+const ITERATION_OPTIONS = [1000, 5000, 10000];
+
+interface DistributionField {
+  key: string;
+  label: string;
+  value: number;
+  update: (value: number) => Distribution;
+}
+
+const TRIANGULAR_FIELDS: { key: Exclude<keyof TriangularDistribution, 'type'>; label: string }[] = [
+  { key: 'min', label: 'Minimum' },
+  { key: 'mode', label: 'Most Likely' },
+  { key: 'max', label: 'Maximum' },
+];
+
+const NORMAL_FIELDS: { key: Exclude<keyof NormalDistribution, 'type'>; label: string }[] = [
+  { key: 'mean', label: 'Mean' },
+  { key: 'stdDev', label: 'Std. Deviation' },
+];
+
+const getDistributionFields = (distribution: Distribution): DistributionField[] =>
+  distribution.type === 'triangular'
+    ? TRIANGULAR_FIELDS.map(({ key, label }) => ({
+        key,
+        label,
+        value: distribution[key],
+        update: (value) => ({ ...distribution, [key]: value }),
+      }))
+    : NORMAL_FIELDS.map(({ key, label }) => ({
+        key,
+        label,
+        value: distribution[key],
+        update: (value) => ({ ...distribution, [key]: value }),
+      }));
+
+/** The figures the distributions were seeded from, so edits elsewhere can be noticed. */
+interface SeedBasis {
+  method: CalculationMethod;
+  throughput: number;
+  averageInventory: number;
+}
+
+const convertDistribution = (distribution: Distribution, type: Distribution['type']): Distribution => {
+  if (distribution.type === type) return distribution;
+  if (type === 'normal' && distribution.type === 'triangular') {
+    // A triangular range spans roughly ±2.5σ, so read the spread back from its width.
+    return { type: 'normal', mean: distribution.mode, stdDev: Math.round((distribution.max - distribution.min) / 5) };
+  }
+  if (distribution.type === 'normal') {
+    return {
+      type: 'triangular',
+      min: Math.round(distribution.mean - 2.5 * distribution.stdDev),
+      mode: distribution.mean,
+      max: Math.round(distribution.mean + 2.5 * distribution.stdDev),
+    };
+  }
+  return distribution;
+};
+
+const DistributionEditor: React.FC<DistributionEditorProps> = ({ id, label, distribution, onChange }) => {
+  const fields = getDistributionFields(distribution);
+  const problem = validateDistribution(distribution);
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <span className="text-sm font-semibold text-primary">{label}</span>
+        <Select
+          value={distribution.type}
+          onValueChange={(type) => onChange(convertDistribution(distribution, type as Distribution['type']))}
+        >
+          <SelectTrigger aria-label={`${label} distribution`} className="w-36 border-gray-300">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="triangular">Triangular</SelectItem>
+            <SelectItem value="normal">Normal</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className={`grid gap-3 ${fields.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {fields.map((field) => (
+          <div key={field.key}>
+            <Label htmlFor={`${id}-${field.key}`} className="text-xs font-medium mb-1 block">
+              {field.label}
+            </Label>
+            <Input
+              id={`${id}-${field.key}`}
+              type="number"
+              value={field.value}
+              onChange={(e) => onChange(field.update(parseFloat(e.target.value) || 0))}
+              aria-invalid={problem !== null}
+              className="w-full border-gray-300"
+            />
+          </div>
+        ))}
+      </div>
+      {problem && <p className="mt-2 text-sm text-destructive">{problem}</p>}
+    </div>
+  );
+};
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ values, method, period, result, benchmark }) => {
+  const [throughput, setThroughput] = useState<Distribution>(() => triangularAround(result.throughput));
+  const [averageInventory, setAverageInventory] = useState<Distribution>(() => triangularAround(result.averageInventory));
+  const [iterations, setIterations] = useState<number>(5000);
+  const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+  const [seedBasis, setSeedBasis] = useState<SeedBasis>({
+    method,
+    throughput: result.throughput,
+    averageInventory: result.averageInventory,
+  });
+
+  const definition = METHOD_DEFINITIONS[method];
+  const canRun = validateDistribution(throughput) === null && validateDistribution(averageInventory) === null;
+  const isStale = seedBasis.throughput !== result.throughput || seedBasis.averageInventory !== result.averageInventory;
+
+  const resetToCurrent = () => {
+    setThroughput(triangularAround(result.throughput));
+    setAverageInventory(triangularAround(result.averageInventory));
+    setSeedBasis({ method, throughput: result.throughput, averageInventory: result.averageInventory });
+    setSimulation(null);
+  };
+
+  // Ranges from another method are in other units (rupees at cost, at retail, or units),
+  // so a method change, including one from a restored session, starts again from its figures.
+  if (seedBasis.method !== method) {
+    resetToCurrent();
+  }
+
+  const runSimulation = () => {
+    setSimulation(
+      runMonteCarlo(
+        values,
+        method,
+        period,
+        { throughput, averageInventory, iterations, seed: Date.now() },
+        benchmark.value
+      )
+    );
+  };
+
+  const histogramData = simulation?.histogram.map((bin) => ({
+    label: ((bin.start + bin.end) / 2).toFixed(1),
+    range: `${bin.start.toFixed(2)}–${bin.end.toFixed(2)}`,
+    count: bin.count,
+  })) ?? [];
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <h3 className="text-xl font-bold text-primary mb-1">Monte Carlo Simulation</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Planning figures are estimates. Describe the range each one could fall in and see the spread of turnover outcomes.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+        <DistributionEditor
+          id="mcThroughput"
+          label={`${INPUT_LABELS[definition.throughput]}${definition.basis === 'units' ? '' : ' (₹)'}`}
+          distribution={throughput}
+          onChange={setThroughput}
+        />
+        <DistributionEditor
+          id="mcInventory"
+          label={`${definition.inventoryLabel}${definition.basis === 'units' ? '' : ' (₹)'}`}
+          distribution={averageInventory}
+          onChange={setAverageInventory}
+        />
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-6">
+        <div className="sm:w-48">
+          <Label htmlFor="mcIterations" className="text-sm font-medium mb-1 block">
+            Simulations
+          </Label>
+          <Select value={String(iterations)} onValueChange={(value) => setIterations(Number(value))}>
+            <SelectTrigger id="mcIterations" className="w-full border-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITERATION_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option.toLocaleString('en-IN')} runs
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={runSimulation} disabled={!canRun} className="cta-button flex items-center gap-2">
+          <Dices className="h-4 w-4" />
+          Run Simulation
+        </Button>
+        <Button variant="outline" onClick={resetToCurrent} className="flex items-center gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Use Current Figures
+        </Button>
+      </div>
+      {isStale && (
+        <p className="-mt-4 mb-6 text-sm text-amber-700">
+          The calculator's figures have changed since these ranges were set. Use Current Figures to centre them on the new values.
+        </p>
+      )}
+
+      {simulation && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+              <h4 className="text-sm font-medium text-gray-500 mb-1">Turnover Ratio (P10 / P50 / P90)</h4>
+              <span className="text-2xl font-bold text-primary">
+                {simulation.ratio.p10.toFixed(2)} / {simulation.ratio.p50.toFixed(2)} / {simulation.ratio.p90.toFixed(2)}
+              </span>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+              <h4 className="text-sm font-medium text-gray-500 mb-1">DSI in days (P10 / P50 / P90)</h4>
+              <span className="text-2xl font-bold text-primary">
+                {simulation.unsoldRuns < simulation.iterations
+                  ? `${simulation.daysSalesOfInventory.p10.toFixed(0)} / ${simulation.daysSalesOfInventory.p50.toFixed(0)} / ${simulation.daysSalesOfInventory.p90.toFixed(0)}`
+                  : '—'}
+              </span>
+              {simulation.unsoldRuns > 0 && (
+                <p className="mt-2 text-sm text-gray-600">
+                  {simulation.unsoldRuns.toLocaleString('en-IN')} runs with no sales or no inventory are left out.
+                </p>
+              )}
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+              <h4 className="text-sm font-medium text-gray-500 mb-1">Chance of Beating {benchmark.name}</h4>
+              <span className="text-2xl font-bold text-primary">{(simulation.probabilityAboveBenchmark * 100).toFixed(1)}%</span>
+              <p className="mt-2 text-sm text-gray-600">Benchmark turnover {benchmark.value.toFixed(1)}</p>
+            </div>
+          </div>
+
+          <h4 className="text-lg font-semibold text-primary mb-4">
+            Distribution of Turnover Ratio ({simulation.iterations.toLocaleString('en-IN')} runs)
+          </h4>
+          <div className="h-[300px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogramData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <RechartTooltip
+                  formatter={(value: number) => [`${value} runs`, 'Frequency']}
+                  labelFormatter={(_, payload) => `Turnover ${payload?.[0]?.payload?.range ?? ''}`}
+                />
+                <Bar dataKey="count" name="Runs" fill="#245e4f" radius={[4, 4, 0, 0]} />
+                <ReferenceLine
+                  x={histogramData.find((bin, index) => {
+                    const source = simulation.histogram[index];
+                    return benchmark.value >= source.start && benchmark.value < source.end;
+                  })?.label}
+                  stroke="#e9c46a"
+                  strokeDasharray="3 3"
+                  label={benchmark.name}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardPaste } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import ImportIssueList from './ImportIssueList';
+import {
+  applyPastedPeriods,
+  applyPastedValues,
+  readPastedData,
+  type PastedPeriodChange,
+  type PastePreview,
+} from '@/lib/import';
+import type { CalculatorValues, NumericInputKey, PeriodHistory } from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface PasteDataDialogProps {
+  values: CalculatorValues;
+  history: PeriodHistory;
+  onApplyValues: (values: CalculatorValues) => void;
+  onApplyHistory: (history: PeriodHistory) => void;
+}
+
+const PLACEHOLDER = 'COGS\t10,00,000\nOpening Stock\t2,50,000\nClosing Stock\t1,50,000';
+
+const CHANGE_LABELS: Record<PastedPeriodChange, string> = {
+  added: 'New',
+  updated: 'Updated',
+  unchanged: 'No change',
+};
+
+const CHANGE_CLASSES: Record<PastedPeriodChange, string> = {
+  added: 'text-emerald-700',
+  updated: 'text-amber-700',
+  unchanged: 'text-gray-400',
+};
+
+// Rates and day counts are entered as plain numbers; everything else is a rupee or unit amount.
+const PLAIN_NUMBER_INPUTS: NumericInputKey[] = [
+  'unitsSold',
+  'averageUnitsOnHand',
+  'costOfCapitalRate',
+  'storageCostRate',
+  'insuranceRate',
+  'shrinkageRate',
+  'obsolescenceRate',
+  'dsiReductionDays',
+];
+
+const formatInput = (key: NumericInputKey, value: number): string =>
+  PLAIN_NUMBER_INPUTS.includes(key) ? value.toLocaleString('en-IN') : formatCurrency(value);
+
+const countChanges = (preview: PastePreview): number =>
+  preview.target === 'values'
+    ? preview.values.filter((value) => value.current !== value.next).length
+    : preview.periods.filter((period) => period.change !== 'unchanged').length;
+
+const PasteDataDialog: React.FC<PasteDataDialogProps> = ({ values, history, onApplyValues, onApplyHistory }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+
+  const { preview, error } = useMemo(() => {
+    if (text.trim() === '') return { preview: null, error: null };
+    try {
+      return { preview: readPastedData(text, values, history), error: null };
+    } catch (readError) {
+      return { preview: null, error: readError instanceof Error ? readError.message : 'The pasted cells could not be read' };
+    }
+  }, [text, values, history]);
+
+  const changeCount = preview ? countChanges(preview) : 0;
+
+  const handleApply = () => {
+    if (!preview) return;
+    if (preview.target === 'values') {
+      onApplyValues(applyPastedValues(values, preview.values));
+    } else {
+      onApplyHistory(applyPastedPeriods(history, preview.periods));
+    }
+    setOpen(false);
+    setText('');
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setText('');
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <ClipboardPaste className="h-4 w-4" />
+          Paste from Spreadsheet
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Paste from a Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Copy cells in Excel or Google Sheets and paste them below. A column of labelled values fills the calculator inputs; rows of
+            periods with COGS, beginning and ending inventory fill the period history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="pasteData" className="text-sm font-medium mb-1 block">
+            Pasted Cells
+          </Label>
+          <Textarea
+            id="pasteData"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            rows={6}
+            className="font-mono text-xs border-gray-300"
+          />
+          {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+        </div>
+
+        {preview && (
+          <>
+            <p className="text-sm text-gray-700">
+              {preview.target === 'values'
+                ? `Updates ${changeCount} of ${preview.values.length} calculator inputs.`
+                : `Adds or updates ${changeCount} of ${preview.periods.length} periods in the ${history.frequency}ly history.`}
+              {!preview.hasHeaders && ' No heading row was found, so columns are read as COGS, beginning and ending inventory.'}
+            </p>
+            <div className="rounded-lg border border-gray-200">
+              {preview.target === 'values' ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Input</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">Pasted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.values.map((value) => (
+                      <TableRow key={value.key} className={cn(value.current === value.next && "text-gray-400")}>
+                        <TableCell className="font-medium">{value.label}</TableCell>
+                        <TableCell className="text-right">{formatInput(value.key, value.current)}</TableCell>
+                        <TableCell className={cn("text-right", value.current !== value.next && "font-semibold text-primary")}>
+                          {formatInput(value.key, value.next)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead className="text-right">COGS</TableHead>
+                      <TableHead className="text-right">Beginning Inv.</TableHead>
+                      <TableHead className="text-right">Ending Inv.</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.periods.map((period) => (
+                      <TableRow key={period.record.id}>
+                        <TableCell className="font-medium">{period.record.label}</TableCell>
+                        <TableCell className={CHANGE_CLASSES[period.change]}>{CHANGE_LABELS[period.change]}</TableCell>
+                        {(['costOfGoodsSold', 'beginningInventory', 'endingInventory'] as const).map((key) => {
+                          const previous = period.previous?.[key];
+                          const changed = previous !== undefined && previous !== period.record[key];
+                          return (
+                            <TableCell key={key} className="text-right">
+                              {changed && <span className="block text-xs text-gray-400 line-through">{formatCurrency(previous)}</span>}
+                              <span className={cn(changed && "font-semibold text-primary")}>{formatCurrency(period.record[key])}</span>
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+            {preview.issues.length > 0 && (
+              <div className="text-sm">
+                <h4 className="font-semibold text-primary">Cells Left Out</h4>
+                <ImportIssueList issues={preview.issues} />
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleApply} disabled={changeCount === 0} className="cta-button">
+            Apply {changeCount > 0 ? `${changeCount} Change${changeCount === 1 ? '' : 's'}` : 'Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PasteDataDialog;
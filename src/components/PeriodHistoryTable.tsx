@@ -0,0 +1,209 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, Legend, ReferenceLine } from 'recharts';
+import { ArrowUpRight, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  analysePeriodHistory,
+  createNextPeriodRecord,
+  LOW_TURNOVER_THRESHOLD,
+  type HistoryFrequency,
+  type PeriodHistory,
+  type PeriodRecord,
+} from '@/lib/turnover';
+
+interface PeriodHistoryTableProps {
+  history: PeriodHistory;
+  onHistoryChange: (history: PeriodHistory) => void;
+  /** Copies one row into the single-period inputs above. */
+  onLoadRecord: (record: PeriodRecord, frequency: HistoryFrequency) => void;
+}
+
+type NumericRecordKey = 'costOfGoodsSold' | 'beginningInventory' | 'endingInventory';
+
+const NUMERIC_COLUMNS: { key: NumericRecordKey; label: string }[] = [
+  { key: 'costOfGoodsSold', label: 'COGS (₹)' },
+  { key: 'beginningInventory', label: 'Beginning Inv. (₹)' },
+  { key: 'endingInventory', label: 'Ending Inv. (₹)' },
+];
+
+const formatChange = (change: number | null): string =>
+  change === null ? '—' : `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+
+const changeClass = (change: number | null): string =>
+  change === null ? 'text-gray-400' : change >= 0 ? 'text-emerald-700' : 'text-red-700';
+
+const PeriodHistoryTable: React.FC<PeriodHistoryTableProps> = ({ history, onHistoryChange, onLoadRecord }) => {
+  const rows = useMemo(() => analysePeriodHistory(history), [history]);
+  const periodChangeLabel = history.frequency === 'month' ? 'MoM' : 'QoQ';
+
+  const updateRecord = (id: string, changes: Partial<PeriodRecord>) => {
+    onHistoryChange({
+      ...history,
+      records: history.records.map((record) => (record.id === id ? { ...record, ...changes } : record)),
+    });
+  };
+
+  const addRecord = () => {
+    onHistoryChange({ ...history, records: [...history.records, createNextPeriodRecord(history)] });
+  };
+
+  const removeRecord = (id: string) => {
+    onHistoryChange({ ...history, records: history.records.filter((record) => record.id !== id) });
+  };
+
+  const chartData = rows.map((row) => ({
+    label: row.record.label,
+    turnover: row.turnover.ratio,
+    dsi: row.turnover.daysSalesOfInventory,
+  }));
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-primary mb-1">Period History</h3>
+          <p className="text-sm text-gray-500">
+            Keep one row per period instead of re-typing the inputs each time. Turnover is annualised so periods compare with the figures above.
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="w-36">
+            <Label htmlFor="historyFrequency" className="text-sm font-medium mb-1 block">
+              Each Row Is a
+            </Label>
+            <Select
+              value={history.frequency}
+              onValueChange={(value) => onHistoryChange({ ...history, frequency: value as HistoryFrequency })}
+            >
+              <SelectTrigger id="historyFrequency" className="w-full border-gray-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Month</SelectItem>
+                <SelectItem value="quarter">Quarter</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={addRecord} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Period
+          </Button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600">No periods yet. Add a period to start building your history.</p>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg border border-gray-200">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[120px]">Period</TableHead>
+                  {NUMERIC_COLUMNS.map((column) => (
+                    <TableHead key={column.key} className="min-w-[130px]">{column.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Turnover</TableHead>
+                  <TableHead className="text-right">DSI (days)</TableHead>
+                  <TableHead className="text-right">{periodChangeLabel}</TableHead>
+                  <TableHead className="text-right">YoY</TableHead>
+                  <TableHead className="w-[96px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.record.id}>
+                    <TableCell className="p-2">
+                      <Input
+                        aria-label="Period label"
+                        value={row.record.label}
+                        onChange={(e) => updateRecord(row.record.id, { label: e.target.value })}
+                        className="h-8 border-gray-300"
+                      />
+                    </TableCell>
+                    {NUMERIC_COLUMNS.map((column) => (
+                      <TableCell key={column.key} className="p-2">
+                        <Input
+                          type="number"
+                          aria-label={`${row.record.label} ${column.label}`}
+                          value={row.record[column.key]}
+                          onChange={(e) => updateRecord(row.record.id, { [column.key]: parseFloat(e.target.value) || 0 })}
+                          className="h-8 border-gray-300"
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell
+                      className={cn(
+                        "text-right font-medium",
+                        row.turnover.ratio < LOW_TURNOVER_THRESHOLD && "text-destructive"
+                      )}
+                    >
+                      {row.turnover.ratio.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">{row.turnover.daysSalesOfInventory.toFixed(0)}</TableCell>
+                    <TableCell className={cn("text-right", changeClass(row.periodChange))}>
+                      {formatChange(row.periodChange)}
+                    </TableCell>
+                    <TableCell className={cn("text-right", changeClass(row.yearChange))}>
+                      {formatChange(row.yearChange)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Use ${row.record.label} in the calculator`}
+                          onClick={() => onLoadRecord(row.record, history.frequency)}
+                        >
+                          <ArrowUpRight className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Delete ${row.record.label}`}
+                          onClick={() => removeRecord(row.record.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {rows.length > 1 && (
+            <div className="mt-6">
+              <h4 className="text-lg font-semibold text-primary mb-4">Turnover Trend</h4>
+              <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis yAxisId="left" />
+                    <YAxis yAxisId="right" orientation="right" />
+                    <RechartTooltip
+                      formatter={(value: number, name: string) => [Number(value).toFixed(name === 'DSI (days)' ? 0 : 2), name]}
+                    />
+                    <Legend />
+                    <ReferenceLine yAxisId="left" y={LOW_TURNOVER_THRESHOLD} stroke="#e9c46a" strokeDasharray="3 3" />
+                    <Line yAxisId="left" dataKey="turnover" name="Turnover Ratio" stroke="#245e4f" strokeWidth={2} />
+                    <Line yAxisId="right" dataKey="dsi" name="DSI (days)" stroke="#7ac9a7" strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeriodHistoryTable;
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, ShoppingCart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import ImportIssueList from './ImportIssueList';
+import {
+  combinePlatformReports,
+  parsePlatformReport,
+  PLATFORM_ADAPTERS,
+  type InventoryLine,
+  type PlatformReport,
+  type PlatformReportKind,
+  type SkuImport,
+} from '@/lib/import';
+import { formatCurrency } from '@/lib/format';
+
+interface PlatformImportDialogProps {
+  onImport: (skuImport: SkuImport) => void;
+}
+
+type PlatformSlot = 'opening' | 'closing' | 'sales' | 'costs';
+
+interface SlotDefinition {
+  slot: PlatformSlot;
+  label: string;
+  hint: string;
+  kind: PlatformReportKind;
+  required: boolean;
+}
+
+const SLOTS: SlotDefinition[] = [
+  { slot: 'opening', label: 'Opening Inventory', hint: 'Inventory or product export from the start of the period', kind: 'inventory', required: false },
+  { slot: 'closing', label: 'Closing Inventory', hint: 'Inventory or product export from the end of the period', kind: 'inventory', required: true },
+  { slot: 'sales', label: 'Sales Report', hint: 'Sales by variant SKU (Shopify) or Products report (WooCommerce)', kind: 'sales', required: true },
+  { slot: 'costs', label: 'Unit Costs', hint: 'Product export with cost per item, if the files above have no cost', kind: 'inventory', required: false },
+];
+
+interface LoadedReport {
+  fileName: string;
+  report: PlatformReport;
+}
+
+const PlatformImportDialog: React.FC<PlatformImportDialogProps> = ({ onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [reports, setReports] = useState<Partial<Record<PlatformSlot, LoadedReport>>>({});
+  const [errors, setErrors] = useState<Partial<Record<PlatformSlot, string>>>({});
+
+  const inventoryLines = (slot: PlatformSlot): InventoryLine[] | undefined => {
+    const loaded = reports[slot]?.report;
+    return loaded?.kind === 'inventory' ? loaded.lines : undefined;
+  };
+
+  const combined = useMemo(() => {
+    const closing = reports.closing?.report;
+    const sales = reports.sales?.report;
+    if (closing?.kind !== 'inventory' || sales?.kind !== 'sales') return null;
+    const opening = reports.opening?.report;
+    const costs = reports.costs?.report;
+    return combinePlatformReports({
+      opening: opening?.kind === 'inventory' ? opening.lines : undefined,
+      closing: closing.lines,
+      sales: sales.lines,
+      costs: costs?.kind === 'inventory' ? costs.lines : undefined,
+    });
+  }, [reports]);
+
+  const costsWithoutPrices = inventoryLines('costs')?.every((line) => line.unitCost === null) ?? false;
+
+  const allIssues = [
+    ...SLOTS.flatMap((definition) =>
+      (reports[definition.slot]?.report.issues ?? []).map((issue) => ({ ...issue, item: `${definition.label}: ${issue.item ?? `row ${issue.row}`}` }))
+    ),
+    ...(combined?.issues ?? []),
+  ];
+
+  const reset = () => {
+    setReports({});
+    setErrors({});
+  };
+
+  const handleFileChange = async (definition: SlotDefinition, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    let loaded: LoadedReport | undefined;
+    let error: string | undefined;
+    try {
+      const report = parsePlatformReport(await file.text());
+      if (report.kind === definition.kind) {
+        loaded = { fileName: file.name, report };
+      } else {
+        error = `${file.name} is a ${report.kind} report, but ${definition.label} needs an ${definition.kind} export.`;
+      }
+    } catch (readError) {
+      error = `${readError instanceof Error ? readError.message : 'The file could not be read'}.`;
+    }
+    setReports((current) => ({ ...current, [definition.slot]: loaded }));
+    setErrors((current) => ({ ...current, [definition.slot]: error }));
+  };
+
+  const handleImport = () => {
+    if (!combined) return;
+    const fileName = SLOTS.map((definition) => reports[definition.slot]?.fileName).filter(Boolean).join(', ');
+    onImport({ fileName, ...combined });
+    setOpen(false);
+    reset();
+  };
+
+  const totals = combined?.records.reduce(
+    (sum, record) => ({
+      costOfGoodsSold: sum.costOfGoodsSold + record.costOfGoodsSold,
+      opening: sum.opening + record.openingStockValue,
+      closing: sum.closing + record.closingStockValue,
+    }),
+    { costOfGoodsSold: 0, opening: 0, closing: 0 }
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <ShoppingCart className="h-4 w-4" />
+          Import from Shopify / WooCommerce
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Store Exports</DialogTitle>
+          <DialogDescription>
+            Upload your store's CSV exports. The layout of each file is recognised automatically and stock is valued at each SKU's unit cost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {SLOTS.map((definition) => {
+            const loaded = reports[definition.slot];
+            const adapter = loaded && PLATFORM_ADAPTERS.find((item) => item.id === loaded.report.adapter);
+            return (
+              <div key={definition.slot}>
+                <Label htmlFor={`platform-${definition.slot}`} className="text-sm font-medium mb-1 block">
+                  {definition.label}{definition.required ? ' *' : ' (optional)'}
+                </Label>
+                <Input
+                  id={`platform-${definition.slot}`}
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => handleFileChange(definition, e)}
+                  className="border-gray-300"
+                />
+                {loaded && adapter ? (
+                  <p className="mt-1 flex items-center gap-1 text-xs text-emerald-700">
+                    <CheckCircle2 className="h-3 w-3" />
+                    {adapter.label}, {loaded.report.lines.length} rows
+                  </p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">{definition.hint}</p>
+                )}
+                {errors[definition.slot] && <p className="mt-1 text-xs text-destructive">{errors[definition.slot]}</p>}
+                {definition.slot === 'costs' && costsWithoutPrices && (
+                  <p className="mt-1 text-xs text-amber-700">This export has no cost column.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {combined && totals && (
+          <div className="text-sm">
+            <p className="text-gray-700">
+              {combined.records.length} SKUs ready: COGS {formatCurrency(totals.costOfGoodsSold)}, opening stock{' '}
+              {formatCurrency(totals.opening)}, closing stock {formatCurrency(totals.closing)}.
+            </p>
+            <ImportIssueList issues={allIssues} limit={12} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!combined || combined.records.length === 0} className="cta-button">
+            Import {combined ? `${combined.records.length} SKUs` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlatformImportDialog;
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, Legend } from 'recharts';
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CalculatorField from './CalculatorField';
+import {
+  BASELINE_SCENARIO_ID,
+  CARRYING_COST_COMPONENTS,
+  createScenario,
+  getInputKeys,
+  INPUT_LABELS,
+  type CalculationMethod,
+  type CalculatorValues,
+  type Scenario,
+  type ScenarioOutcome,
+} from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface ScenarioComparisonPanelProps {
+  values: CalculatorValues;
+  method: CalculationMethod;
+  scenarios: Scenario[];
+  /** Baseline first, then one outcome per scenario in the same order. */
+  outcomes: ScenarioOutcome[];
+  onScenariosChange: (scenarios: Scenario[]) => void;
+}
+
+const formatDelta = (value: number, baseline: number): string => {
+  if (baseline === 0) return '—';
+  const change = ((value - baseline) / baseline) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
+
+const ScenarioComparisonPanel: React.FC<ScenarioComparisonPanelProps> = ({
+  values,
+  method,
+  scenarios,
+  outcomes,
+  onScenariosChange,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = scenarios.find((scenario) => scenario.id === editingId);
+  const baseline = outcomes[0];
+
+  const addScenario = (source: CalculatorValues) => {
+    const scenario = createScenario(`What-if ${scenarios.length + 1}`, source);
+    onScenariosChange([...scenarios, scenario]);
+    setEditingId(scenario.id);
+  };
+
+  const updateScenario = (id: string, changes: Partial<Scenario>) => {
+    onScenariosChange(scenarios.map((scenario) => (scenario.id === id ? { ...scenario, ...changes } : scenario)));
+  };
+
+  const removeScenario = (id: string) => {
+    onScenariosChange(scenarios.filter((scenario) => scenario.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const handleEditorInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!editing) return;
+    const { name, value } = e.target;
+    updateScenario(editing.id, { values: { ...editing.values, [name]: parseFloat(value) || 0 } });
+  };
+
+  const chartData = outcomes.map((outcome) => ({
+    name: outcome.name,
+    turnover: outcome.turnover.ratio,
+    dsi: outcome.turnover.daysSalesOfInventory,
+    carryingCost: outcome.carryingCost.annualCarryingCost,
+  }));
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-primary mb-1">What-If Scenarios</h3>
+          <p className="text-sm text-gray-500">
+            Clone your current inputs into named scenarios, change them independently and compare the outcomes.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => addScenario(values)} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add What-If
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scenario</TableHead>
+              <TableHead className="text-right">Turnover</TableHead>
+              <TableHead className="text-right">DSI (days)</TableHead>
+              <TableHead className="text-right">Carrying Cost</TableHead>
+              <TableHead className="text-right">Turnover vs Baseline</TableHead>
+              <TableHead className="w-[120px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outcomes.map((outcome) => {
+              const isBaseline = outcome.id === BASELINE_SCENARIO_ID;
+              const scenario = scenarios.find((item) => item.id === outcome.id);
+              return (
+                <TableRow key={outcome.id} data-state={outcome.id === editingId ? 'selected' : undefined}>
+                  <TableCell className="font-medium">{outcome.name}</TableCell>
+                  <TableCell className="text-right">{outcome.turnover.ratio.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{outcome.turnover.daysSalesOfInventory.toFixed(0)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(outcome.carryingCost.annualCarryingCost)}</TableCell>
+                  <TableCell className="text-right">
+                    {isBaseline ? '—' : formatDelta(outcome.turnover.ratio, baseline.turnover.ratio)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Duplicate ${outcome.name}`}
+                        onClick={() => addScenario(scenario ? scenario.values : values)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      {!isBaseline && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Edit ${outcome.name}`}
+                            onClick={() => setEditingId(outcome.id === editingId ? null : outcome.id)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Delete ${outcome.name}`}
+                            onClick={() => removeScenario(outcome.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {editing && (
+        <div className="mt-4 bg-white p-4 rounded-lg border border-gray-200">
+          <div className="mb-4 md:w-1/2">
+            <Label htmlFor="scenarioName" className="text-sm font-medium mb-1 block">
+              Scenario Name
+            </Label>
+            <Input
+              id="scenarioName"
+              value={editing.name}
+              onChange={(e) => updateScenario(editing.id, { name: e.target.value })}
+              className="w-full border-gray-300"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {[...getInputKeys(editing.values, method), ...CARRYING_COST_COMPONENTS].map((key) => (
+              <CalculatorField
+                key={key}
+                name={key}
+                id={`scenario-${key}`}
+                label={INPUT_LABELS[key]}
+                tooltip={`${INPUT_LABELS[key]} in this scenario`}
+                value={editing.values[key]}
+                onChange={handleEditorInputChange}
+                suffix={CARRYING_COST_COMPONENTS.includes(key) ? '%' : method === 'units' ? 'units' : '₹'}
+              />
+            ))}
+          </div>
+          {editing.values.inventorySnapshots.length > 0 && method === 'cogs' && (
+            <p className="mt-3 text-xs text-gray-500">
+              This scenario keeps the {editing.values.inventorySnapshots.length} periodic balances it was cloned with.
+            </p>
+          )}
+        </div>
+      )}
+
+      {outcomes.length > 1 && (
+        <div className="mt-6">
+          <h4 className="text-lg font-semibold text-primary mb-4">Scenario Comparison</h4>
+          <div className="h-[320px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis yAxisId="left" />
+                <YAxis
+                  yAxisId="right"
+                  orientation="right"
+                  tickFormatter={(value: number) => `₹${(value / 1000).toFixed(0)}k`}
+                />
+                <RechartTooltip
+                  formatter={(value: number, name: string) => {
+                    if (name === 'Carrying Cost') return [formatCurrency(value), name];
+                    return [Number(value).toFixed(name === 'DSI (days)' ? 0 : 2), name];
+                  }}
+                />
+                <Legend />
+                <Bar yAxisId="left" dataKey="turnover" name="Turnover Ratio" fill="#245e4f" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="left" dataKey="dsi" name="DSI (days)" fill="#7ac9a7" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="right" dataKey="carryingCost" name="Carrying Cost" fill="#e9c46a" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioComparisonPanel;
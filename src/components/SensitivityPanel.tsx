@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartTooltip, Legend, ReferenceLine } from 'recharts';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  buildTwoWayTable,
+  runSensitivity,
+  type AnalysisPeriod,
+  type CalculationMethod,
+  type CalculatorValues,
+  type InterpretationBand,
+} from '@/lib/turnover';
+import { formatMeasure } from '@/lib/format';
+
+interface SensitivityPanelProps {
+  values: CalculatorValues;
+  method: CalculationMethod;
+  period: AnalysisPeriod;
+}
+
+type SensitivityMetric = 'ratio' | 'dsi';
+
+const PERTURBATIONS = [0.1, 0.2];
+
+const GRID_FACTORS = [0.8, 0.9, 1, 1.1, 1.2];
+
+// Same bands as the "Your Results" turnover text: low, average and high turnover.
+const BAND_CLASSES: Record<InterpretationBand, string> = {
+  low: 'bg-red-100 text-red-800',
+  average: 'bg-amber-100 text-amber-800',
+  high: 'bg-emerald-100 text-emerald-800',
+};
+
+const formatFactor = (factor: number): string => {
+  const change = Math.round((factor - 1) * 100);
+  return change === 0 ? 'Current' : `${change > 0 ? '+' : ''}${change}%`;
+};
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ values, method, period }) => {
+  const [perturbation, setPerturbation] = useState<number>(PERTURBATIONS[0]);
+  const [metric, setMetric] = useState<SensitivityMetric>('ratio');
+
+  const analysis = useMemo(
+    () => runSensitivity(values, method, period, perturbation),
+    [values, method, period, perturbation]
+  );
+  const grid = useMemo(() => buildTwoWayTable(values, method, period, GRID_FACTORS), [values, method, period]);
+
+  const baseValue = metric === 'ratio' ? analysis.base.ratio : analysis.base.daysSalesOfInventory;
+  const tornadoData = [...analysis.bars]
+    .sort((a, b) => (metric === 'ratio' ? b.ratioSwing - a.ratioSwing : b.dsiSwing - a.dsiSwing))
+    .map((bar) => ({
+      label: bar.label,
+      low: (metric === 'ratio' ? bar.low.ratio : bar.low.daysSalesOfInventory) - baseValue,
+      high: (metric === 'ratio' ? bar.high.ratio : bar.high.daysSalesOfInventory) - baseValue,
+    }));
+  const percentLabel = `${Math.round(perturbation * 100)}%`;
+  const metricLabel = metric === 'ratio' ? 'Turnover Ratio' : 'DSI (days)';
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <h3 className="text-xl font-bold text-primary mb-1">Sensitivity Analysis</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Each input is moved up and down on its own to show which one moves your results the most.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <Label htmlFor="sensitivityPerturbation" className="text-sm font-medium mb-1 block">
+            Change Each Input By
+          </Label>
+          <Select value={String(perturbation)} onValueChange={(value) => setPerturbation(Number(value))}>
+            <SelectTrigger id="sensitivityPerturbation" className="w-full border-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERTURBATIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  ±{Math.round(option * 100)}%
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="sensitivityMetric" className="text-sm font-medium mb-1 block">
+            Show Effect On
+          </Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as SensitivityMetric)}>
+            <SelectTrigger id="sensitivityMetric" className="w-full border-gray-300">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ratio">Turnover ratio</SelectItem>
+              <SelectItem value="dsi">Days Sales of Inventory</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <h4 className="text-lg font-semibold text-primary mb-4">
+        {metricLabel} Swing (base {metric === 'ratio' ? baseValue.toFixed(2) : baseValue.toFixed(0)})
+      </h4>
+      <div className="w-full" style={{ height: Math.max(tornadoData.length * 48 + 80, 200) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" tickFormatter={(value: number) => `${value > 0 ? '+' : ''}${value.toFixed(metric === 'ratio' ? 1 : 0)}`} />
+            <YAxis type="category" dataKey="label" width={160} />
+            <RechartTooltip
+              formatter={(value: number, name: string) => [
+                `${value > 0 ? '+' : ''}${value.toFixed(metric === 'ratio' ? 2 : 0)} (${(baseValue + value).toFixed(metric === 'ratio' ? 2 : 0)})`,
+                name,
+              ]}
+            />
+            <Legend />
+            <ReferenceLine x={0} stroke="#333333" />
+            <Bar dataKey="low" name={`Input −${percentLabel}`} stackId="swing" fill="#7ac9a7" />
+            <Bar dataKey="high" name={`Input +${percentLabel}`} stackId="swing" fill="#245e4f" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <h4 className="text-lg font-semibold text-primary mt-6 mb-2">Two-Way Table: Turnover Ratio</h4>
+      <p className="text-sm text-gray-500 mb-4">
+        Rows change {grid.throughputLabel.toLowerCase()} and columns change {grid.inventoryLabel.toLowerCase()}. Colours follow the low, average and high turnover bands.
+      </p>
+      <div className="bg-white rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{grid.throughputLabel} ↓ / {grid.inventoryLabel} →</TableHead>
+              {grid.inventoryFactors.map((factor) => (
+                <TableHead key={factor} className="text-center">
+                  <div>{formatFactor(factor)}</div>
+                  <div className="text-xs font-normal">{formatMeasure(grid.baseAverageInventory * factor, analysis.base.basis)}</div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {grid.cells.map((row, rowIndex) => {
+              const throughputFactor = grid.throughputFactors[rowIndex];
+              return (
+                <TableRow key={throughputFactor}>
+                  <TableCell className="font-medium">
+                    <div>{formatFactor(throughputFactor)}</div>
+                    <div className="text-xs text-gray-500">{formatMeasure(grid.baseThroughput * throughputFactor, analysis.base.basis)}</div>
+                  </TableCell>
+                  {row.map((cell, columnIndex) => (
+                    <TableCell
+                      key={grid.inventoryFactors[columnIndex]}
+                      className={cn(
+                        "text-center font-medium",
+                        BAND_CLASSES[cell.band],
+                        throughputFactor === 1 && grid.inventoryFactors[columnIndex] === 1 && "ring-2 ring-inset ring-primary"
+                      )}
+                    >
+                      <div>{cell.ratio.toFixed(2)}</div>
+                      <div className="text-xs font-normal">{cell.daysSalesOfInventory.toFixed(0)} days</div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { calculateSkuTurnover, getRecordCategory, summariseByCategory, type SkuImport } from '@/lib/import';
+import { getTurnoverBand, type AnalysisPeriod, type InterpretationBand } from '@/lib/turnover';
+import { formatCurrency } from '@/lib/format';
+
+interface SkuDrillDownPanelProps {
+  skuImport: SkuImport;
+  period: AnalysisPeriod;
+  onClear: () => void;
+}
+
+type SkuSort = 'slowest' | 'fastest' | 'cogs';
+
+const ALL_CATEGORIES = 'all';
+const PAGE_SIZE = 25;
+
+const BAND_TEXT: Record<InterpretationBand, string> = {
+  low: 'text-red-700',
+  average: 'text-amber-700',
+  high: 'text-emerald-700',
+};
+
+const SkuDrillDownPanel: React.FC<SkuDrillDownPanelProps> = ({ skuImport, period, onClear }) => {
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES);
+  const [sort, setSort] = useState<SkuSort>('slowest');
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+
+  const categories = useMemo(() => summariseByCategory(skuImport.records, period), [skuImport, period]);
+  const skus = useMemo(() => calculateSkuTurnover(skuImport.records, period), [skuImport, period]);
+
+  const filtered = skus
+    .filter((item) => category === ALL_CATEGORIES || getRecordCategory(item.record) === category)
+    .sort((a, b) => {
+      if (sort === 'cogs') return b.record.costOfGoodsSold - a.record.costOfGoodsSold;
+      return sort === 'slowest' ? a.turnover.ratio - b.turnover.ratio : b.turnover.ratio - a.turnover.ratio;
+    });
+
+  return (
+    <div className="mt-8 p-6 bg-cream rounded-lg border border-gray-200">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-primary mb-1">SKU Drill-Down</h3>
+          <p className="text-sm text-gray-500">
+            {skuImport.records.length} items imported from {skuImport.fileName}. Turnover uses each item's COGS and opening/closing stock value.
+            {skuImport.quality && skuImport.quality.includedRecords < skuImport.quality.checkedRecords &&
+              ` ${skuImport.quality.checkedRecords - skuImport.quality.includedRecords} items were left out after the data-quality check.`}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" aria-label="Clear imported SKUs" onClick={onClear}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <h4 className="text-lg font-semibold text-primary mb-2">By Category</h4>
+      <div className="bg-white rounded-lg border border-gray-200 mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">SKUs</TableHead>
+              <TableHead className="text-right">COGS</TableHead>
+              <TableHead className="text-right">Turnover</TableHead>
+              <TableHead className="text-right">DSI (days)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map((item) => (
+              <TableRow key={item.category}>
+                <TableCell className="font-medium">{item.category}</TableCell>
+                <TableCell className="text-right">{item.skuCount}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costOfGoodsSold)}</TableCell>
+                <TableCell className={cn("text-right font-medium", BAND_TEXT[getTurnoverBand(item.turnover.ratio)])}>
+                  {item.turnover.ratio.toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right">{item.turnover.daysSalesOfInventory.toFixed(0)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 mb-2">
+        <h4 className="text-lg font-semibold text-primary">By SKU</h4>
+        <div className="flex gap-3">
+          <div className="w-44">
+            <Label htmlFor="skuCategoryFilter" className="text-xs font-medium mb-1 block">
+              Category
+            </Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="skuCategoryFilter" className="w-full border-gray-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map((item) => (
+                  <SelectItem key={item.category} value={item.category}>
+                    {item.category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-44">
+            <Label htmlFor="skuSort" className="text-xs font-medium mb-1 block">
+              Sort By
+            </Label>
+            <Select value={sort} onValueChange={(value) => setSort(value as SkuSort)}>
+              <SelectTrigger id="skuSort" className="w-full border-gray-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="slowest">Slowest moving first</SelectItem>
+                <SelectItem value="fastest">Fastest moving first</SelectItem>
+                <SelectItem value="cogs">Highest COGS first</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+      <div className="bg-white rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>SKU</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Units Sold</TableHead>
+              <TableHead className="text-right">COGS</TableHead>
+              <TableHead className="text-right">Share of COGS</TableHead>
+              <TableHead className="text-right">Avg. Stock</TableHead>
+              <TableHead className="text-right">Turnover</TableHead>
+              <TableHead className="text-right">DSI (days)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.slice(0, visibleCount).map((item, index) => (
+              <TableRow key={`${item.record.sku}-${index}`}>
+                <TableCell className="font-medium">{item.record.sku}</TableCell>
+                <TableCell>{getRecordCategory(item.record)}</TableCell>
+                <TableCell className="text-right">{item.record.unitsSold.toLocaleString('en-IN')}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.record.costOfGoodsSold)}</TableCell>
+                <TableCell className="text-right">{(item.cogsShare * 100).toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.turnover.averageInventory)}</TableCell>
+                <TableCell className={cn("text-right font-medium", BAND_TEXT[getTurnoverBand(item.turnover.ratio)])}>
+                  {item.turnover.ratio.toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right">{item.turnover.daysSalesOfInventory.toFixed(0)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {filtered.length > visibleCount && (
+        <Button variant="link" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} className="mt-2 px-0">
+          Show {Math.min(PAGE_SIZE, filtered.length - visibleCount)} more of {filtered.length - visibleCount} remaining
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SkuDrillDownPanel;
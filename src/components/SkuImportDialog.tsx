@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ImportIssueList from './ImportIssueList';
+import {
+  detectHeaderRow,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  parseCsv,
+  readWorkbook,
+  SKU_FIELDS,
+  validateSkuRows,
+  type ColumnMapping,
+  type SkuImport,
+  type WorksheetTable,
+} from '@/lib/import';
+
+interface SkuImportDialogProps {
+  onImport: (skuImport: SkuImport) => void;
+}
+
+const NOT_MAPPED = 'none';
+const PREVIEW_ROWS = 5;
+const HEADER_ROW_CHOICES = 20;
+
+const isWorkbook = (file: File): boolean => /\.xlsx$/i.test(file.name);
+
+const SkuImportDialog: React.FC<SkuImportDialogProps> = ({ onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<WorksheetTable[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const rows = useMemo(() => sheets[sheetIndex]?.rows ?? [], [sheets, sheetIndex]);
+  const headers = rows[headerRow] ?? [];
+  const dataRows = rows.slice(headerRow + 1).filter((cells) => cells.some((cell) => cell !== ''));
+
+  const validation = useMemo(
+    () => (mapping ? validateSkuRows(rows.slice(headerRow + 1), mapping, headerRow + 2) : null),
+    [rows, headerRow, mapping]
+  );
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : [];
+  const errorCount = validation?.issues.filter((issue) => issue.severity === 'error').length ?? 0;
+
+  const reset = () => {
+    setFileName('');
+    setSheets([]);
+    setSheetIndex(0);
+    setHeaderRow(0);
+    setMapping(null);
+    setReadError(null);
+  };
+
+  const selectTable = (table: WorksheetTable | undefined, row: number) => {
+    setHeaderRow(row);
+    setMapping(table && table.rows.length > row + 1 ? guessColumnMapping(table.rows[row]) : null);
+    setReadError(
+      table && table.rows.length > row + 1 ? null : 'The sheet needs a header row and at least one SKU row below it.'
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    let tables: WorksheetTable[];
+    try {
+      tables = isWorkbook(file)
+        ? await readWorkbook(await file.arrayBuffer())
+        : [{ name: file.name, rows: parseCsv(await file.text()) }];
+    } catch {
+      setSheets([]);
+      setMapping(null);
+      setReadError('This file could not be read. Save it as .xlsx or .csv and try again.');
+      return;
+    }
+    setSheets(tables);
+    setSheetIndex(0);
+    selectTable(tables[0], tables[0] ? detectHeaderRow(tables[0].rows) : 0);
+  };
+
+  const handleSheetChange = (value: string) => {
+    const index = Number(value);
+    setSheetIndex(index);
+    selectTable(sheets[index], detectHeaderRow(sheets[index].rows));
+  };
+
+  const handleImport = () => {
+    if (!validation) return;
+    onImport({ fileName, ...validation });
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileUp className="h-4 w-4" />
+          Import SKUs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import SKUs from CSV or Excel</DialogTitle>
+          <DialogDescription>
+            Upload a POS export or workbook with one row per SKU. The totals replace your COGS and inventory inputs, and each SKU's turnover stays available below the results.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="skuImportFile" className="text-sm font-medium mb-1 block">
+            CSV or Excel File
+          </Label>
+          <Input
+            id="skuImportFile"
+            type="file"
+            accept=".csv,.txt,.xlsx,text/csv"
+            onChange={handleFileChange}
+            className="border-gray-300"
+          />
+          {readError && <p className="mt-2 text-sm text-destructive">{readError}</p>}
+        </div>
+
+        {sheets.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {sheets.length > 1 && (
+              <div>
+                <Label htmlFor="skuImportSheet" className="text-xs font-medium mb-1 block">
+                  Sheet
+                </Label>
+                <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+                  <SelectTrigger id="skuImportSheet" className="w-full border-gray-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheets.map((sheet, index) => (
+                      <SelectItem key={sheet.name} value={String(index)}>
+                        {sheet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="skuImportHeaderRow" className="text-xs font-medium mb-1 block">
+                Header Row
+              </Label>
+              <Select value={String(headerRow)} onValueChange={(value) => selectTable(sheets[sheetIndex], Number(value))}>
+                <SelectTrigger id="skuImportHeaderRow" className="w-full border-gray-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rows.slice(0, HEADER_ROW_CHOICES).map((cells, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      Row {index + 1}: {cells.filter((cell) => cell !== '').slice(0, 3).join(', ') || '(blank)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {mapping && (
+          <>
+            <div>
+              <h4 className="text-sm font-semibold text-primary mb-2">Map Columns</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {SKU_FIELDS.map((definition) => (
+                  <div key={definition.field}>
+                    <Label htmlFor={`skuMap-${definition.field}`} className="text-xs font-medium mb-1 block">
+                      {definition.label}{definition.required ? ' *' : ''}
+                    </Label>
+                    <Select
+                      value={mapping[definition.field] === null ? NOT_MAPPED : String(mapping[definition.field])}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [definition.field]: value === NOT_MAPPED ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger id={`skuMap-${definition.field}`} className="w-full border-gray-300">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-primary mb-2">
+                Preview (first {Math.min(PREVIEW_ROWS, dataRows.length)} of {dataRows.length} rows)
+              </h4>
+              <div className="rounded-lg border border-gray-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {SKU_FIELDS.map((definition) => (
+                        <TableHead key={definition.field}>{definition.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dataRows.slice(0, PREVIEW_ROWS).map((cells, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {SKU_FIELDS.map((definition) => {
+                          const column = mapping[definition.field];
+                          return (
+                            <TableCell key={definition.field} className={definition.type === 'number' ? 'text-right' : undefined}>
+                              {column === null ? '—' : cells[column] ?? ''}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {missingFields.length > 0 ? (
+              <p className="text-sm text-destructive">
+                Map {missingFields.map((definition) => definition.label).join(', ')} to continue.
+              </p>
+            ) : (
+              validation && (
+                <div className="text-sm">
+                  <p className="text-gray-700">
+                    {validation.records.length} SKUs ready to import
+                    {validation.skippedRows > 0 && `, ${validation.skippedRows} rows skipped with ${errorCount} errors`}.
+                  </p>
+                  <ImportIssueList issues={validation.issues} />
+                </div>
+              )
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleImport}
+            disabled={!validation || missingFields.length > 0 || validation.records.length === 0}
+            className="cta-button"
+          >
+            Import {validation && missingFields.length === 0 ? `${validation.records.length} SKUs` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SkuImportDialog;
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ImportIssueList from './ImportIssueList';
+import {
+  decodeTallyFile,
+  parseTallyXml,
+  TALLY_FORMAT_LABELS,
+  type SkuImport,
+  type TallyImportResult,
+} from '@/lib/import';
+import { formatCurrency } from '@/lib/format';
+
+interface TallyImportDialogProps {
+  onImport: (skuImport: SkuImport) => void;
+}
+
+interface GroupTotals {
+  group: string;
+  items: number;
+  opening: number;
+  closing: number;
+  costOfGoodsSold: number;
+}
+
+const TallyImportDialog: React.FC<TallyImportDialogProps> = ({ onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<TallyImportResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const groups = useMemo<GroupTotals[]>(() => {
+    const totals = new Map<string, GroupTotals>();
+    for (const record of parsed?.records ?? []) {
+      const group = totals.get(record.category) ?? { group: record.category, items: 0, opening: 0, closing: 0, costOfGoodsSold: 0 };
+      totals.set(record.category, {
+        group: record.category,
+        items: group.items + 1,
+        opening: group.opening + record.openingStockValue,
+        closing: group.closing + record.closingStockValue,
+        costOfGoodsSold: group.costOfGoodsSold + record.costOfGoodsSold,
+      });
+    }
+    return Array.from(totals.values()).sort((a, b) => b.costOfGoodsSold - a.costOfGoodsSold);
+  }, [parsed]);
+
+  const reset = () => {
+    setFileName('');
+    setParsed(null);
+    setReadError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setParsed(parseTallyXml(decodeTallyFile(await file.arrayBuffer())));
+      setReadError(null);
+    } catch (error) {
+      setParsed(null);
+      setReadError(`${error instanceof Error ? error.message : 'The file could not be read'}. Export the Stock Summary or stock items from Tally as XML and try again.`);
+    }
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    onImport({ fileName, records: parsed.records, issues: parsed.issues, skippedRows: parsed.skippedRows });
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileCode className="h-4 w-4" />
+          Import from Tally
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a Tally Stock Summary</DialogTitle>
+          <DialogDescription>
+            In Tally, open Stock Summary (or list your stock items) and export it as XML. Opening value, closing value and consumption are read for each stock group.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="tallyImportFile" className="text-sm font-medium mb-1 block">
+            Tally XML File
+          </Label>
+          <Input id="tallyImportFile" type="file" accept=".xml,text/xml" onChange={handleFileChange} className="border-gray-300" />
+          {readError && <p className="mt-2 text-sm text-destructive">{readError}</p>}
+        </div>
+
+        {parsed && (
+          <>
+            <p className="text-sm text-gray-700">
+              {TALLY_FORMAT_LABELS[parsed.format]}: {parsed.records.length} entries in {groups.length} stock groups
+              {parsed.skippedRows > 0 && `, ${parsed.skippedRows} could not be mapped`}.
+            </p>
+            <div className="rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stock Group</TableHead>
+                    <TableHead className="text-right">Entries</TableHead>
+                    <TableHead className="text-right">Opening</TableHead>
+                    <TableHead className="text-right">Closing</TableHead>
+                    <TableHead className="text-right">Consumption (COGS)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group) => (
+                    <TableRow key={group.group}>
+                      <TableCell className="font-medium">{group.group}</TableCell>
+                      <TableCell className="text-right">{group.items}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(group.opening)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(group.closing)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(group.costOfGoodsSold)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {parsed.issues.length > 0 && (
+              <div className="text-sm">
+                <h4 className="font-semibold text-primary">Entries Needing Attention</h4>
+                <ImportIssueList issues={parsed.issues} limit={20} />
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!parsed || parsed.records.length === 0} className="cta-button">
+            Import {parsed ? `${parsed.records.length} Entries` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TallyImportDialog;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_REPORT_BRANDING, type ReportBranding } from '@/lib/export';
+import { WORKSPACE_KIND_LABELS, type Workspace, type WorkspaceKind } from '@/lib/storage';
+
+interface WorkspaceDialogProps {
+  /** The workspace to edit; leave out to create a new one. */
+  workspace?: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (name: string, kind: WorkspaceKind, branding: ReportBranding) => void;
+  /** Offered only when editing and other workspaces exist. */
+  onDelete?: () => void;
+}
+
+const BRANDING_FIELDS: { key: Exclude<keyof ReportBranding, 'accentColor'>; label: string }[] = [
+  { key: 'headerText', label: 'Report Header' },
+  { key: 'preparedFor', label: 'Prepared For' },
+  { key: 'footerText', label: 'Report Footer' },
+];
+
+const WorkspaceDialog: React.FC<WorkspaceDialogProps> = ({ workspace, open, onOpenChange, onSave, onDelete }) => {
+  const [name, setName] = useState(workspace?.name ?? '');
+  const [kind, setKind] = useState<WorkspaceKind>(workspace?.kind ?? 'client');
+  const [branding, setBranding] = useState<ReportBranding>(workspace?.branding ?? DEFAULT_REPORT_BRANDING);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // A new workspace's reports are prepared for it unless another name was given.
+    onSave(trimmed, kind, workspace ? branding : { ...branding, preparedFor: branding.preparedFor || trimmed });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{workspace ? 'Workspace Settings' : 'New Workspace'}</DialogTitle>
+          <DialogDescription>
+            Each workspace keeps its own scenarios, period history, saved calculations, benchmark and report branding.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="sm:col-span-2">
+            <Label htmlFor="workspaceName" className="text-sm font-medium mb-1 block">
+              Name
+            </Label>
+            <Input
+              id="workspaceName"
+              value={name}
+              placeholder="e.g. Koramangala Store"
+              onChange={(e) => setName(e.target.value)}
+              className="border-gray-300"
+            />
+          </div>
+          <div>
+            <Label htmlFor="workspaceKind" className="text-sm font-medium mb-1 block">
+              Type
+            </Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as WorkspaceKind)}>
+              <SelectTrigger id="workspaceKind" className="w-full border-gray-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(WORKSPACE_KIND_LABELS) as WorkspaceKind[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {WORKSPACE_KIND_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="font-semibold text-primary">PDF Report Branding</h4>
+          {BRANDING_FIELDS.map((field) => (
+            <div key={field.key}>
+              <Label htmlFor={`workspace-${field.key}`} className="text-sm font-medium mb-1 block">
+                {field.label}
+              </Label>
+              <Input
+                id={`workspace-${field.key}`}
+                value={branding[field.key]}
+                placeholder={field.key === 'preparedFor' ? name : undefined}
+                onChange={(e) => setBranding({ ...branding, [field.key]: e.target.value })}
+                className="border-gray-300"
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-3">
+            <Input
+              id="workspaceAccent"
+              type="color"
+              value={branding.accentColor}
+              onChange={(e) => setBranding({ ...branding, accentColor: e.target.value })}
+              className="h-9 w-14 p-1 border-gray-300"
+            />
+            <Label htmlFor="workspaceAccent" className="text-sm">
+              Header and footer colour
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {workspace && onDelete && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-destructive sm:mr-auto">
+                  Delete Workspace
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {workspace.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Its scenarios, period history and saved calculations are removed from this browser. Export the workspace first to keep a copy.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => {
+                      onDelete();
+                      onOpenChange(false);
+                    }}
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          <Button onClick={handleSave} disabled={!name.trim()} className="cta-button">
+            {workspace ? 'Save Changes' : 'Create Workspace'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceDialog;
@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import type { TurnoverResult } from '@/lib/turnover';
+import { recordCalculation, type CalculatorState } from '@/lib/storage';
+
+const AUTO_SAVE_DELAY_MS = 3000;
+
+/**
+ * Adds each completed calculation to the workspace's history once its inputs have stayed the
+ * same for a few seconds, so half-typed figures are not kept. Calculations without a turnover
+ * ratio are skipped, as are repeats of the newest saved one. Waits for `enabled`, which the
+ * calculator sets once its session is restored, so the defaults shown before that are not saved.
+ */
+export function useCalculationAutoSave(workspaceId: string, state: CalculatorState, result: TurnoverResult, enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || !(result.ratio > 0)) return;
+    const timer = window.setTimeout(() => {
+      recordCalculation(workspaceId, state, result).catch((error) => console.error('Error saving calculation:', error));
+    }, AUTO_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [workspaceId, state, result, enabled]);
+}
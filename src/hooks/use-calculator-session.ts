@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { loadSession, saveSession, type CalculatorSession } from '@/lib/storage';
+
+const SAVE_DELAY_MS = 500;
+
+/**
+ * Restores the workspace's last session once on mount, then keeps `session` saved as it changes.
+ * Saving waits for the restore so the defaults never overwrite the stored session, and a save
+ * still waiting when the calculator unmounts (e.g. on a workspace switch) is written straight away.
+ * Storage failures (private browsing, blocked storage) leave the calculator working unsaved.
+ */
+export function useCalculatorSession(
+  workspaceId: string,
+  session: CalculatorSession,
+  onRestore: (session: CalculatorSession) => void
+) {
+  const [restored, setRestored] = useState(false);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const unsavedRef = useRef<CalculatorSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession(workspaceId)
+      .then((saved) => {
+        if (saved && !cancelled) onRestoreRef.current(saved);
+      })
+      .catch((error) => console.error('Error restoring session:', error))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (!restored) return;
+    unsavedRef.current = session;
+    const timer = window.setTimeout(() => {
+      unsavedRef.current = null;
+      saveSession(workspaceId, session).catch((error) => console.error('Error saving session:', error));
+    }, SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [workspaceId, session, restored]);
+
+  useEffect(
+    () => () => {
+      const unsaved = unsavedRef.current;
+      if (unsaved) saveSession(workspaceId, unsaved).catch((error) => console.error('Error saving session:', error));
+    },
+    [workspaceId]
+  );
+
+  return restored;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import type { ReportBranding } from '@/lib/export';
+import {
+  createWorkspace,
+  DEFAULT_WORKSPACE_ID,
+  deleteWorkspace,
+  getActiveWorkspaceId,
+  importWorkspace,
+  listWorkspaces,
+  saveWorkspace,
+  setActiveWorkspaceId,
+  type Workspace,
+  type WorkspaceKind,
+} from '@/lib/storage';
+
+/**
+ * Loads the saved workspaces and tracks which one is active. When storage is unavailable a
+ * single unsaved workspace is used, so the calculator still works.
+ */
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(getActiveWorkspaceId);
+
+  useEffect(() => {
+    let cancelled = false;
+    listWorkspaces()
+      .catch((error) => {
+        console.error('Error loading workspaces:', error);
+        return [createWorkspace('My Business', 'store', DEFAULT_WORKSPACE_ID)];
+      })
+      .then((loaded) => {
+        if (!cancelled) setWorkspaces(loaded);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeId) ?? workspaces[0];
+
+  const selectWorkspace = (id: string) => {
+    setActiveId(id);
+    setActiveWorkspaceId(id);
+  };
+
+  const addWorkspace = async (name: string, kind: WorkspaceKind, branding?: ReportBranding): Promise<Workspace> => {
+    const created = createWorkspace(name, kind);
+    const workspace = branding ? { ...created, branding } : created;
+    await saveWorkspace(workspace);
+    setWorkspaces((current) => [...current, workspace]);
+    selectWorkspace(workspace.id);
+    return workspace;
+  };
+
+  const updateWorkspace = async (workspace: Workspace): Promise<void> => {
+    await saveWorkspace(workspace);
+    setWorkspaces((current) => current.map((existing) => (existing.id === workspace.id ? workspace : existing)));
+  };
+
+  /** Deletes a workspace and everything in it. The last workspace cannot be deleted. */
+  const removeWorkspace = async (id: string): Promise<void> => {
+    if (workspaces.length <= 1) return;
+    await deleteWorkspace(id);
+    const remaining = workspaces.filter((workspace) => workspace.id !== id);
+    setWorkspaces(remaining);
+    if (activeWorkspace?.id === id) selectWorkspace(remaining[0].id);
+  };
+
+  const importWorkspaceFile = async (text: string): Promise<Workspace> => {
+    const workspace = await importWorkspace(text);
+    setWorkspaces((current) => [...current, workspace]);
+    selectWorkspace(workspace.id);
+    return workspace;
+  };
+
+  return { workspaces, activeWorkspace, selectWorkspace, addWorkspace, updateWorkspace, removeWorkspace, importWorkspaceFile };
+}
+
+export type WorkspacesState = ReturnType<typeof useWorkspaces>;
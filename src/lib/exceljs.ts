@@ -0,0 +1,8 @@
+/**
+ * Loads ExcelJS on demand so the spreadsheet code stays out of the main bundle.
+ * The package ships as CommonJS, so depending on the bundler its exports arrive on `default`.
+ */
+export const loadExcelJs = async (): Promise<typeof import('exceljs')> => {
+  const module = await import('exceljs');
+  return module.default ?? module;
+};
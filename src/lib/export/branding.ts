@@ -0,0 +1,17 @@
+/** How a workspace's PDF reports are branded. */
+export interface ReportBranding {
+  /** Shown in the header band of every page. */
+  headerText: string;
+  /** The store, brand or client the report is for; left out when blank. */
+  preparedFor: string;
+  footerText: string;
+  /** Hex colour of the header and footer bands. */
+  accentColor: string;
+}
+
+export const DEFAULT_REPORT_BRANDING: ReportBranding = {
+  headerText: 'Retail Insights Visualizer',
+  preparedFor: '',
+  footerText: '© 2023 Retail Insights Visualizer | www.retailinsights.com',
+  accentColor: '#245e4f',
+};
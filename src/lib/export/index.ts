@@ -0,0 +1,3 @@
+export * from './xlsx';
+export * from './pdf';
+export * from './branding';
@@ -0,0 +1,88 @@
+import type { jsPDF } from 'jspdf';
+import { QUALITY_CHECK_LABELS, type ImportQualityReport, type QualityResolution } from '@/lib/import';
+import { DEFAULT_REPORT_BRANDING } from './branding';
+const PAGE_BOTTOM = 275;
+
+const RESOLUTION_LABELS: Record<QualityResolution, string> = {
+  kept: 'Kept as imported',
+  corrected: 'Corrected',
+  excluded: 'Left out',
+};
+
+const COLUMNS = [
+  { label: 'SKU', x: 15, width: 42 },
+  { label: 'Check', x: 59, width: 42 },
+  { label: 'Outcome', x: 103, width: 28 },
+  { label: 'Details', x: 133, width: 62 },
+];
+
+const drawAppendixPage = (pdf: jsPDF, title: string, accent: string): number => {
+  pdf.addPage();
+  pdf.setFillColor(accent);
+  pdf.rect(0, 0, 210, 18, 'F');
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(13);
+  pdf.text(title, 15, 12);
+  return 30;
+};
+
+const drawColumnHeadings = (pdf: jsPDF, y: number, accent: string): number => {
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(9);
+  pdf.setTextColor(accent);
+  for (const column of COLUMNS) pdf.text(column.label, column.x, y);
+  pdf.setDrawColor(200, 200, 200);
+  pdf.line(15, y + 2, 195, y + 2);
+  return y + 7;
+};
+
+/**
+ * Appends the import data-quality review to a report: what was checked, each finding and
+ * whether it was corrected, left out or kept. Starts on a new page and adds more as needed.
+ */
+export const addQualityAppendix = (
+  pdf: jsPDF,
+  fileName: string,
+  report: ImportQualityReport,
+  accent = DEFAULT_REPORT_BRANDING.accentColor
+): void => {
+  const title = 'Appendix: Import Data Quality';
+  let y = drawAppendixPage(pdf, title, accent);
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.setTextColor(60, 60, 60);
+  const counts = report.findings.reduce<Record<QualityResolution, number>>(
+    (totals, finding) => ({ ...totals, [finding.resolution]: totals[finding.resolution] + 1 }),
+    { kept: 0, corrected: 0, excluded: 0 }
+  );
+  const summary = [
+    `Source: ${fileName}`,
+    `${report.checkedRecords} items checked, ${report.includedRecords} used in the calculation.`,
+    report.findings.length === 0
+      ? 'No data-quality issues were found.'
+      : `${report.findings.length} findings: ${counts.corrected} corrected, ${counts.excluded} left out, ${counts.kept} kept as imported.`,
+  ];
+  for (const line of summary) {
+    pdf.text(line, 15, y);
+    y += 6;
+  }
+  if (report.findings.length === 0) return;
+
+  y = drawColumnHeadings(pdf, y + 4, accent);
+  for (const finding of report.findings) {
+    const cells = [finding.sku, QUALITY_CHECK_LABELS[finding.check], RESOLUTION_LABELS[finding.resolution], finding.message].map(
+      (text, column) => pdf.splitTextToSize(text, COLUMNS[column].width) as string[]
+    );
+    const height = Math.max(...cells.map((lines) => lines.length)) * 4 + 2;
+    if (y + height > PAGE_BOTTOM) {
+      y = drawColumnHeadings(pdf, drawAppendixPage(pdf, `${title} (continued)`, accent), accent);
+    }
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(60, 60, 60);
+    cells.forEach((lines, column) => pdf.text(lines, COLUMNS[column].x, y));
+    y += height;
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BASELINE_SCENARIO_ID,
+  calculateCarryingCost,
+  calculateGmroi,
+  calculateTurnover,
+  createScenario,
+  DEFAULT_CALCULATOR_VALUES,
+  evaluateScenario,
+  findBenchmark,
+  type CalculationMethod,
+  type CalculatorValues,
+} from '@/lib/turnover';
+import { readWorkbook } from '@/lib/import';
+import { buildResultsWorkbook, XLSX_MIME_TYPE } from './xlsx';
+
+const buildAndRead = async (values: CalculatorValues, method: CalculationMethod = 'cogs') => {
+  const period = { type: 'fiscal-year' } as const;
+  const result = calculateTurnover(values, method, period);
+  const baseline = evaluateScenario({ id: BASELINE_SCENARIO_ID, name: 'Current', values }, method, period);
+  const leaner = evaluateScenario(createScenario('Leaner', { ...values, endingInventory: 50000 }), method, period);
+  const blob = await buildResultsWorkbook({
+    values,
+    method,
+    result,
+    gmroi: calculateGmroi(values, result),
+    carryingCost: calculateCarryingCost(values, result),
+    benchmark: findBenchmark('General Retail'),
+    outcomes: [baseline, leaner],
+  });
+  expect(blob.type).toBe(XLSX_MIME_TYPE);
+  return readWorkbook(await blob.arrayBuffer());
+};
+
+// Section headings reuse some labels, so only rows with a value count.
+const valueOf = (rows: string[][], label: string) => rows.find((cells) => cells[0] === label && cells[2] !== '')?.[2];
+
+describe('buildResultsWorkbook', () => {
+  it('writes the results with their values cached', async () => {
+    const [calculation, scenarios, ...rest] = await buildAndRead(DEFAULT_CALCULATOR_VALUES);
+    expect(calculation.name).toBe('Calculation');
+    expect(rest).toEqual([]);
+    // COGS 10,00,000 over an average of 2,00,000 for a year.
+    expect(valueOf(calculation.rows, 'Inventory Turnover')).toBe('5');
+    expect(valueOf(calculation.rows, 'GMROI')).toBe('2.5');
+    expect(valueOf(calculation.rows, 'Annual Carrying Cost')).toBe('50000');
+    expect(scenarios.rows.map((cells) => cells[0])).toEqual(['Scenario', 'Current', 'Leaner']);
+    expect(scenarios.rows[1][9]).toBe('—');
+  });
+
+  it('adds a snapshot sheet when the average comes from snapshots', async () => {
+    const tables = await buildAndRead({ ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [100000, 200000, 300000] });
+    expect(tables.map((table) => table.name)).toEqual(['Calculation', 'Scenarios', 'Snapshots']);
+    expect(tables[2].rows.slice(1).map((cells) => cells[1])).toEqual(['100000', '200000', '300000']);
+  });
+});
@@ -0,0 +1,259 @@
+import type { CellValue, Row, Worksheet } from 'exceljs';
+import { loadExcelJs } from '@/lib/exceljs';
+import {
+  DAYS_IN_YEAR,
+  DERIVED_COGS_INPUTS,
+  formatPeriodDays,
+  getPeriodLabel,
+  INPUT_LABELS,
+  METHOD_DEFINITIONS,
+  usesInventorySnapshots,
+  type CalculationMethod,
+  type CalculatorValues,
+  type CarryingCostResult,
+  type GmroiResult,
+  type IndustryBenchmark,
+  type ScenarioOutcome,
+  type StepUnit,
+  type TurnoverResult,
+} from '@/lib/turnover';
+
+export interface ResultsWorkbookInput {
+  values: CalculatorValues;
+  method: CalculationMethod;
+  result: TurnoverResult;
+  gmroi: GmroiResult;
+  carryingCost: CarryingCostResult;
+  benchmark: IndustryBenchmark;
+  /** Baseline first, as shown in the what-if table. */
+  outcomes: ScenarioOutcome[];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NUMBER_FORMATS: Record<StepUnit, string> = {
+  currency: '"₹"#,##0',
+  units: '#,##0',
+  times: '0.00',
+  days: '0.0',
+};
+const PERCENT_FORMAT = '0.0%';
+const RATE_FORMAT = '0.0"%"';
+
+const SNAPSHOT_SHEET = 'Snapshots';
+
+/** Writes a formula with its current value cached, so the sheet opens with numbers before recalculation. */
+const setFormula = (row: Row, column: number, formula: string, result: number, numFmt: string) => {
+  const cell = row.getCell(column);
+  cell.value = { formula, result };
+  cell.numFmt = numFmt;
+};
+
+const setValue = (row: Row, column: number, value: CellValue, numFmt?: string) => {
+  const cell = row.getCell(column);
+  cell.value = value;
+  if (numFmt) cell.numFmt = numFmt;
+};
+
+const addSectionHeader = (sheet: Worksheet, title: string) => {
+  sheet.addRow([]);
+  sheet.addRow([title]).font = { bold: true, size: 12 };
+};
+
+/**
+ * Excel formula for a calculation step, built from the cells of the steps before it.
+ * Returns undefined for raw inputs, which are written as plain values.
+ */
+const getStepFormula = (
+  key: string,
+  hasFormula: boolean,
+  cells: Record<string, string>,
+  input: ResultsWorkbookInput
+): string | undefined => {
+  const definition = METHOD_DEFINITIONS[input.method];
+  const snapshots = input.values.inventorySnapshots;
+  const snapshotRange = `${SNAPSHOT_SHEET}!B2:B${snapshots.length + 1}`;
+  const inventoryKey = definition.inputs.find((inputKey) => inputKey !== definition.throughput) ?? 'averageInventory';
+  const inventory = cells.averageInventory ?? cells[inventoryKey];
+  const days = cells.periodDays;
+  const periodRatio = cells.periodRatio;
+
+  switch (key) {
+    case 'costOfGoodsSold': {
+      if (!hasFormula) return undefined;
+      const [beginning, purchases, freightIn, returns, discounts, ending] = DERIVED_COGS_INPUTS.map((inputKey) => cells[inputKey]);
+      return `${beginning}+${purchases}+${freightIn}-${returns}-${discounts}-${ending}`;
+    }
+    case 'averageInventory':
+      if (!hasFormula) return undefined;
+      return usesInventorySnapshots(input.values, input.method)
+        ? `AVERAGE(${snapshotRange})`
+        : `(${cells.beginningInventory}+${cells.endingInventory})/2`;
+    case 'twoPointAverage':
+      return `(${SNAPSHOT_SHEET}!B2+${SNAPSHOT_SHEET}!B${snapshots.length + 1})/2`;
+    case 'periodRatio':
+      return `IF(AND(${inventory}>0,${days}>0),${cells[definition.throughput]}/${inventory},0)`;
+    case 'ratio':
+      return `IF(${periodRatio}>0,${periodRatio}*${DAYS_IN_YEAR}/${days},0)`;
+    case 'daysSalesOfInventory':
+      return `IF(${periodRatio}>0,${days}/${periodRatio},0)`;
+    default:
+      return undefined;
+  }
+};
+
+const writeCalculationSheet = (sheet: Worksheet, input: ResultsWorkbookInput) => {
+  const { values, method, result, gmroi, carryingCost, benchmark } = input;
+  const definition = METHOD_DEFINITIONS[method];
+  sheet.columns = [{ width: 36 }, { width: 72 }, { width: 18 }];
+
+  sheet.addRow(['Inventory Turnover Analysis']).font = { bold: true, size: 14 };
+  sheet.addRow(['Analysis Period', `${getPeriodLabel(result.period)} (${formatPeriodDays(result.periodDays)} days)`]);
+  sheet.addRow(['Method', definition.label]);
+
+  addSectionHeader(sheet, 'Calculation Details');
+  sheet.addRow(['Step', 'Formula', 'Value']).font = { bold: true };
+  // Cell address of each step's value, so later formulas can point at earlier steps.
+  const cells: Record<string, string> = {};
+  for (const step of result.steps) {
+    const row = sheet.addRow([step.label, step.formula ?? 'Input']);
+    const formula = getStepFormula(step.key, step.formula !== undefined, cells, input);
+    if (formula) {
+      setFormula(row, 3, formula, step.value, NUMBER_FORMATS[step.unit]);
+    } else {
+      setValue(row, 3, step.value, NUMBER_FORMATS[step.unit]);
+    }
+    cells[step.key] = `C${row.number}`;
+  }
+
+  addSectionHeader(sheet, 'Results');
+  const ratioRow = sheet.addRow([definition.label, 'Annualised turnover ratio']);
+  setFormula(ratioRow, 3, cells.ratio, result.ratio, NUMBER_FORMATS.times);
+  const dsiRow = sheet.addRow(['Days Sales of Inventory', 'Days of stock on hand at the current sales rate']);
+  setFormula(dsiRow, 3, cells.daysSalesOfInventory, result.daysSalesOfInventory, NUMBER_FORMATS.days);
+  const benchmarkRow = sheet.addRow([`${benchmark.name} Benchmark`, 'Industry average turnover']);
+  setValue(benchmarkRow, 3, benchmark.value, NUMBER_FORMATS.times);
+  const differenceRow = sheet.addRow(['Difference from Benchmark', 'Turnover ÷ Benchmark − 1']);
+  setFormula(
+    differenceRow,
+    3,
+    `IF(C${benchmarkRow.number}>0,C${ratioRow.number}/C${benchmarkRow.number}-1,0)`,
+    benchmark.value > 0 ? result.ratio / benchmark.value - 1 : 0,
+    PERCENT_FORMAT
+  );
+
+  addSectionHeader(sheet, 'GMROI');
+  const salesRow = sheet.addRow([INPUT_LABELS.netSales, 'Input']);
+  setValue(salesRow, 3, gmroi.netSales, NUMBER_FORMATS.currency);
+  const marginRow = sheet.addRow([INPUT_LABELS.grossMargin]);
+  if (values.grossMarginSource === 'cogs' && cells.costOfGoodsSold) {
+    setValue(marginRow, 2, 'Net Sales − Cost of Goods Sold');
+    setFormula(marginRow, 3, `C${salesRow.number}-${cells.costOfGoodsSold}`, gmroi.grossMargin, NUMBER_FORMATS.currency);
+  } else {
+    setValue(marginRow, 2, values.grossMarginSource === 'cogs' ? 'Net Sales − Cost of Goods Sold' : 'Input');
+    setValue(marginRow, 3, gmroi.grossMargin, NUMBER_FORMATS.currency);
+  }
+  const costRow = sheet.addRow(['Average Inventory at Cost']);
+  if (result.basis === 'cost') {
+    setValue(costRow, 2, definition.inventoryLabel);
+    setFormula(costRow, 3, cells.averageInventory ?? cells[definition.inputs[1]], gmroi.averageInventoryAtCost, NUMBER_FORMATS.currency);
+  } else {
+    setValue(costRow, 2, 'Average inventory from the COGS method inputs');
+    setValue(costRow, 3, gmroi.averageInventoryAtCost, NUMBER_FORMATS.currency);
+  }
+  const gmroiRow = sheet.addRow(['GMROI', `Gross Margin ÷ Average Inventory at Cost × (${DAYS_IN_YEAR} ÷ Analysis Period)`]);
+  setFormula(
+    gmroiRow,
+    3,
+    `IF(AND(C${costRow.number}>0,${cells.periodDays}>0),C${marginRow.number}/C${costRow.number}*${DAYS_IN_YEAR}/${cells.periodDays},0)`,
+    gmroi.gmroi,
+    NUMBER_FORMATS.times
+  );
+
+  addSectionHeader(sheet, 'Carrying Cost');
+  const rateRows = carryingCost.components.map((component) => {
+    const row = sheet.addRow([component.label, 'Annual rate']);
+    setValue(row, 3, component.rate, RATE_FORMAT);
+    return row.number;
+  });
+  const carryingRow = sheet.addRow(['Annual Carrying Cost', 'Average Inventory at Cost × Total Rate']);
+  setFormula(
+    carryingRow,
+    3,
+    `C${costRow.number}*SUM(C${rateRows[0]}:C${rateRows[rateRows.length - 1]})/100`,
+    carryingCost.annualCarryingCost,
+    NUMBER_FORMATS.currency
+  );
+};
+
+const writeScenarioSheet = (sheet: Worksheet, input: ResultsWorkbookInput) => {
+  const definition = METHOD_DEFINITIONS[input.method];
+  const units = definition.basis === 'units' ? NUMBER_FORMATS.units : NUMBER_FORMATS.currency;
+  sheet.columns = [
+    { header: 'Scenario', width: 24 },
+    { header: INPUT_LABELS[definition.throughput], width: 20 },
+    { header: definition.inventoryLabel, width: 22 },
+    { header: 'Analysis Period (days)', width: 20 },
+    { header: 'Turnover', width: 12 },
+    { header: 'DSI (days)', width: 12 },
+    { header: 'Avg. Inventory at Cost', width: 22 },
+    { header: 'Carrying Cost Rate', width: 18 },
+    { header: 'Carrying Cost', width: 18 },
+    { header: 'Turnover vs Baseline', width: 20 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  const baseline = input.outcomes[0];
+  input.outcomes.forEach((outcome) => {
+    const { turnover, carryingCost } = outcome;
+    const row = sheet.addRow([outcome.name]);
+    const r = row.number;
+    setValue(row, 2, turnover.throughput, units);
+    setValue(row, 3, turnover.averageInventory, units);
+    setValue(row, 4, turnover.periodDays, NUMBER_FORMATS.days);
+    setFormula(row, 5, `IF(AND(B${r}>0,C${r}>0,D${r}>0),B${r}/C${r}*${DAYS_IN_YEAR}/D${r},0)`, turnover.ratio, NUMBER_FORMATS.times);
+    setFormula(row, 6, `IF(AND(B${r}>0,C${r}>0),D${r}*C${r}/B${r},0)`, turnover.daysSalesOfInventory, NUMBER_FORMATS.days);
+    setValue(row, 7, carryingCost.averageInventoryAtCost, NUMBER_FORMATS.currency);
+    setValue(row, 8, carryingCost.totalRate, RATE_FORMAT);
+    setFormula(row, 9, `G${r}*H${r}/100`, carryingCost.annualCarryingCost, NUMBER_FORMATS.currency);
+    if (r === 2) {
+      setValue(row, 10, '—');
+    } else {
+      setFormula(
+        row,
+        10,
+        `IF($E$2>0,E${r}/$E$2-1,0)`,
+        baseline.turnover.ratio > 0 ? turnover.ratio / baseline.turnover.ratio - 1 : 0,
+        PERCENT_FORMAT
+      );
+    }
+  });
+};
+
+/**
+ * Builds an .xlsx of the current results, calculation details and what-if scenarios.
+ * Derived figures are live formulas over the input cells so the turnover math can be traced.
+ */
+export const buildResultsWorkbook = async (input: ResultsWorkbookInput): Promise<Blob> => {
+  const { Workbook } = await loadExcelJs();
+  const workbook = new Workbook();
+  workbook.created = new Date();
+
+  writeCalculationSheet(workbook.addWorksheet('Calculation'), input);
+  writeScenarioSheet(workbook.addWorksheet('Scenarios'), input);
+
+  if (usesInventorySnapshots(input.values, input.method)) {
+    const sheet = workbook.addWorksheet(SNAPSHOT_SHEET);
+    sheet.columns = [
+      { header: 'Snapshot', width: 12 },
+      { header: 'Inventory Balance', width: 20 },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    input.values.inventorySnapshots.forEach((balance, index) => {
+      setValue(sheet.addRow([index + 1]), 2, balance, NUMBER_FORMATS.currency);
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+};
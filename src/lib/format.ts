@@ -0,0 +1,16 @@
+import type { InventoryBasis } from '@/lib/turnover';
+
+export const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+/** Formats an inventory or throughput figure in its basis: rupees, or a unit count. */
+export const formatMeasure = (value: number, basis: InventoryBasis): string => {
+  return basis === 'units'
+    ? `${new Intl.NumberFormat('en-IN', { maximumFractionDigits: 0 }).format(value)} units`
+    : formatCurrency(value);
+};
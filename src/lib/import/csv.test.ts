@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv } from './csv';
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['sku,cogs,opening', ','],
+    ['sku;cogs;opening', ';'],
+    ['sku\tcogs\topening', '\t'],
+    ['"Item, code"|cogs|opening', '|'],
+    ['sku', ','],
+  ])('picks the delimiter of %j', (text, delimiter) => {
+    expect(detectDelimiter(text)).toBe(delimiter);
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quotes, embedded delimiters and line breaks, and drops blank lines', () => {
+    expect(parseCsv('\uFEFFsku,name\r\nA1,"Shirt, blue"\r\n\r\nA2,"6"" ruler\nmetal"\n')).toEqual([
+      ['sku', 'name'],
+      ['A1', 'Shirt, blue'],
+      ['A2', '6" ruler\nmetal'],
+    ]);
+  });
+
+  it('keeps a final line without a line break', () => {
+    expect(parseCsv('a;b\n1;2', ';')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
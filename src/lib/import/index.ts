@@ -0,0 +1,8 @@
+export * from './csv';
+export * from './sku';
+export * from './xlsx';
+export * from './tally';
+export * from './platforms';
+export * from './paste';
+export * from './quality';
+export * from './ledger';
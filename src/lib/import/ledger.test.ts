@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { guessLedgerColumns, parseLedgerDate, parseLedgerRows } from './ledger';
+import { parseCsv } from './csv';
+
+const parse = (text: string) => {
+  const [headers, ...rows] = parseCsv(text);
+  return parseLedgerRows(rows, guessLedgerColumns(headers));
+};
+
+describe('parseLedgerDate', () => {
+  it.each([
+    ['2024-03-05', '2024-03-05'],
+    ['2024-03-05T00:00:00', '2024-03-05'],
+    ['05/03/2024', '2024-03-05'],
+    ['5-3-2024', '2024-03-05'],
+    ['05-Mar-24', '2024-03-05'],
+    ['5 Mar 2024', '2024-03-05'],
+    ['March', null],
+    ['2024-13-01', null],
+  ])('reads %s', (text, date) => {
+    expect(parseLedgerDate(text)).toBe(date);
+  });
+});
+
+describe('parseLedgerRows', () => {
+  it('maps movement words from POS and accounting exports', () => {
+    const result = parse(
+      [
+        'Voucher Date,Item Code,Voucher Type,Qty,Rate',
+        '01/04/2024,A1,Opening Balance,10,50',
+        '02/04/2024,A1,GRN,5,55',
+        '03/04/2024,A1,Sales Invoice,-4,',
+        '04/04/2024,A1,Shrinkage,-1,',
+      ].join('\n')
+    );
+    expect(result.issues).toEqual([]);
+    expect(result.entries).toEqual([
+      { date: '2024-04-01', sku: 'A1', type: 'opening', quantity: 10, unitCost: 50 },
+      { date: '2024-04-02', sku: 'A1', type: 'receipt', quantity: 5, unitCost: 55 },
+      { date: '2024-04-03', sku: 'A1', type: 'sale', quantity: 4, unitCost: null },
+      { date: '2024-04-04', sku: 'A1', type: 'adjustment', quantity: -1, unitCost: null },
+    ]);
+  });
+
+  it('reads the sign of the quantity when there is no type column', () => {
+    const result = parse('Date,SKU,Quantity,Cost\n2024-04-01,A1,10,50\n2024-04-02,A1,-3,');
+    expect(result.entries.map((entry) => [entry.type, entry.quantity])).toEqual([
+      ['receipt', 10],
+      ['sale', 3],
+    ]);
+  });
+
+  it('reports bad rows by line number instead of throwing', () => {
+    const result = parse(
+      [
+        'Date,SKU,Type,Qty,Cost',
+        'someday,A1,sale,1,',
+        '2024-04-01,,sale,1,',
+        '2024-04-01,A1,sale,lots,',
+        '2024-04-01,A1,receipt,5,',
+        '2024-04-01,A1,transfer,5,10',
+        '2024-04-01,A1,sale,0,',
+      ].join('\n')
+    );
+    expect(result.entries).toEqual([]);
+    expect(result.skippedRows).toBe(5);
+    expect(result.issues.map((issue) => [issue.row, issue.severity, issue.message])).toEqual([
+      [2, 'error', 'Date "someday" is not a date'],
+      [3, 'error', 'SKU is blank'],
+      [4, 'error', 'Quantity "lots" is not a number'],
+      [5, 'error', 'Receipts and opening balances need a unit cost'],
+      [6, 'error', 'Type "transfer" is not a receipt, sale, adjustment or opening balance'],
+      [7, 'warning', 'Quantity is zero; nothing moved'],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import type { LedgerEntry, LedgerEntryType } from '@/lib/turnover';
+import { parseNumericCell, type ImportIssue } from './sku';
+
+export type LedgerColumn = 'date' | 'sku' | 'type' | 'quantity' | 'unitCost';
+
+export interface LedgerColumnDefinition {
+  column: LedgerColumn;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const LEDGER_COLUMNS: LedgerColumnDefinition[] = [
+  { column: 'date', label: 'Date', required: true, aliases: ['date', 'txndate', 'transactiondate', 'voucherdate', 'docdate', 'postingdate'] },
+  { column: 'sku', label: 'SKU', required: true, aliases: ['sku', 'skucode', 'itemcode', 'item', 'productcode', 'stockitem'] },
+  { column: 'type', label: 'Type', required: false, aliases: ['type', 'txntype', 'transactiontype', 'vouchertype', 'movement', 'movementtype'] },
+  { column: 'quantity', label: 'Quantity', required: true, aliases: ['qty', 'quantity', 'units', 'qtychange'] },
+  { column: 'unitCost', label: 'Unit Cost', required: false, aliases: ['unitcost', 'cost', 'costperunit', 'rate', 'unitprice'] },
+];
+
+// Words used for each movement in POS and accounting exports.
+const TYPE_ALIASES: Record<LedgerEntryType, string[]> = {
+  opening: ['opening', 'openingbalance', 'openingstock', 'ob'],
+  receipt: ['receipt', 'purchase', 'purchases', 'grn', 'goodsreceipt', 'in', 'inward', 'receive', 'received'],
+  sale: ['sale', 'sales', 'invoice', 'salesinvoice', 'out', 'outward', 'issue', 'sold'],
+  adjustment: ['adjustment', 'adj', 'stockadjustment', 'writeoff', 'shrinkage', 'damage', 'stocktake', 'physicalstock'],
+};
+
+// Indian exports write day first; ISO dates and spreadsheet dates come through as yyyy-MM-dd.
+const DATE_FORMATS = ['dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'd-M-yyyy', 'dd.MM.yyyy', 'dd-MMM-yyyy', 'd-MMM-yyyy', 'dd MMM yyyy', 'd MMM yyyy', 'dd-MMM-yy', 'd-MMM-yy'];
+
+const normalise = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Reads a ledger date as an ISO date, or null when it is not a date. */
+export const parseLedgerDate = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    const date = parseISO(trimmed.slice(0, 10));
+    return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+  }
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(trimmed, pattern, new Date());
+    // A four-digit pattern also accepts "24" as the year 24, so those are left to the two-digit ones.
+    if (isValid(date) && date.getFullYear() >= 1900) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+const parseEntryType = (text: string): LedgerEntryType | undefined => {
+  const key = normalise(text);
+  return (Object.keys(TYPE_ALIASES) as LedgerEntryType[]).find((type) => TYPE_ALIASES[type].includes(key));
+};
+
+export type LedgerColumnMapping = Record<LedgerColumn, number | null>;
+
+export const guessLedgerColumns = (headers: string[]): LedgerColumnMapping => {
+  const normalised = headers.map(normalise);
+  const mapping = {} as LedgerColumnMapping;
+  for (const definition of LEDGER_COLUMNS) {
+    const index = normalised.findIndex((header) => definition.aliases.includes(header));
+    mapping[definition.column] = index === -1 ? null : index;
+  }
+  return mapping;
+};
+
+export interface LedgerImportResult {
+  entries: LedgerEntry[];
+  issues: ImportIssue[];
+  skippedRows: number;
+}
+
+/**
+ * Converts ledger rows into entries. Without a type column the sign of the quantity
+ * decides: positive is a receipt, negative a sale. Sales and receipts are stored as
+ * positive quantities whichever sign the export uses; adjustments keep their sign.
+ * `firstRowNumber` is the source line of `rows[0]`; blank rows are ignored.
+ */
+export const parseLedgerRows = (rows: string[][], mapping: LedgerColumnMapping, firstRowNumber = 2): LedgerImportResult => {
+  const entries: LedgerEntry[] = [];
+  const issues: ImportIssue[] = [];
+  let skippedRows = 0;
+
+  rows.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) return;
+    const row = firstRowNumber + index;
+    const read = (column: LedgerColumn): string => {
+      const position = mapping[column];
+      return position === null ? '' : (cells[position] ?? '').trim();
+    };
+    const fail = (message: string) => {
+      issues.push({ row, item: read('sku') || undefined, severity: 'error', message });
+      skippedRows += 1;
+    };
+
+    const date = parseLedgerDate(read('date'));
+    if (!date) return fail(`Date "${read('date')}" is not a date`);
+    const sku = read('sku');
+    if (sku === '') return fail('SKU is blank');
+    const quantity = parseNumericCell(read('quantity'));
+    if (quantity === null || Number.isNaN(quantity)) return fail(`Quantity "${read('quantity')}" is not a number`);
+    const unitCost = parseNumericCell(read('unitCost'));
+    if (unitCost !== null && (Number.isNaN(unitCost) || unitCost < 0)) return fail(`Unit cost "${read('unitCost')}" is not a cost`);
+
+    let type: LedgerEntryType | undefined;
+    if (mapping.type === null) {
+      type = quantity >= 0 ? 'receipt' : 'sale';
+    } else {
+      type = parseEntryType(read('type'));
+      if (!type) return fail(`Type "${read('type')}" is not a receipt, sale, adjustment or opening balance`);
+    }
+
+    if ((type === 'opening' || type === 'receipt') && unitCost === null) {
+      return fail('Receipts and opening balances need a unit cost');
+    }
+    if (quantity === 0) {
+      issues.push({ row, item: sku, severity: 'warning', message: 'Quantity is zero; nothing moved' });
+      return;
+    }
+    entries.push({ date, sku, type, quantity: type === 'adjustment' ? quantity : Math.abs(quantity), unitCost });
+  });
+
+  return { entries, issues, skippedRows };
+};
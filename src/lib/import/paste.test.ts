@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CALCULATOR_VALUES, DEFAULT_PERIOD_HISTORY, type PeriodHistory } from '@/lib/turnover';
+import { applyPastedPeriods, applyPastedValues, parsePastedTable, readPastedData } from './paste';
+
+const rows = (...lines: string[][]) => lines.map((cells) => cells.join('\t')).join('\n');
+
+const HISTORY: PeriodHistory = {
+  frequency: 'month',
+  records: [{ id: 'jan', label: 'Jan 2024', costOfGoodsSold: 100, beginningInventory: 50, endingInventory: 40 }],
+};
+
+const read = (text: string, history = HISTORY) => readPastedData(text, DEFAULT_CALCULATOR_VALUES, history);
+
+describe('parsePastedTable', () => {
+  it('splits on tabs and keeps digit-group commas', () => {
+    expect(parsePastedTable('COGS\t1,00,000\nOpening\t50,000')).toEqual([
+      ['COGS', '1,00,000'],
+      ['Opening', '50,000'],
+    ]);
+  });
+
+  it('splits on commas when there are no tabs', () => {
+    expect(parsePastedTable('COGS,"1,00,000"\nOpening,50000')).toEqual([
+      ['COGS', '1,00,000'],
+      ['Opening', '50000'],
+    ]);
+  });
+});
+
+describe('readPastedData', () => {
+  it('reads labelled inputs, ignoring units in brackets and percent signs', () => {
+    const preview = read(rows(['COGS (₹)', '1,00,000'], ['Closing Stock', '20,000'], ['Cost of Capital (%)', '12%']));
+    expect(preview).toMatchObject({
+      target: 'values',
+      issues: [],
+      values: [
+        { key: 'costOfGoodsSold', next: 100000, current: DEFAULT_CALCULATOR_VALUES.costOfGoodsSold },
+        { key: 'endingInventory', next: 20000 },
+        { key: 'costOfCapitalRate', next: 12 },
+      ],
+    });
+  });
+
+  it('reads comma-separated labelled inputs', () => {
+    const preview = read('COGS,500000\nOpening Stock,"1,20,000"');
+    expect(preview).toMatchObject({ target: 'values', values: [{ next: 500000 }, { next: 120000 }] });
+  });
+
+  it('reads a heading row with one row of values', () => {
+    const preview = read(rows(['Net Sales', 'COGS'], ['900000', '600000']));
+    expect(preview).toMatchObject({ target: 'values', values: [{ key: 'netSales', next: 900000 }, { key: 'costOfGoodsSold', next: 600000 }] });
+  });
+
+  it('reads headed history rows and matches existing periods by label', () => {
+    const preview = read(
+      rows(['Month', 'COGS', 'Opening', 'Closing'], ['jan 2024', '120', '50', '40'], ['Feb 2024', '90', '40', '30'])
+    );
+    expect(preview.target).toBe('history');
+    if (preview.target !== 'history') return;
+    expect(preview.periods.map((period) => [period.change, period.record.label])).toEqual([
+      ['updated', 'Jan 2024'],
+      ['added', 'Feb 2024'],
+    ]);
+    expect(applyPastedPeriods(HISTORY, preview.periods).records.map((record) => [record.id === 'jan', record.costOfGoodsSold])).toEqual([
+      [true, 120],
+      [false, 90],
+    ]);
+  });
+
+  it('reads unheaded rows in the history grid order', () => {
+    const preview = read(rows(['100', '50', '40'], ['90', '40', '30']), DEFAULT_PERIOD_HISTORY);
+    expect(preview).toMatchObject({
+      target: 'history',
+      hasHeaders: false,
+      periods: [{ change: 'added', record: { label: 'Period 1' } }, { change: 'added', record: { label: 'Period 2' } }],
+    });
+  });
+
+  it('reports cells it cannot read instead of throwing', () => {
+    const preview = read(rows(['COGS', '100'], ['Opening Stock', '50'], ['Closing Stock', 'lots'], ['Shoe size', '9']));
+    expect(preview.issues.map((issue) => [issue.row, issue.severity, issue.message])).toEqual([
+      [3, 'error', '"lots" is not a number'],
+      [4, 'warning', 'Not a calculator input; left out'],
+    ]);
+    expect(preview).toMatchObject({ target: 'values', values: [{ key: 'costOfGoodsSold' }, { key: 'beginningInventory' }] });
+  });
+
+  it('reports history rows with blank or unreadable values', () => {
+    const preview = read(rows(['Period', 'COGS', 'Opening', 'Closing'], ['Feb', '90', '', '30'], ['Mar', 'x', '30', '20']));
+    expect(preview.issues.map((issue) => [issue.row, issue.message])).toEqual([
+      [2, 'Beginning Inventory is blank'],
+      [3, 'Cost of Goods Sold "x" is not a number'],
+    ]);
+  });
+
+  it('throws when the layout cannot be recognised', () => {
+    expect(() => read('')).toThrow('Nothing was pasted');
+    expect(() => read(rows(['hello', 'world']))).toThrow('The pasted cells could not be matched to the calculator');
+    expect(() => read(rows(['Period', 'COGS'], ['Jan', '1'], ['Feb', '2']))).toThrow('Period history needs');
+  });
+});
+
+describe('applyPastedValues', () => {
+  it('switches the COGS source to match what was pasted and clears snapshots', () => {
+    const values = { ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [1, 2, 3] };
+    const preview = read(rows(['Purchases', '500'], ['Opening Stock', '100']));
+    if (preview.target !== 'values') throw new Error('Expected calculator inputs');
+    expect(applyPastedValues(values, preview.values)).toMatchObject({
+      purchases: 500,
+      beginningInventory: 100,
+      costOfGoodsSoldSource: 'derived',
+      inventorySnapshots: [],
+    });
+  });
+});
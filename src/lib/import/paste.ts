@@ -0,0 +1,271 @@
+import {
+  createPeriodRecord,
+  INPUT_LABELS,
+  type CalculatorValues,
+  type NumericInputKey,
+  type PeriodHistory,
+  type PeriodRecord,
+} from '@/lib/turnover';
+import { parseCsv } from './csv';
+import { parseNumericCell, type ImportIssue } from './sku';
+
+export type PasteTarget = 'values' | 'history';
+
+/** One calculator input as it is now and as the pasted block would set it. */
+export interface PastedValue {
+  key: NumericInputKey;
+  label: string;
+  current: number;
+  next: number;
+}
+
+export type PastedPeriodChange = 'added' | 'updated' | 'unchanged';
+
+/** One pasted history row; updates keep the id of the row whose period label they match. */
+export interface PastedPeriod {
+  change: PastedPeriodChange;
+  record: PeriodRecord;
+  previous?: PeriodRecord;
+}
+
+interface PastePreviewBase {
+  /** Whether the first pasted row was read as column or row headings. */
+  hasHeaders: boolean;
+  issues: ImportIssue[];
+}
+
+export type PastePreview =
+  | (PastePreviewBase & { target: 'values'; values: PastedValue[] })
+  | (PastePreviewBase & { target: 'history'; periods: PastedPeriod[] });
+
+type HistoryValueKey = 'costOfGoodsSold' | 'beginningInventory' | 'endingInventory';
+
+/** History grid columns, in the order the Period History table shows them. */
+const HISTORY_KEYS: HistoryValueKey[] = ['costOfGoodsSold', 'beginningInventory', 'endingInventory'];
+
+/** A pasted history row before it is matched to the existing periods; the label may be blank. */
+interface PeriodRow {
+  label: string;
+  values: Record<HistoryValueKey, number>;
+}
+
+/** Inputs of the purchases-based COGS derivation that are not inventory balances. */
+const PURCHASE_KEYS: NumericInputKey[] = ['purchases', 'freightIn', 'purchaseReturns', 'purchaseDiscounts'];
+
+const PERIOD_HEADERS = ['period', 'month', 'quarter', 'label', 'date', 'monthyear'];
+
+// Spreadsheet headings in common use, on top of each input's own label.
+const VALUE_ALIASES: Partial<Record<NumericInputKey, string[]>> = {
+  costOfGoodsSold: ['cogs', 'costofsales', 'costofgoods'],
+  beginningInventory: ['beginninginv', 'beginning', 'opening', 'openingstock', 'openinginventory', 'openingstockvalue'],
+  endingInventory: ['endinginv', 'ending', 'closing', 'closingstock', 'closinginventory', 'closingstockvalue'],
+  averageInventory: ['avginventory', 'averagestock', 'avgstock'],
+  netSales: ['sales', 'revenue', 'netrevenue'],
+  grossMargin: ['grossprofit'],
+  unitsSold: ['qtysold', 'quantitysold'],
+  averageUnitsOnHand: ['avgunitsonhand', 'unitsonhand'],
+  accountsReceivable: ['receivables', 'debtors', 'sundrydebtors'],
+  accountsPayable: ['payables', 'creditors', 'sundrycreditors'],
+};
+
+// Units in brackets, e.g. "COGS (₹)" or "Cost of Capital (%)", are not part of the heading.
+const normaliseHeading = (heading: string): string => heading.replace(/\(.*?\)/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADING_KEYS = new Map<string, NumericInputKey>(
+  (Object.keys(INPUT_LABELS) as NumericInputKey[]).flatMap((key) =>
+    [INPUT_LABELS[key], ...(VALUE_ALIASES[key] ?? [])].map((heading) => [normaliseHeading(heading), key] as const)
+  )
+);
+
+const inputForHeading = (heading: string): NumericInputKey | undefined => HEADING_KEYS.get(normaliseHeading(heading));
+
+const isPeriodHeading = (heading: string): boolean => PERIOD_HEADERS.includes(normaliseHeading(heading));
+
+/** Percentages such as "12%" are read as 12, matching how the rate inputs are entered. */
+const readCell = (cell: string | undefined): number | null => parseNumericCell((cell ?? '').replace(/%\s*$/, ''));
+
+const isNumberCell = (cell: string): boolean => {
+  const value = readCell(cell);
+  return value !== null && !Number.isNaN(value);
+};
+
+/**
+ * Spreadsheets copy cells as tab-separated rows, where commas only group digits. Text with no
+ * tabs is read as comma-separated, as copied from a CSV file, with grouped numbers in quotes.
+ */
+export const parsePastedTable = (text: string): string[][] => parseCsv(text, text.includes('\t') ? '\t' : ',');
+
+const samePeriodLabel = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const toPastedPeriods = (rows: PeriodRow[], history: PeriodHistory): PastedPeriod[] => {
+  let added = 0;
+  return rows.map(({ label, values }) => {
+    const previous = label ? history.records.find((record) => samePeriodLabel(record.label, label)) : undefined;
+    if (!previous) {
+      added += 1;
+      return { change: 'added', record: createPeriodRecord(label || `Period ${history.records.length + added}`, values) };
+    }
+    const unchanged = HISTORY_KEYS.every((key) => previous[key] === values[key]);
+    return { change: unchanged ? 'unchanged' : 'updated', record: { ...previous, ...values }, previous };
+  });
+};
+
+const toPastedValues = (pasted: Map<NumericInputKey, number>, values: CalculatorValues): PastedValue[] =>
+  Array.from(pasted, ([key, next]) => ({ key, label: INPUT_LABELS[key], current: values[key], next }));
+
+/** Rows of "Label ⇥ value", e.g. a column of inputs copied with their labels. */
+const readLabelledRows = (rows: string[][], values: CalculatorValues): PastePreview => {
+  const issues: ImportIssue[] = [];
+  const pasted = new Map<NumericInputKey, number>();
+  rows.forEach((cells, index) => {
+    const row = index + 1;
+    const key = inputForHeading(cells[0]);
+    if (!key) {
+      issues.push({ row, item: cells[0], severity: 'warning', message: 'Not a calculator input; left out' });
+      return;
+    }
+    const value = readCell(cells[1]);
+    if (value === null || Number.isNaN(value)) {
+      issues.push({ row, item: cells[0], severity: 'error', message: `"${cells[1] ?? ''}" is not a number` });
+      return;
+    }
+    pasted.set(key, value);
+  });
+  return { target: 'values', hasHeaders: true, values: toPastedValues(pasted, values), issues };
+};
+
+/** A heading row followed by one row (calculator inputs) or several rows (period history). */
+const readHeadedColumns = (rows: string[][], values: CalculatorValues, history: PeriodHistory): PastePreview => {
+  const [headings, ...dataRows] = rows;
+  const issues: ImportIssue[] = [];
+  const columns = new Map<NumericInputKey, number>();
+  headings.forEach((heading, column) => {
+    const key = inputForHeading(heading);
+    if (key && !columns.has(key)) columns.set(key, column);
+  });
+  const periodColumn = headings.findIndex(isPeriodHeading);
+
+  /** The filled cells of one row by input, or null when one of them is not a number. */
+  const readRow = (cells: string[], row: number, keys: NumericInputKey[]): Map<NumericInputKey, number> | null => {
+    const read = new Map<NumericInputKey, number>();
+    for (const key of keys) {
+      const cell = cells[columns.get(key) ?? -1];
+      const value = readCell(cell);
+      if (value === null) continue;
+      if (Number.isNaN(value)) {
+        issues.push({ row, severity: 'error', message: `${INPUT_LABELS[key]} "${cell}" is not a number` });
+        return null;
+      }
+      read.set(key, value);
+    }
+    return read;
+  };
+
+  if (periodColumn === -1 && dataRows.length === 1) {
+    const read = readRow(dataRows[0], 2, Array.from(columns.keys())) ?? new Map();
+    return { target: 'values', hasHeaders: true, values: toPastedValues(read, values), issues };
+  }
+
+  const missing = HISTORY_KEYS.filter((key) => !columns.has(key));
+  if (missing.length > 0) {
+    throw new Error(`Period history needs ${missing.map((key) => INPUT_LABELS[key]).join(', ')} columns`);
+  }
+  const periodRows: PeriodRow[] = [];
+  dataRows.forEach((cells, index) => {
+    const row = index + 2;
+    const read = readRow(cells, row, HISTORY_KEYS);
+    if (!read) return;
+    const blank = HISTORY_KEYS.filter((key) => !read.has(key));
+    if (blank.length > 0) {
+      issues.push({ row, item: cells[periodColumn], severity: 'error', message: `${INPUT_LABELS[blank[0]]} is blank` });
+      return;
+    }
+    periodRows.push({
+      label: periodColumn === -1 ? '' : (cells[periodColumn] ?? '').trim(),
+      values: {
+        costOfGoodsSold: read.get('costOfGoodsSold') as number,
+        beginningInventory: read.get('beginningInventory') as number,
+        endingInventory: read.get('endingInventory') as number,
+      },
+    });
+  });
+  return { target: 'history', hasHeaders: true, periods: toPastedPeriods(periodRows, history), issues };
+};
+
+/** Rows without headings, read in the history grid's column order after an optional period label. */
+const readGridRows = (rows: string[][], history: PeriodHistory): PastePreview => {
+  const issues: ImportIssue[] = [];
+  const periodRows: PeriodRow[] = [];
+  rows.forEach((cells, index) => {
+    const labelled = !isNumberCell(cells[0]);
+    const numbers = (labelled ? cells.slice(1) : cells).map(readCell);
+    if (numbers.length < HISTORY_KEYS.length || numbers.slice(0, HISTORY_KEYS.length).some((value) => value === null || Number.isNaN(value))) {
+      issues.push({ row: index + 1, item: labelled ? cells[0] : undefined, severity: 'error', message: 'Needs COGS, beginning and ending inventory as numbers' });
+      return;
+    }
+    const [costOfGoodsSold, beginningInventory, endingInventory] = numbers as number[];
+    periodRows.push({ label: labelled ? cells[0].trim() : '', values: { costOfGoodsSold, beginningInventory, endingInventory } });
+  });
+  return { target: 'history', hasHeaders: false, periods: toPastedPeriods(periodRows, history), issues };
+};
+
+/**
+ * Reads a block copied from Excel or Google Sheets and works out where it goes: a column of
+ * labelled inputs or a single headed row fills the calculator inputs, and several rows (or a
+ * period column) fill the period history. Nothing is changed; apply the preview to do that.
+ * Throws when the block is empty or its layout cannot be recognised.
+ */
+export const readPastedData = (text: string, values: CalculatorValues, history: PeriodHistory): PastePreview => {
+  const rows = parsePastedTable(text);
+  if (rows.length === 0) {
+    throw new Error('Nothing was pasted');
+  }
+
+  const labelledRows = rows.filter((cells) => inputForHeading(cells[0]) && isNumberCell(cells[1] ?? ''));
+  if (labelledRows.length > 0 && labelledRows.length * 2 >= rows.length) {
+    return readLabelledRows(rows, values);
+  }
+
+  const [firstRow] = rows;
+  const headed = !firstRow.some(isNumberCell) && firstRow.some((cell) => inputForHeading(cell) || isPeriodHeading(cell));
+  if (headed && rows.length > 1) {
+    return readHeadedColumns(rows, values, history);
+  }
+  if (rows.every((cells) => cells.filter(isNumberCell).length >= HISTORY_KEYS.length)) {
+    return readGridRows(rows, history);
+  }
+
+  throw new Error('The pasted cells could not be matched to the calculator. Include a heading row, or a label next to each value');
+};
+
+/**
+ * Sets the pasted inputs. Pasting COGS switches to entered COGS and pasting purchases
+ * switches to derived COGS; pasted beginning or ending inventory replaces any snapshots.
+ */
+export const applyPastedValues = (values: CalculatorValues, pasted: PastedValue[]): CalculatorValues => {
+  const next: CalculatorValues = { ...values };
+  for (const { key, next: value } of pasted) {
+    next[key] = value;
+  }
+  const keys = new Set(pasted.map((value) => value.key));
+  if (keys.has('costOfGoodsSold')) {
+    next.costOfGoodsSoldSource = 'entered';
+  } else if (PURCHASE_KEYS.some((key) => keys.has(key))) {
+    next.costOfGoodsSoldSource = 'derived';
+  }
+  if (keys.has('grossMargin')) next.grossMarginSource = 'entered';
+  if (keys.has('beginningInventory') || keys.has('endingInventory')) next.inventorySnapshots = [];
+  return next;
+};
+
+/** Updates matching periods in place and appends the new ones after the existing rows. */
+export const applyPastedPeriods = (history: PeriodHistory, periods: PastedPeriod[]): PeriodHistory => {
+  const updates = new Map(periods.filter((period) => period.change === 'updated').map((period) => [period.record.id, period.record]));
+  return {
+    ...history,
+    records: [
+      ...history.records.map((record) => updates.get(record.id) ?? record),
+      ...periods.filter((period) => period.change === 'added').map((period) => period.record),
+    ],
+  };
+};
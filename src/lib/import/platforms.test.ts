@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { combinePlatformReports, parsePlatformReport, type InventoryLine, type SalesLine } from './platforms';
+import { UNCATEGORISED } from './sku';
+
+const csv = (...lines: string[]) => lines.join('\n');
+
+describe('parsePlatformReport', () => {
+  it('fills product columns down to Shopify variant rows', () => {
+    const report = parsePlatformReport(
+      csv(
+        'Handle,Title,Type,Variant SKU,Variant Inventory Qty,Cost per item',
+        'tee,Basic Tee,Tops,TEE-S,10,200',
+        'tee,,,TEE-M,5,210',
+        'mug,Mug,,,3,'
+      )
+    );
+    expect(report).toEqual({
+      adapter: 'shopify-products',
+      kind: 'inventory',
+      lines: [
+        { sku: 'TEE-S', title: 'Basic Tee', category: 'Tops', quantity: 10, unitCost: 200 },
+        { sku: 'TEE-M', title: 'Basic Tee', category: 'Tops', quantity: 5, unitCost: 210 },
+      ],
+      issues: [{ row: 4, item: 'Mug', severity: 'warning', message: 'Has no SKU and was left out' }],
+    });
+  });
+
+  it('reads the Shopify inventory export', () => {
+    const report = parsePlatformReport(csv('Handle,Title,SKU,Location,On hand', 'tee,Basic Tee,TEE-S,Store,4'));
+    expect(report.adapter).toBe('shopify-inventory');
+    expect(report.lines).toEqual([{ sku: 'TEE-S', title: 'Basic Tee', category: '', quantity: 4, unitCost: null }]);
+  });
+
+  it('reads the Shopify sales by variant SKU report', () => {
+    const report = parsePlatformReport(
+      csv('Product title,Product type,Product variant SKU,Net quantity,Net sales,Cost of goods sold', 'Basic Tee,Tops,TEE-S,6,"₹3,000",1200')
+    );
+    expect(report).toMatchObject({
+      adapter: 'shopify-sales',
+      kind: 'sales',
+      lines: [{ sku: 'TEE-S', category: 'Tops', unitsSold: 6, netSales: 3000, costOfGoodsSold: 1200 }],
+    });
+  });
+
+  it('reads the WooCommerce analytics report and keeps the first top-level category', () => {
+    const report = parsePlatformReport(
+      csv('Product title,SKU,Items sold,N. revenue,Category', 'Hoodie,HD-1,2,1500,"Clothing > Hoodies, Sale"')
+    );
+    expect(report).toMatchObject({
+      adapter: 'woocommerce-sales',
+      lines: [{ sku: 'HD-1', category: 'Clothing', unitsSold: 2, netSales: 1500, costOfGoodsSold: null }],
+    });
+  });
+
+  it('reads the WooCommerce product export with its cost of goods meta column', () => {
+    const report = parsePlatformReport(csv('ID,SKU,Name,In stock?,Stock,Categories,Meta: _wc_cog_cost', '1,HD-1,Hoodie,1,7,Clothing,450'));
+    expect(report).toMatchObject({
+      adapter: 'woocommerce-products',
+      lines: [{ sku: 'HD-1', title: 'Hoodie', category: 'Clothing', quantity: 7, unitCost: 450 }],
+    });
+  });
+
+  it('reports a number it cannot read instead of throwing', () => {
+    const report = parsePlatformReport(csv('Handle,Title,SKU,Location,On hand', 'tee,Basic Tee,TEE-S,Store,many'));
+    expect(report.lines).toEqual([]);
+    expect(report.issues).toEqual([{ row: 2, item: 'TEE-S', severity: 'error', message: 'Quantity is not a number' }]);
+  });
+
+  it('throws on a layout it does not recognise', () => {
+    expect(() => parsePlatformReport(csv('Foo,Bar', '1,2'))).toThrow('This is not a recognised Shopify or WooCommerce export');
+    expect(() => parsePlatformReport('')).toThrow('This is not a recognised Shopify or WooCommerce export');
+  });
+});
+
+const stock = (sku: string, quantity: number, unitCost: number | null = null): InventoryLine => ({ sku, title: sku, category: '', quantity, unitCost });
+const sold = (sku: string, unitsSold: number, costOfGoodsSold: number | null = null): SalesLine => ({
+  sku,
+  title: sku,
+  category: 'Tops',
+  unitsSold,
+  netSales: null,
+  costOfGoodsSold,
+});
+
+describe('combinePlatformReports', () => {
+  it('values stock at unit cost and sums locations', () => {
+    const result = combinePlatformReports({
+      opening: [stock('A', 10, 100)],
+      closing: [stock('A', 3, 100), stock('A', 2, 100)],
+      sales: [sold('A', 5)],
+    });
+    expect(result.issues).toEqual([]);
+    expect(result.records).toEqual([
+      {
+        sku: 'A',
+        category: 'Tops',
+        unitsSold: 5,
+        costOfGoodsSold: 500,
+        openingStockValue: 1000,
+        closingStockValue: 500,
+        openingUnits: 10,
+        closingUnits: 5,
+        netSales: undefined,
+      },
+    ]);
+  });
+
+  it('falls back to the cost list and then to the reported COGS per unit', () => {
+    const result = combinePlatformReports({
+      opening: [stock('A', 4), stock('B', 2)],
+      closing: [stock('A', 2), stock('B', 1)],
+      sales: [sold('B', 1, 30)],
+      costs: [stock('A', 0, 50)],
+    });
+    expect(result.records.map((record) => [record.sku, record.openingStockValue, record.costOfGoodsSold])).toEqual([
+      ['A', 200, 0],
+      ['B', 60, 30],
+    ]);
+  });
+
+  it('skips SKUs with no cost and warns about missing snapshots', () => {
+    const result = combinePlatformReports({ closing: [stock('A', 4)], sales: [sold('B', 3, 90)] });
+    expect(result.skippedRows).toBe(1);
+    expect(result.records).toMatchObject([{ sku: 'B', category: 'Tops', closingStockValue: 0 }]);
+    expect(result.issues.map((issue) => [issue.item, issue.severity])).toEqual([
+      ['Opening inventory', 'warning'],
+      ['A', 'error'],
+      ['B', 'warning'],
+    ]);
+  });
+
+  it('lists SKUs without a category as uncategorised', () => {
+    const { records } = combinePlatformReports({ opening: [stock('A', 1, 10)], closing: [stock('A', 1, 10)], sales: [] });
+    expect(records[0].category).toBe(UNCATEGORISED);
+  });
+});
@@ -0,0 +1,280 @@
+import { parseCsv } from './csv';
+import { parseNumericCell, UNCATEGORISED, type ImportIssue, type SkuImportResult, type SkuRecord } from './sku';
+
+export type PlatformReportKind = 'inventory' | 'sales';
+
+export type PlatformAdapterId =
+  | 'shopify-inventory'
+  | 'shopify-products'
+  | 'shopify-sales'
+  | 'woocommerce-products'
+  | 'woocommerce-sales';
+
+/** On-hand stock for one SKU from an inventory or product export. */
+export interface InventoryLine {
+  sku: string;
+  title: string;
+  category: string;
+  quantity: number;
+  /** Cost per unit when the export carries one. */
+  unitCost: number | null;
+}
+
+/** Units sold for one SKU from a sales report. */
+export interface SalesLine {
+  sku: string;
+  title: string;
+  category: string;
+  unitsSold: number;
+  netSales: number | null;
+  costOfGoodsSold: number | null;
+}
+
+export type PlatformReport =
+  | { adapter: PlatformAdapterId; kind: 'inventory'; lines: InventoryLine[]; issues: ImportIssue[] }
+  | { adapter: PlatformAdapterId; kind: 'sales'; lines: SalesLine[]; issues: ImportIssue[] };
+
+/** A CSV row keyed by normalised header, e.g. "Variant SKU" → "variantsku". */
+type PlatformRow = Record<string, string>;
+
+interface PlatformAdapter {
+  id: PlatformAdapterId;
+  label: string;
+  kind: PlatformReportKind;
+  /** Normalised headers that must all be present for the layout to match. */
+  signature: string[];
+  /** Columns left blank on continuation rows, filled from the row above while `key` stays the same. */
+  fillDown?: { key: string; columns: string[] };
+}
+
+const normaliseHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Ordered most specific first: a products export also has the SKU and stock columns of simpler layouts.
+export const PLATFORM_ADAPTERS: PlatformAdapter[] = [
+  {
+    id: 'shopify-products',
+    label: 'Shopify product export',
+    kind: 'inventory',
+    signature: ['handle', 'variantsku', 'variantinventoryqty'],
+    // Variant rows repeat only the handle; product columns are on the first row.
+    fillDown: { key: 'handle', columns: ['title', 'type', 'productcategory'] },
+  },
+  { id: 'shopify-inventory', label: 'Shopify inventory export', kind: 'inventory', signature: ['handle', 'sku', 'location'] },
+  { id: 'shopify-sales', label: 'Shopify sales by variant SKU report', kind: 'sales', signature: ['productvariantsku', 'producttitle'] },
+  { id: 'woocommerce-sales', label: 'WooCommerce products analytics report', kind: 'sales', signature: ['producttitle', 'sku', 'itemssold'] },
+  { id: 'woocommerce-products', label: 'WooCommerce product export', kind: 'inventory', signature: ['sku', 'name', 'stock', 'instock'] },
+];
+
+export const detectPlatformAdapter = (headers: string[]): PlatformAdapter | undefined => {
+  const normalised = new Set(headers.map(normaliseHeader));
+  return PLATFORM_ADAPTERS.find((adapter) => adapter.signature.every((header) => normalised.has(header)));
+};
+
+const read = (row: PlatformRow, ...columns: string[]): string => {
+  for (const column of columns) {
+    const value = row[column]?.trim();
+    if (value) return value;
+  }
+  return '';
+};
+
+/** Number in the first filled column, null when all are blank, NaN when it cannot be read. */
+const readNumber = (row: PlatformRow, ...columns: string[]): number | null => parseNumericCell(read(row, ...columns));
+
+// WooCommerce writes "Clothing > Tshirts, Sale"; the first top-level category is the useful grouping.
+const firstCategory = (value: string): string => value.split(',')[0].split('>')[0].trim();
+
+const LINE_FIELD_LABELS: Record<string, string> = {
+  quantity: 'Quantity',
+  unitCost: 'Unit cost',
+  unitsSold: 'Units sold',
+  netSales: 'Net sales',
+  costOfGoodsSold: 'Cost of goods sold',
+};
+
+const READERS: Record<PlatformAdapterId, (row: PlatformRow) => InventoryLine | SalesLine> = {
+  'shopify-products': (row) => ({
+    sku: read(row, 'variantsku'),
+    title: read(row, 'title'),
+    category: read(row, 'type', 'productcategory'),
+    quantity: readNumber(row, 'variantinventoryqty') ?? 0,
+    unitCost: readNumber(row, 'costperitem', 'variantcost'),
+  }),
+  'shopify-inventory': (row) => ({
+    sku: read(row, 'sku'),
+    title: read(row, 'title'),
+    category: '',
+    quantity: readNumber(row, 'onhand', 'available') ?? 0,
+    unitCost: readNumber(row, 'costperitem', 'unitcost', 'cost'),
+  }),
+  'shopify-sales': (row) => ({
+    sku: read(row, 'productvariantsku'),
+    title: read(row, 'producttitle'),
+    category: read(row, 'producttype'),
+    unitsSold: readNumber(row, 'netquantity', 'netitemssold', 'quantity') ?? 0,
+    netSales: readNumber(row, 'netsales'),
+    costOfGoodsSold: readNumber(row, 'costofgoodssold', 'cost'),
+  }),
+  'woocommerce-sales': (row) => ({
+    sku: read(row, 'sku'),
+    title: read(row, 'producttitle'),
+    category: firstCategory(read(row, 'category')),
+    unitsSold: readNumber(row, 'itemssold') ?? 0,
+    netSales: readNumber(row, 'nrevenue', 'netrevenue', 'netsales'),
+    costOfGoodsSold: readNumber(row, 'costofgoodssold', 'cogs'),
+  }),
+  'woocommerce-products': (row) => ({
+    sku: read(row, 'sku'),
+    title: read(row, 'name'),
+    category: firstCategory(read(row, 'categories')),
+    quantity: readNumber(row, 'stock') ?? 0,
+    unitCost: readNumber(row, 'metawccogcost', 'costofgoods', 'cost'),
+  }),
+};
+
+/**
+ * Recognises a Shopify or WooCommerce CSV export from its headers and reads it into
+ * inventory or sales lines. Throws when the layout is not one of the known exports.
+ */
+export const parsePlatformReport = (text: string): PlatformReport => {
+  const [headers, ...rows] = parseCsv(text);
+  const adapter = headers ? detectPlatformAdapter(headers) : undefined;
+  if (!adapter) {
+    throw new Error('This is not a recognised Shopify or WooCommerce export');
+  }
+
+  const keys = headers.map(normaliseHeader);
+  const issues: ImportIssue[] = [];
+  const lines: (InventoryLine | SalesLine)[] = [];
+  let previous: PlatformRow | undefined;
+
+  rows.forEach((cells, index) => {
+    const row: PlatformRow = Object.fromEntries(keys.map((key, column) => [key, cells[column] ?? '']));
+    const { fillDown } = adapter;
+    if (fillDown && previous && previous[fillDown.key] === row[fillDown.key]) {
+      for (const column of fillDown.columns) {
+        if (!row[column]?.trim()) row[column] = previous[column] ?? '';
+      }
+    }
+    previous = row;
+    const line = READERS[adapter.id](row);
+    const rowNumber = index + 2;
+
+    if (line.sku === '') {
+      // Products without variants or stock tracking often have no SKU; they cannot be matched across files.
+      issues.push({ row: rowNumber, item: line.title || undefined, severity: 'warning', message: 'Has no SKU and was left out' });
+      return;
+    }
+    const invalid = Object.entries(line).find(([, value]) => typeof value === 'number' && Number.isNaN(value));
+    if (invalid) {
+      issues.push({ row: rowNumber, item: line.sku, severity: 'error', message: `${LINE_FIELD_LABELS[invalid[0]]} is not a number` });
+      return;
+    }
+    lines.push(line);
+  });
+
+  return adapter.kind === 'inventory'
+    ? { adapter: adapter.id, kind: 'inventory', lines: lines as InventoryLine[], issues }
+    : { adapter: adapter.id, kind: 'sales', lines: lines as SalesLine[], issues };
+};
+
+/** Sums lines per SKU; inventory exports list a SKU once per location. */
+const groupBySku = <T extends { sku: string }>(lines: T[], merge: (a: T, b: T) => T): Map<string, T> => {
+  const grouped = new Map<string, T>();
+  for (const line of lines) {
+    const existing = grouped.get(line.sku);
+    grouped.set(line.sku, existing ? merge(existing, line) : line);
+  }
+  return grouped;
+};
+
+const addNullable = (a: number | null, b: number | null): number | null => (a === null && b === null ? null : (a ?? 0) + (b ?? 0));
+
+const groupInventory = (lines: InventoryLine[] | undefined) =>
+  groupBySku(lines ?? [], (a, b) => ({ ...a, quantity: a.quantity + b.quantity, unitCost: a.unitCost ?? b.unitCost }));
+
+const groupSales = (lines: SalesLine[] | undefined) =>
+  groupBySku(lines ?? [], (a, b) => ({
+    ...a,
+    unitsSold: a.unitsSold + b.unitsSold,
+    netSales: addNullable(a.netSales, b.netSales),
+    costOfGoodsSold: addNullable(a.costOfGoodsSold, b.costOfGoodsSold),
+  }));
+
+export interface PlatformReportSet {
+  opening?: InventoryLine[];
+  closing: InventoryLine[];
+  sales: SalesLine[];
+  /** A product export used only to look up unit costs, e.g. when the snapshots carry none. */
+  costs?: InventoryLine[];
+}
+
+/**
+ * Joins opening and closing inventory with the sales report into SKU records. Stock is
+ * valued at each SKU's unit cost, looked up from the inventory exports, then the cost list,
+ * then the sales report's COGS per unit; sales without COGS are costed the same way.
+ * Without an opening snapshot, closing stock stands in for it.
+ */
+export const combinePlatformReports = (reports: PlatformReportSet): SkuImportResult => {
+  const opening = groupInventory(reports.opening);
+  const closing = groupInventory(reports.closing);
+  const sales = groupSales(reports.sales);
+  const costs = groupInventory(reports.costs);
+  const skus = Array.from(new Set([...opening.keys(), ...closing.keys(), ...sales.keys()]));
+
+  const records: SkuRecord[] = [];
+  const issues: ImportIssue[] = [];
+  let skippedRows = 0;
+
+  skus.forEach((sku, index) => {
+    const openingLine = opening.get(sku);
+    const closingLine = closing.get(sku);
+    const salesLine = sales.get(sku);
+    const report = (severity: ImportIssue['severity'], message: string) =>
+      issues.push({ row: index + 1, item: sku, severity, message });
+
+    const unitsSold = salesLine?.unitsSold ?? 0;
+    const reportedCost = salesLine?.costOfGoodsSold ?? null;
+    const unitCost =
+      closingLine?.unitCost ??
+      openingLine?.unitCost ??
+      costs.get(sku)?.unitCost ??
+      (reportedCost !== null && unitsSold > 0 ? reportedCost / unitsSold : null);
+
+    const closingUnits = closingLine?.quantity ?? 0;
+    const openingUnits = reports.opening ? openingLine?.quantity ?? 0 : closingUnits;
+    const needsCost = openingUnits !== 0 || closingUnits !== 0 || (reportedCost === null && unitsSold !== 0);
+    if (unitCost === null && needsCost) {
+      report('error', 'No unit cost in the inventory exports, cost list or sales report');
+      skippedRows += 1;
+      return;
+    }
+    if (!closingLine && closingUnits === 0 && unitsSold > 0) {
+      report('warning', 'Sold in the period but missing from the closing inventory; closing stock taken as zero');
+    }
+
+    const cost = unitCost ?? 0;
+    records.push({
+      sku,
+      category: salesLine?.category || closingLine?.category || openingLine?.category || UNCATEGORISED,
+      unitsSold,
+      costOfGoodsSold: reportedCost ?? unitsSold * cost,
+      openingStockValue: openingUnits * cost,
+      closingStockValue: closingUnits * cost,
+      openingUnits,
+      closingUnits,
+      netSales: salesLine?.netSales ?? undefined,
+    });
+  });
+
+  if (!reports.opening) {
+    issues.unshift({
+      row: 0,
+      item: 'Opening inventory',
+      severity: 'warning',
+      message: 'No opening snapshot was given, so closing stock is used for both ends of the period',
+    });
+  }
+
+  return { records, issues, skippedRows };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildQualityReport, checkImportQuality, MIN_OUTLIER_SAMPLE } from './quality';
+import { UNCATEGORISED, type SkuRecord } from './sku';
+
+const record = (sku: string, changes: Partial<SkuRecord> = {}): SkuRecord => ({
+  sku,
+  category: 'Shirts',
+  unitsSold: 10,
+  costOfGoodsSold: 1000,
+  openingStockValue: 500,
+  closingStockValue: 500,
+  ...changes,
+});
+
+const checks = (records: SkuRecord[], excluded?: ReadonlySet<number>) =>
+  checkImportQuality(records, excluded).map((finding) => [finding.index, finding.check, finding.severity]);
+
+describe('checkImportQuality', () => {
+  it('finds nothing in clean records', () => {
+    expect(checkImportQuality([record('A'), record('B')])).toEqual([]);
+  });
+
+  it('flags each kind of problem against the record it is in', () => {
+    expect(
+      checks([
+        record('A', { closingStockValue: -10, costOfGoodsSold: -5 }),
+        record('B', { closingStockValue: 10000 }),
+        record('C', { costOfGoodsSold: 0 }),
+        record(' a '),
+        record('E', { category: UNCATEGORISED }),
+      ])
+    ).toEqual([
+      [0, 'negative-value', 'error'],
+      [1, 'implausible-closing', 'warning'],
+      [2, 'zero-cogs', 'warning'],
+      [3, 'duplicate-sku', 'warning'],
+      [4, 'missing-category', 'warning'],
+    ]);
+  });
+
+  it('names every negative field in one finding', () => {
+    const [finding] = checkImportQuality([record('A', { closingStockValue: -10, costOfGoodsSold: -5 })]);
+    expect(finding.message).toBe('Negative closing stock and COGS');
+  });
+
+  it('flags turnover outliers once there are enough items to compare', () => {
+    const typical = Array.from({ length: MIN_OUTLIER_SAMPLE + 5 }, (_, index) => record(`S${index}`));
+    const outlier = record('FAST', { costOfGoodsSold: 50000 });
+    expect(checks([...typical, outlier]).filter(([, check]) => check === 'outlier')).toEqual([[typical.length, 'outlier', 'warning']]);
+    expect(checks([...typical.slice(0, 3), outlier])).toEqual([]);
+  });
+
+  it('skips excluded records, including for the duplicate check', () => {
+    expect(checks([record('A', { costOfGoodsSold: 0 }), record('A')], new Set([0]))).toEqual([]);
+  });
+});
+
+describe('buildQualityReport', () => {
+  it('records whether each finding was corrected, excluded or kept', () => {
+    const imported = [record('A', { costOfGoodsSold: 0 }), record('B', { category: '' }), record('C', { openingStockValue: -1 })];
+    const reviewed = [record('A'), record('B', { category: '' }), imported[2]];
+    const report = buildQualityReport(imported, reviewed, new Set([2]));
+    expect(report.checkedRecords).toBe(3);
+    expect(report.includedRecords).toBe(2);
+    expect(report.findings.map((finding) => [finding.sku, finding.check, finding.resolution])).toEqual([
+      ['A', 'zero-cogs', 'corrected'],
+      ['B', 'missing-category', 'kept'],
+      ['C', 'negative-value', 'excluded'],
+    ]);
+  });
+
+  it('lists problems introduced by edits as kept', () => {
+    const report = buildQualityReport([record('A')], [record('A', { costOfGoodsSold: 0 })], new Set());
+    expect(report.findings).toMatchObject([{ check: 'zero-cogs', resolution: 'kept' }]);
+  });
+});
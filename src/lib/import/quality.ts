@@ -0,0 +1,158 @@
+import { UNCATEGORISED, type ImportIssueSeverity, type SkuRecord } from './sku';
+
+export type QualityCheck =
+  | 'negative-value'
+  | 'implausible-closing'
+  | 'zero-cogs'
+  | 'duplicate-sku'
+  | 'missing-category'
+  | 'outlier';
+
+export const QUALITY_CHECK_LABELS: Record<QualityCheck, string> = {
+  'negative-value': 'Negative values',
+  'implausible-closing': 'Implausible closing stock',
+  'zero-cogs': 'Zero COGS',
+  'duplicate-sku': 'Duplicate SKUs',
+  'missing-category': 'Missing categories',
+  'outlier': 'Turnover outliers',
+};
+
+/** Closing stock above this multiple of opening stock plus COGS implies purchases no store makes. */
+export const IMPLAUSIBLE_CLOSING_MULTIPLE = 3;
+
+/** Items whose turnover is this many standard deviations from the mean are flagged. */
+export const OUTLIER_Z_SCORE = 3;
+
+/** Below this many items a standard deviation says little, so outliers are not looked for. */
+export const MIN_OUTLIER_SAMPLE = 10;
+
+export interface QualityFinding {
+  /** Position of the record in the imported list. */
+  index: number;
+  sku: string;
+  check: QualityCheck;
+  severity: ImportIssueSeverity;
+  message: string;
+}
+
+/** COGS over average stock for the import's own period; 0 when there is no stock to turn. */
+const periodTurnover = (record: SkuRecord): number => {
+  const average = (record.openingStockValue + record.closingStockValue) / 2;
+  return average > 0 ? record.costOfGoodsSold / average : 0;
+};
+
+const findOutliers = (records: SkuRecord[], included: number[]): QualityFinding[] => {
+  const sample = included.filter((index) => periodTurnover(records[index]) > 0);
+  if (sample.length < MIN_OUTLIER_SAMPLE) return [];
+  const ratios = sample.map((index) => periodTurnover(records[index]));
+  const mean = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+  const deviation = Math.sqrt(ratios.reduce((sum, ratio) => sum + (ratio - mean) ** 2, 0) / ratios.length);
+  if (deviation === 0) return [];
+  return sample.flatMap((index, position) => {
+    const zScore = (ratios[position] - mean) / deviation;
+    if (Math.abs(zScore) < OUTLIER_Z_SCORE) return [];
+    return [{
+      index,
+      sku: records[index].sku,
+      check: 'outlier' as const,
+      severity: 'warning' as const,
+      message: `Turns ${ratios[position].toFixed(2)}× against a typical ${mean.toFixed(2)}× (${zScore > 0 ? '+' : ''}${zScore.toFixed(1)} standard deviations)`,
+    }];
+  });
+};
+
+/**
+ * Looks for imported items that would distort the turnover figures: negative values, closing
+ * stock out of proportion to the item's movement, no COGS, repeated SKUs, no category and
+ * turnover far from the rest. Excluded positions are skipped and leave the statistics alone.
+ */
+export const checkImportQuality = (records: SkuRecord[], excluded: ReadonlySet<number> = new Set()): QualityFinding[] => {
+  const findings: QualityFinding[] = [];
+  const seen = new Set<string>();
+  const included = records.map((_, index) => index).filter((index) => !excluded.has(index));
+
+  for (const index of included) {
+    const record = records[index];
+    const flag = (check: QualityCheck, severity: ImportIssueSeverity, message: string) =>
+      findings.push({ index, sku: record.sku, check, severity, message });
+
+    const negative = [
+      record.openingStockValue < 0 && 'opening stock',
+      record.closingStockValue < 0 && 'closing stock',
+      record.costOfGoodsSold < 0 && 'COGS',
+    ].filter(Boolean);
+    if (negative.length > 0) {
+      flag('negative-value', 'error', `Negative ${negative.join(' and ')}`);
+    }
+
+    const movement = record.openingStockValue + record.costOfGoodsSold;
+    if (movement > 0 && record.closingStockValue > movement * IMPLAUSIBLE_CLOSING_MULTIPLE) {
+      flag('implausible-closing', 'warning', `Closing stock is more than ${IMPLAUSIBLE_CLOSING_MULTIPLE}× opening stock plus COGS`);
+    }
+
+    if (record.costOfGoodsSold === 0) {
+      flag('zero-cogs', 'warning', 'No COGS, so this stock did not turn over at all');
+    }
+
+    const key = record.sku.trim().toLowerCase();
+    if (seen.has(key)) {
+      flag('duplicate-sku', 'warning', 'Repeats an earlier SKU; both rows are counted');
+    }
+    seen.add(key);
+
+    if (record.category.trim() === '' || record.category === UNCATEGORISED) {
+      flag('missing-category', 'warning', `No category; listed under ${UNCATEGORISED}`);
+    }
+  }
+
+  return [...findings, ...findOutliers(records, included)].sort((a, b) => a.index - b.index);
+};
+
+export type QualityResolution = 'kept' | 'corrected' | 'excluded';
+
+export interface ResolvedFinding extends QualityFinding {
+  resolution: QualityResolution;
+}
+
+/** What was found in an import and what the user did about it, for the report appendix. */
+export interface ImportQualityReport {
+  checkedRecords: number;
+  includedRecords: number;
+  findings: ResolvedFinding[];
+}
+
+const findingKey = (finding: QualityFinding): string => `${finding.index}:${finding.check}`;
+
+/**
+ * Compares the findings on the records as imported with those left after review. A finding
+ * is corrected when edits cleared it; findings that edits introduced are listed as kept.
+ */
+export const buildQualityReport = (
+  imported: SkuRecord[],
+  reviewed: SkuRecord[],
+  excluded: ReadonlySet<number>
+): ImportQualityReport => {
+  const remaining = checkImportQuality(reviewed, excluded);
+  const remainingKeys = new Set(remaining.map(findingKey));
+  const original = checkImportQuality(imported);
+  const originalKeys = new Set(original.map(findingKey));
+
+  const findings: ResolvedFinding[] = [
+    ...original.map((finding) => ({
+      ...finding,
+      sku: reviewed[finding.index].sku,
+      resolution: excluded.has(finding.index)
+        ? ('excluded' as const)
+        : remainingKeys.has(findingKey(finding))
+          ? ('kept' as const)
+          : ('corrected' as const),
+    })),
+    ...remaining.filter((finding) => !originalKeys.has(findingKey(finding))).map((finding) => ({ ...finding, resolution: 'kept' as const })),
+  ];
+
+  return {
+    checkedRecords: imported.length,
+    includedRecords: imported.length - excluded.size,
+    findings: findings.sort((a, b) => a.index - b.index),
+  };
+};
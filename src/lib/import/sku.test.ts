@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_PERIOD, DEFAULT_CALCULATOR_VALUES } from '@/lib/turnover';
+import { parseCsv } from './csv';
+import {
+  applySkuRecords,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  parseNumericCell,
+  summariseByCategory,
+  UNCATEGORISED,
+  validateSkuRows,
+} from './sku';
+
+const validate = (text: string) => {
+  const [headers, ...rows] = parseCsv(text);
+  return validateSkuRows(rows, guessColumnMapping(headers));
+};
+
+describe('parseNumericCell', () => {
+  it.each([
+    ['1,00,000', 100000],
+    ['₹ 2,500.50', 2500.5],
+    ['Rs. 300', 300],
+    ['(1,200)', -1200],
+    ['-', 0],
+    ['', null],
+    ['n/a', NaN],
+  ])('reads %j', (cell, value) => {
+    expect(parseNumericCell(cell)).toBe(value);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches headers whatever their case and punctuation', () => {
+    expect(guessColumnMapping(['Item Code', 'Dept', 'Qty Sold', 'Cost of Goods Sold', 'Opening Stock', 'Closing_Stock'])).toEqual({
+      sku: 0,
+      category: 1,
+      unitsSold: 2,
+      costOfGoodsSold: 3,
+      openingStockValue: 4,
+      closingStockValue: 5,
+    });
+  });
+
+  it('reports required fields that were not found', () => {
+    const missing = getMissingRequiredFields(guessColumnMapping(['SKU', 'COGS']));
+    expect(missing.map((definition) => definition.field)).toEqual(['openingStockValue', 'closingStockValue']);
+  });
+});
+
+describe('validateSkuRows', () => {
+  it('reads valid rows into records', () => {
+    const result = validate('SKU,Category,Units Sold,COGS,Opening,Closing\nA1,Shirts,10,"1,000",500,300\nA2,,5,400,200,100');
+    expect(result.issues).toEqual([]);
+    expect(result.records).toEqual([
+      { sku: 'A1', category: 'Shirts', unitsSold: 10, costOfGoodsSold: 1000, openingStockValue: 500, closingStockValue: 300 },
+      { sku: 'A2', category: UNCATEGORISED, unitsSold: 5, costOfGoodsSold: 400, openingStockValue: 200, closingStockValue: 100 },
+    ]);
+  });
+
+  it('skips rows with errors and keeps rows with warnings', () => {
+    const result = validate(
+      ['SKU,COGS,Opening,Closing', ',100,50,50', 'A1,lots,50,50', 'A2,100,,50', 'A3,-100,50,50', 'A3,100,50,50'].join('\n')
+    );
+    expect(result.skippedRows).toBe(3);
+    expect(result.records.map((record) => record.sku)).toEqual(['A3', 'A3']);
+    expect(result.issues.map((issue) => [issue.row, issue.severity, issue.message])).toEqual([
+      [2, 'error', 'SKU is blank'],
+      [3, 'error', 'COGS "lots" is not a number'],
+      [4, 'error', 'Opening Stock Value is blank'],
+      [5, 'warning', 'COGS is negative'],
+      [6, 'warning', 'SKU A3 appears more than once'],
+    ]);
+  });
+});
+
+describe('applySkuRecords', () => {
+  it('replaces the inputs with the SKU totals', () => {
+    const { records } = validate('SKU,Units Sold,COGS,Opening,Closing\nA1,10,1000,500,300\nA2,5,400,200,100');
+    expect(applySkuRecords(DEFAULT_CALCULATOR_VALUES, records)).toMatchObject({
+      costOfGoodsSoldSource: 'entered',
+      costOfGoodsSold: 1400,
+      beginningInventory: 700,
+      endingInventory: 400,
+      averageInventory: 550,
+      unitsSold: 15,
+      averageUnitsOnHand: DEFAULT_CALCULATOR_VALUES.averageUnitsOnHand,
+      netSales: DEFAULT_CALCULATOR_VALUES.netSales,
+    });
+  });
+});
+
+describe('summariseByCategory', () => {
+  it('groups blank categories as uncategorised, largest COGS first', () => {
+    const { records } = validate('SKU,Category,COGS,Opening,Closing\nA1,Shirts,100,50,50\nA2,,300,50,50\nA3, ,200,50,50');
+    expect(summariseByCategory(records, DEFAULT_ANALYSIS_PERIOD).map((group) => [group.category, group.skuCount])).toEqual([
+      [UNCATEGORISED, 2],
+      ['Shirts', 1],
+    ]);
+  });
+});
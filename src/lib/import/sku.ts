@@ -0,0 +1,259 @@
+import {
+  calculateTurnover,
+  DEFAULT_CALCULATOR_VALUES,
+  type AnalysisPeriod,
+  type CalculatorValues,
+  type TurnoverResult,
+} from '@/lib/turnover';
+import type { ImportQualityReport } from './quality';
+
+export type SkuField =
+  | 'sku'
+  | 'category'
+  | 'unitsSold'
+  | 'costOfGoodsSold'
+  | 'openingStockValue'
+  | 'closingStockValue';
+
+export interface SkuFieldDefinition {
+  field: SkuField;
+  label: string;
+  type: 'text' | 'number';
+  required: boolean;
+  /** Normalised header names that map to this field automatically. */
+  aliases: string[];
+}
+
+export const SKU_FIELDS: SkuFieldDefinition[] = [
+  { field: 'sku', label: 'SKU', type: 'text', required: true, aliases: ['sku', 'skucode', 'itemcode', 'item', 'productcode', 'barcode'] },
+  { field: 'category', label: 'Category', type: 'text', required: false, aliases: ['category', 'department', 'dept', 'group', 'itemgroup'] },
+  { field: 'unitsSold', label: 'Units Sold', type: 'number', required: false, aliases: ['unitssold', 'qtysold', 'quantitysold', 'units', 'qty'] },
+  { field: 'costOfGoodsSold', label: 'COGS', type: 'number', required: true, aliases: ['cogs', 'costofgoodssold', 'costofsales', 'cost'] },
+  { field: 'openingStockValue', label: 'Opening Stock Value', type: 'number', required: true, aliases: ['openingstockvalue', 'openingstock', 'opening', 'openingvalue', 'beginninginventory'] },
+  { field: 'closingStockValue', label: 'Closing Stock Value', type: 'number', required: true, aliases: ['closingstockvalue', 'closingstock', 'closing', 'closingvalue', 'endinginventory'] },
+];
+
+/** Column index for each field, or null when the field is not mapped. */
+export type ColumnMapping = Record<SkuField, number | null>;
+
+export interface SkuRecord {
+  sku: string;
+  category: string;
+  unitsSold: number;
+  costOfGoodsSold: number;
+  openingStockValue: number;
+  closingStockValue: number;
+  /** Stock counts, when the source has quantities as well as values. */
+  openingUnits?: number;
+  closingUnits?: number;
+  netSales?: number;
+}
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export interface ImportIssue {
+  /** 1-based line in the source file counting the header row, or entry number for XML sources. */
+  row: number;
+  /** Name of the entry, for sources where a line number means little to the user. */
+  item?: string;
+  field?: SkuField;
+  severity: ImportIssueSeverity;
+  message: string;
+}
+
+export interface SkuImportResult {
+  records: SkuRecord[];
+  issues: ImportIssue[];
+  /** Data rows dropped because of an error. */
+  skippedRows: number;
+}
+
+/** A validated file, kept so per-SKU results stay available after the totals are applied. */
+export interface SkuImport extends SkuImportResult {
+  fileName: string;
+  /** The data-quality review, when the import was checked before it was applied. */
+  quality?: ImportQualityReport;
+}
+
+export const UNCATEGORISED = 'Uncategorised';
+
+const normaliseHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalised = headers.map(normaliseHeader);
+  const mapping = {} as ColumnMapping;
+  for (const definition of SKU_FIELDS) {
+    const index = normalised.findIndex((header) => definition.aliases.includes(header));
+    mapping[definition.field] = index === -1 ? null : index;
+  }
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping): SkuFieldDefinition[] =>
+  SKU_FIELDS.filter((definition) => definition.required && mapping[definition.field] === null);
+
+/**
+ * Reads a number from a POS export or spreadsheet cell. Currency symbols, digit-group
+ * commas (1,00,000 as well as 100,000) and spaces are ignored, accounting-style brackets
+ * mean a negative value and a lone dash is zero.
+ * Returns null for blank cells and NaN for anything that is not a number.
+ */
+export const parseNumericCell = (cell: string): number | null => {
+  const trimmed = cell.trim();
+  if (trimmed === '') return null;
+  if (/^[-–—]$/.test(trimmed)) return 0;
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/^\(|\)$/g, '').replace(/₹|\$|rs\.?|inr|,|\s/gi, '');
+  const value = Number(cleaned);
+  if (cleaned === '' || !Number.isFinite(value)) return NaN;
+  return negative ? -value : value;
+};
+
+/**
+ * Validates data rows against the mapping and converts the usable ones to SKU records.
+ * `firstRowNumber` is the source line of `rows[0]`, used in issue messages; blank rows are ignored.
+ */
+export const validateSkuRows = (rows: string[][], mapping: ColumnMapping, firstRowNumber = 2): SkuImportResult => {
+  const records: SkuRecord[] = [];
+  const issues: ImportIssue[] = [];
+  const seen = new Set<string>();
+  let skippedRows = 0;
+
+  rows.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) return;
+    const row = firstRowNumber + index;
+    const read = (field: SkuField): string => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const rowIssues: ImportIssue[] = [];
+
+    const sku = read('sku');
+    if (sku === '') rowIssues.push({ row, field: 'sku', severity: 'error', message: 'SKU is blank' });
+
+    const numbers = {} as Record<SkuField, number>;
+    for (const definition of SKU_FIELDS.filter((item) => item.type === 'number')) {
+      const value = parseNumericCell(read(definition.field));
+      if (value === null) {
+        if (definition.required) {
+          rowIssues.push({ row, field: definition.field, severity: 'error', message: `${definition.label} is blank` });
+        }
+        numbers[definition.field] = 0;
+      } else if (Number.isNaN(value)) {
+        rowIssues.push({
+          row,
+          field: definition.field,
+          severity: 'error',
+          message: `${definition.label} "${read(definition.field)}" is not a number`,
+        });
+      } else {
+        if (value < 0) {
+          rowIssues.push({ row, field: definition.field, severity: 'warning', message: `${definition.label} is negative` });
+        }
+        numbers[definition.field] = value;
+      }
+    }
+
+    if (sku !== '' && seen.has(sku)) {
+      rowIssues.push({ row, field: 'sku', severity: 'warning', message: `SKU ${sku} appears more than once` });
+    }
+
+    issues.push(...rowIssues);
+    if (rowIssues.some((issue) => issue.severity === 'error')) {
+      skippedRows += 1;
+      return;
+    }
+    seen.add(sku);
+    records.push({
+      sku,
+      category: read('category') || UNCATEGORISED,
+      unitsSold: numbers.unitsSold,
+      costOfGoodsSold: numbers.costOfGoodsSold,
+      openingStockValue: numbers.openingStockValue,
+      closingStockValue: numbers.closingStockValue,
+    });
+  });
+
+  return { records, issues, skippedRows };
+};
+
+const sumOf = (records: SkuRecord[], field: 'unitsSold' | 'costOfGoodsSold' | 'openingStockValue' | 'closingStockValue') =>
+  records.reduce((sum, record) => sum + record[field], 0);
+
+/**
+ * Replaces the COGS, inventory and units inputs with the totals of the imported SKUs.
+ * Units on hand and net sales are only replaced when the source supplied them.
+ */
+export const applySkuRecords = (values: CalculatorValues, records: SkuRecord[]): CalculatorValues => {
+  const beginningInventory = sumOf(records, 'openingStockValue');
+  const endingInventory = sumOf(records, 'closingStockValue');
+  const hasUnits = records.some((record) => record.openingUnits !== undefined || record.closingUnits !== undefined);
+  const hasSales = records.some((record) => record.netSales !== undefined);
+  return {
+    ...values,
+    costOfGoodsSoldSource: 'entered',
+    costOfGoodsSold: sumOf(records, 'costOfGoodsSold'),
+    beginningInventory,
+    endingInventory,
+    averageInventory: (beginningInventory + endingInventory) / 2,
+    unitsSold: sumOf(records, 'unitsSold'),
+    averageUnitsOnHand: hasUnits
+      ? records.reduce((sum, record) => sum + ((record.openingUnits ?? 0) + (record.closingUnits ?? 0)) / 2, 0)
+      : values.averageUnitsOnHand,
+    netSales: hasSales ? records.reduce((sum, record) => sum + (record.netSales ?? 0), 0) : values.netSales,
+    inventorySnapshots: [],
+  };
+};
+
+const turnoverOf = (records: SkuRecord[], period: AnalysisPeriod): TurnoverResult =>
+  calculateTurnover(
+    {
+      ...DEFAULT_CALCULATOR_VALUES,
+      costOfGoodsSold: sumOf(records, 'costOfGoodsSold'),
+      beginningInventory: sumOf(records, 'openingStockValue'),
+      endingInventory: sumOf(records, 'closingStockValue'),
+    },
+    'cogs',
+    period
+  );
+
+export interface SkuTurnover {
+  record: SkuRecord;
+  turnover: TurnoverResult;
+  /** This SKU's share of total COGS, 0–1. */
+  cogsShare: number;
+}
+
+export interface CategoryTurnover {
+  category: string;
+  skuCount: number;
+  costOfGoodsSold: number;
+  turnover: TurnoverResult;
+}
+
+/** COGS-method turnover for each imported SKU, for drill-down below the totals. */
+export const calculateSkuTurnover = (records: SkuRecord[], period: AnalysisPeriod): SkuTurnover[] => {
+  const totalCogs = sumOf(records, 'costOfGoodsSold');
+  return records.map((record) => ({
+    record,
+    turnover: turnoverOf([record], period),
+    cogsShare: totalCogs > 0 ? record.costOfGoodsSold / totalCogs : 0,
+  }));
+};
+
+/** The record's category, with a blank one read as uncategorised. */
+export const getRecordCategory = (record: SkuRecord): string => record.category.trim() || UNCATEGORISED;
+
+export const summariseByCategory = (records: SkuRecord[], period: AnalysisPeriod): CategoryTurnover[] => {
+  const groups = new Map<string, SkuRecord[]>();
+  for (const record of records) {
+    const category = getRecordCategory(record);
+    groups.set(category, [...(groups.get(category) ?? []), record]);
+  }
+  return Array.from(groups, ([category, items]) => ({
+    category,
+    skuCount: items.length,
+    costOfGoodsSold: sumOf(items, 'costOfGoodsSold'),
+    turnover: turnoverOf(items, period),
+  })).sort((a, b) => b.costOfGoodsSold - a.costOfGoodsSold);
+};
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { decodeTallyFile, parseTallyAmount, parseTallyXml } from './tally';
+import { UNCATEGORISED } from './sku';
+
+const stockItems = (items: string) => `<ENVELOPE><BODY><DATA><TALLYMESSAGE>${items}</TALLYMESSAGE></DATA></BODY></ENVELOPE>`;
+
+const stockItem = (name: string, figures: string, parent = 'Shirts') =>
+  `<STOCKITEM NAME="${name}"><PARENT>${parent}</PARENT>${figures}</STOCKITEM>`;
+
+const summaryRow = (name: string, figures: string) =>
+  `<DSPACCNAME><DSPDISPNAME>${name}</DSPDISPNAME></DSPACCNAME><DSPSTKINFO>${figures}</DSPSTKINFO>`;
+
+describe('parseTallyAmount', () => {
+  it.each([
+    [undefined, null],
+    ['', 0],
+    ['-12,500.00', 12500],
+    ['12500.00 Dr', 12500],
+    ['abc', NaN],
+  ])('reads %j', (text, value) => {
+    expect(parseTallyAmount(text)).toBe(value);
+  });
+});
+
+describe('decodeTallyFile', () => {
+  it('decodes UTF-16 exports from the byte order mark', () => {
+    const text = '<ENVELOPE/>';
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    Array.from(text).forEach((char, index) => bytes.set([char.charCodeAt(0), 0], 2 + index * 2));
+    expect(decodeTallyFile(bytes.buffer)).toBe(text);
+  });
+});
+
+describe('parseTallyXml', () => {
+  it('reads a stock item export, taking COGS from consumption or from opening plus inwards less closing', () => {
+    const result = parseTallyXml(
+      stockItems(
+        stockItem('Blue Shirt', '<OPENINGVALUE>-1000</OPENINGVALUE><CLOSINGVALUE>-400</CLOSINGVALUE><CONSUMPTIONVALUE>900</CONSUMPTIONVALUE><OUTWARDQTY>9 Nos</OUTWARDQTY>') +
+          stockItem('Red Shirt', '<OPENINGVALUE>500</OPENINGVALUE><INWARDVALUE>300</INWARDVALUE><CLOSINGVALUE>200</CLOSINGVALUE>')
+      )
+    );
+    expect(result.format).toBe('stock-items');
+    expect(result.issues).toEqual([]);
+    expect(result.records).toEqual([
+      { sku: 'Blue Shirt', category: 'Shirts', unitsSold: 9, costOfGoodsSold: 900, openingStockValue: 1000, closingStockValue: 400 },
+      { sku: 'Red Shirt', category: 'Shirts', unitsSold: 0, costOfGoodsSold: 600, openingStockValue: 500, closingStockValue: 200 },
+    ]);
+  });
+
+  it('reads a stock summary report and strips control-character references', () => {
+    const result = parseTallyXml(
+      `<ENVELOPE>${summaryRow('Footwear&#4;', '<DSPOPAMTA>-2000</DSPOPAMTA><DSPINAMTA>1000</DSPINAMTA><DSPCLAMTA>-1500</DSPCLAMTA>')}</ENVELOPE>`
+    );
+    expect(result.format).toBe('stock-summary');
+    expect(result.records).toEqual([
+      { sku: 'Footwear', category: 'Footwear', unitsSold: 0, costOfGoodsSold: 1500, openingStockValue: 2000, closingStockValue: 1500 },
+    ]);
+  });
+
+  it('reports entries with a missing or unreadable closing value instead of throwing', () => {
+    const result = parseTallyXml(
+      stockItems(
+        stockItem('No Closing', '<OPENINGVALUE>100</OPENINGVALUE>') +
+          stockItem('Bad Closing', '<CLOSINGVALUE>lots</CLOSINGVALUE>') +
+          stockItem('Negative Closing', '<OPENINGVALUE>100</OPENINGVALUE><CLOSINGVALUE>-50 Dr</CLOSINGVALUE>', '')
+      )
+    );
+    expect(result.skippedRows).toBe(2);
+    expect(result.records).toEqual([
+      { sku: 'Negative Closing', category: UNCATEGORISED, unitsSold: 0, costOfGoodsSold: 0, openingStockValue: 100, closingStockValue: 50 },
+    ]);
+    expect(result.issues.map((issue) => [issue.row, issue.item, issue.severity, issue.message])).toEqual([
+      [1, 'No Closing', 'error', 'No closing value'],
+      [2, 'Bad Closing', 'error', 'Contains a value that is not a number'],
+      [3, 'Negative Closing', 'warning', 'No consumption or inward value, so COGS is taken as zero'],
+      [3, 'Negative Closing', 'warning', `Has no stock group; listed under ${UNCATEGORISED}`],
+    ]);
+  });
+
+  it('warns when closing stock is more than opening plus inwards', () => {
+    const result = parseTallyXml(stockItems(stockItem('Odd', '<OPENINGVALUE>100</OPENINGVALUE><INWARDVALUE>0</INWARDVALUE><CLOSINGVALUE>300</CLOSINGVALUE>')));
+    expect(result.records[0].costOfGoodsSold).toBe(-200);
+    expect(result.issues[0].message).toBe('Closing value is higher than opening plus inwards; COGS comes out negative');
+  });
+
+  it('leaves out items with no stock and no movement', () => {
+    const result = parseTallyXml(stockItems(stockItem('Idle', '<CLOSINGVALUE></CLOSINGVALUE><CONSUMPTIONVALUE/>')));
+    expect(result.records).toEqual([]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('throws when the file is not a Tally export', () => {
+    expect(() => parseTallyXml('<ENVELOPE>')).toThrow('The file is not valid XML');
+    expect(() => parseTallyXml('<ENVELOPE><BODY/></ENVELOPE>')).toThrow('No stock items or stock summary rows were found');
+  });
+});
@@ -0,0 +1,179 @@
+import { parseNumericCell, UNCATEGORISED, type ImportIssue, type SkuImportResult, type SkuRecord } from './sku';
+
+/** Masters export of stock items, or the Stock Summary report exported as XML. */
+export type TallyExportFormat = 'stock-items' | 'stock-summary';
+
+export interface TallyImportResult extends SkuImportResult {
+  format: TallyExportFormat;
+}
+
+export const TALLY_FORMAT_LABELS: Record<TallyExportFormat, string> = {
+  'stock-items': 'Stock Item export',
+  'stock-summary': 'Stock Summary report',
+};
+
+// Tag names differ between the Stock Summary report and stock item exports, so each value has a few candidates.
+const OPENING_TAGS = ['DSPOPAMTA', 'OPENINGVALUE'];
+const INWARD_TAGS = ['DSPINAMTA', 'INWARDVALUE'];
+const CLOSING_TAGS = ['DSPCLAMTA', 'CLOSINGVALUE'];
+const CONSUMPTION_TAGS = ['DSPCONSAMTA', 'CONSUMPTIONVALUE'];
+const OUTWARD_QUANTITY_TAGS = ['DSPOUTQTY', 'OUTWARDQTY'];
+
+/** Tally writes XML as UTF-16 by default; pick the decoder from the byte order mark. */
+export const decodeTallyFile = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const encoding =
+    bytes[0] === 0xff && bytes[1] === 0xfe ? 'utf-16le' : bytes[0] === 0xfe && bytes[1] === 0xff ? 'utf-16be' : 'utf-8';
+  return new TextDecoder(encoding).decode(buffer);
+};
+
+/** Removes control-character references such as `&#4;` that Tally emits but XML 1.0 forbids. */
+const stripInvalidCharacterReferences = (xml: string): string =>
+  xml.replace(/&#(x[0-9a-f]+|\d+);/gi, (reference, code: string) => {
+    const value = code[0].toLowerCase() === 'x' ? parseInt(code.slice(1), 16) : parseInt(code, 10);
+    return value < 32 && value !== 9 && value !== 10 && value !== 13 ? '' : reference;
+  });
+
+const findTag = (element: Element, tags: string[]): Element | undefined => {
+  for (const tag of tags) {
+    const found = element.getElementsByTagName(tag)[0];
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const tagText = (element: Element, tags: string[]): string | undefined => findTag(element, tags)?.textContent?.trim();
+
+/**
+ * Reads a Tally amount, or null when the tag is missing. Tally leaves zero amounts blank, and
+ * stock values are signed by Dr/Cr convention (closing stock is a debit, often written as a
+ * negative number), so only the magnitude is kept.
+ */
+export const parseTallyAmount = (text: string | undefined): number | null => {
+  if (text === undefined) return null;
+  const value = parseNumericCell(text.replace(/\b(dr|cr)\b\.?/gi, ''));
+  return value === null ? 0 : Math.abs(value);
+};
+
+/** Reads the number at the start of a quantity such as "1,250 Nos". */
+const parseTallyQuantity = (text: string | undefined): number => {
+  const match = text?.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? Math.abs(Number(match[0])) : 0;
+};
+
+interface TallyEntry {
+  name: string;
+  group: string;
+  element: Element;
+}
+
+const readStockItems = (doc: Document): TallyEntry[] =>
+  Array.from(doc.getElementsByTagName('STOCKITEM')).map((element) => ({
+    name: element.getAttribute('NAME')?.trim() || tagText(element, ['NAME']) || '',
+    group: tagText(element, ['PARENT']) ?? '',
+    element,
+  }));
+
+// The report lists each row as a DSPACCNAME followed by its DSPSTKINFO figures.
+const readStockSummary = (doc: Document): TallyEntry[] =>
+  Array.from(doc.getElementsByTagName('DSPACCNAME')).flatMap((nameElement) => {
+    const info = nameElement.nextElementSibling;
+    if (!info || info.tagName !== 'DSPSTKINFO') return [];
+    const name = tagText(nameElement, ['DSPDISPNAME']) ?? '';
+    return [{ name, group: name, element: info }];
+  });
+
+const toRecord = (
+  entry: TallyEntry,
+  row: number,
+  format: TallyExportFormat,
+  issues: ImportIssue[]
+): SkuRecord | null => {
+  const item = entry.name || `Entry ${row}`;
+  const report = (severity: ImportIssue['severity'], message: string) => issues.push({ row, item, severity, message });
+
+  if (entry.name === '') {
+    report('error', 'Entry has no name');
+    return null;
+  }
+
+  const opening = parseTallyAmount(tagText(entry.element, OPENING_TAGS));
+  const closing = parseTallyAmount(tagText(entry.element, CLOSING_TAGS));
+  const consumption = parseTallyAmount(tagText(entry.element, CONSUMPTION_TAGS));
+  const inwardTag = findTag(entry.element, INWARD_TAGS);
+  const inwards = parseTallyAmount(inwardTag?.textContent?.trim());
+
+  if (closing === null) {
+    report('error', 'No closing value');
+    return null;
+  }
+  if ([opening, closing, consumption, inwards].some((value) => value !== null && Number.isNaN(value))) {
+    report('error', 'Contains a value that is not a number');
+    return null;
+  }
+
+  let costOfGoodsSold = 0;
+  let costWarning: string | undefined;
+  if (consumption !== null) {
+    costOfGoodsSold = consumption;
+  } else if (inwardTag) {
+    // Consumption at cost = Opening + Inwards − Closing, as Tally itself works it out.
+    costOfGoodsSold = (opening ?? 0) + (inwards ?? 0) - closing;
+    if (costOfGoodsSold < 0) costWarning = 'Closing value is higher than opening plus inwards; COGS comes out negative';
+  } else {
+    costWarning = 'No consumption or inward value, so COGS is taken as zero';
+  }
+
+  // Items with no stock and no movement add nothing but noise to the breakdown.
+  if ((opening ?? 0) === 0 && closing === 0 && costOfGoodsSold === 0) return null;
+
+  if (costWarning) report('warning', costWarning);
+
+  if (format === 'stock-items' && entry.group === '') {
+    report('warning', `Has no stock group; listed under ${UNCATEGORISED}`);
+  }
+
+  return {
+    sku: entry.name,
+    category: entry.group || UNCATEGORISED,
+    unitsSold: parseTallyQuantity(tagText(entry.element, OUTWARD_QUANTITY_TAGS)),
+    costOfGoodsSold,
+    openingStockValue: opening ?? 0,
+    closingStockValue: closing,
+  };
+};
+
+/**
+ * Parses a Tally Stock Summary or Stock Item XML export into stock records grouped by
+ * stock group. Entries that cannot be read are left out and listed in `issues`.
+ * Throws when the text is not XML or contains neither format.
+ */
+export const parseTallyXml = (xml: string): TallyImportResult => {
+  const doc = new DOMParser().parseFromString(stripInvalidCharacterReferences(xml), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+
+  const stockItems = readStockItems(doc);
+  const format: TallyExportFormat = stockItems.length > 0 ? 'stock-items' : 'stock-summary';
+  const entries = format === 'stock-items' ? stockItems : readStockSummary(doc);
+  if (entries.length === 0) {
+    throw new Error('No stock items or stock summary rows were found');
+  }
+
+  const issues: ImportIssue[] = [];
+  const records: SkuRecord[] = [];
+  let skippedRows = 0;
+  entries.forEach((entry, index) => {
+    const entryIssues: ImportIssue[] = [];
+    const record = toRecord(entry, index + 1, format, entryIssues);
+    issues.push(...entryIssues);
+    if (record) {
+      records.push(record);
+    } else if (entryIssues.some((issue) => issue.severity === 'error')) {
+      skippedRows += 1;
+    }
+  });
+
+  return { format, records, issues, skippedRows };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { loadExcelJs } from '@/lib/exceljs';
+import { detectHeaderRow, readWorkbook } from './xlsx';
+
+describe('readWorkbook', () => {
+  it('reads every sheet as text, using cached results for formulas', async () => {
+    const { Workbook } = await loadExcelJs();
+    const workbook = new Workbook();
+    const stock = workbook.addWorksheet('Stock');
+    stock.addRow(['Stock Summary']);
+    stock.addRow([]);
+    stock.addRow(['SKU', 'Closing', 'As of']);
+    stock.addRow([' TEE-S ', 1200, new Date(Date.UTC(2024, 2, 31))]);
+    stock.getCell('B5').value = { formula: 'B4*2', result: 2400 };
+    stock.getCell('A5').value = { richText: [{ text: 'TEE-' }, { text: 'M' }] };
+    workbook.addWorksheet('Notes').addRow(['Checked']);
+
+    const tables = await readWorkbook((await workbook.xlsx.writeBuffer()) as ArrayBuffer);
+    expect(tables).toEqual([
+      {
+        name: 'Stock',
+        rows: [
+          ['Stock Summary', '', ''],
+          ['', '', ''],
+          ['SKU', 'Closing', 'As of'],
+          ['TEE-S', '1200', '2024-03-31'],
+          ['TEE-M', '2400', ''],
+        ],
+      },
+      { name: 'Notes', rows: [['Checked']] },
+    ]);
+  });
+
+  it('rejects a file that is not a workbook', async () => {
+    await expect(readWorkbook(new TextEncoder().encode('SKU,Closing').buffer)).rejects.toThrow();
+  });
+});
+
+describe('detectHeaderRow', () => {
+  it('skips a title block above the table', () => {
+    expect(detectHeaderRow([['Stock Summary', ''], ['', ''], ['SKU', 'Closing'], ['TEE-S', '1,200']])).toBe(2);
+  });
+
+  it('falls back to the first row when no row looks like headings', () => {
+    expect(detectHeaderRow([['1', '2'], ['3', '4']])).toBe(0);
+  });
+});
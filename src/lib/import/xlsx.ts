@@ -0,0 +1,52 @@
+import type { CellValue } from 'exceljs';
+import { loadExcelJs } from '@/lib/exceljs';
+
+/** One worksheet as rows of cell text, keeping blank rows so indexes match the sheet's row numbers. */
+export interface WorksheetTable {
+  name: string;
+  rows: string[][];
+}
+
+const cellToText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('result' in value) return value.result === undefined ? '' : cellToText(value.result as CellValue);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('text' in value) return String(value.text);
+  if ('error' in value) return String(value.error);
+  return '';
+};
+
+/** Reads every worksheet of an .xlsx file. Formula cells contribute their cached results. */
+export const readWorkbook = async (data: ArrayBuffer): Promise<WorksheetTable[]> => {
+  const { Workbook } = await loadExcelJs();
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets.map((worksheet) => {
+    const rows: string[][] = [];
+    for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber += 1) {
+      const row = worksheet.getRow(rowNumber);
+      const cells: string[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column += 1) {
+        cells.push(cellToText(row.getCell(column).value).trim());
+      }
+      rows.push(cells);
+    }
+    return { name: worksheet.name, rows };
+  });
+};
+
+/**
+ * Guesses the header row: the first row with at least two filled cells that are
+ * mostly text. Finance workbooks often start with a title block above the table.
+ */
+export const detectHeaderRow = (rows: string[][]): number => {
+  const index = rows.findIndex((cells) => {
+    const filled = cells.filter((cell) => cell !== '');
+    const textCells = filled.filter((cell) => Number.isNaN(Number(cell.replace(/,/g, ''))));
+    return filled.length >= 2 && textCells.length > filled.length / 2;
+  });
+  return index === -1 ? 0 : index;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_PERIOD, DEFAULT_CALCULATOR_VALUES } from '@/lib/turnover';
+import type { CalculatorState } from '@/lib/storage';
+import { buildShareUrl, decodeShareState, encodeShareState, SHARE_PARAM } from './share';
+
+const INVALID_LINK = 'This link is incomplete or was not made by the calculator';
+
+const STATE: CalculatorState = {
+  values: { ...DEFAULT_CALCULATOR_VALUES, costOfGoodsSold: 750000, costOfGoodsSoldSource: 'derived', inventorySnapshots: [100, 200, 300] },
+  method: 'average',
+  period: { type: 'custom', startDate: '2024-04-01', endDate: '2024-06-30' },
+  benchmarkName: 'Grocery',
+};
+
+// Packs any payload the way `encodeShareState` does, to stand in for a hand-made link.
+const encodePayload = async (payload: unknown): Promise<string> => {
+  const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+describe('share links', () => {
+  it('round-trips the calculator state', async () => {
+    const encoded = await encodeShareState(STATE);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeShareState(encoded)).toEqual(STATE);
+  });
+
+  it('leaves default inputs out of the link', async () => {
+    const short = await encodeShareState({ ...STATE, values: DEFAULT_CALCULATOR_VALUES });
+    expect(short.length).toBeLessThan((await encodeShareState(STATE)).length);
+    expect((await decodeShareState(short)).values).toEqual(DEFAULT_CALCULATOR_VALUES);
+  });
+
+  it.each([
+    ['bad base64', '!!!'],
+    ['a corrupt deflate stream', 'aGVsbG8gd29ybGQ'],
+  ])('rejects %s', async (_, encoded) => {
+    await expect(decodeShareState(encoded)).rejects.toThrow(INVALID_LINK);
+  });
+
+  it('rejects a payload from another version', async () => {
+    await expect(decodeShareState(await encodePayload({ version: 2, method: 'cogs' }))).rejects.toThrow(INVALID_LINK);
+    await expect(decodeShareState(await encodePayload('text'))).rejects.toThrow(INVALID_LINK);
+  });
+
+  it('falls back to defaults for an unknown method or period', async () => {
+    const state = await decodeShareState(await encodePayload({ version: 1, method: 'velocity', period: { type: 'decade' } }));
+    expect(state.method).toBe('cogs');
+    expect(state.period).toEqual(DEFAULT_ANALYSIS_PERIOD);
+    expect(state.benchmarkName).toBe('General Retail');
+  });
+
+  it('ignores inherited keys and values of the wrong kind', async () => {
+    const state = await decodeShareState(
+      await encodePayload({
+        version: 1,
+        method: 'constructor',
+        period: { type: 'toString' },
+        values: { constructor: 1, ['__proto__']: { costOfGoodsSold: 5 }, netSales: 'lots', costOfGoodsSoldSource: 'guessed', inventorySnapshots: [1, 'x'] },
+      })
+    );
+    expect(state.method).toBe('cogs');
+    expect(state.period).toEqual(DEFAULT_ANALYSIS_PERIOD);
+    expect(state.values).toEqual({ ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [] });
+    expect(Object.keys(state.values)).not.toContain('constructor');
+  });
+});
+
+describe('buildShareUrl', () => {
+  it('keeps the page path and replaces the query and hash', async () => {
+    const url = new URL(await buildShareUrl(STATE, 'https://example.com/tools/turnover/?tab=history#results'));
+    expect(url.origin + url.pathname).toBe('https://example.com/tools/turnover/');
+    expect([...url.searchParams.keys()]).toEqual([SHARE_PARAM]);
+    expect(url.hash).toBe('');
+    expect(await decodeShareState(url.searchParams.get(SHARE_PARAM) ?? '')).toMatchObject({ method: 'average' });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  ANALYSIS_PERIOD_OPTIONS,
+  DEFAULT_ANALYSIS_PERIOD,
+  DEFAULT_CALCULATOR_VALUES,
+  findBenchmark,
+  METHOD_DEFINITIONS,
+  type AnalysisPeriod,
+  type CalculationMethod,
+  type CalculatorValues,
+} from '@/lib/turnover';
+import type { CalculatorState } from '@/lib/storage';
+
+/** Query parameter on the calculator page that carries a shared calculation. */
+export const SHARE_PARAM = 'calc';
+const SHARE_VERSION = 1;
+
+interface SharePayload {
+  version: number;
+  /** Only the inputs that differ from the defaults, to keep links short. */
+  values: Partial<CalculatorValues>;
+  method: CalculationMethod;
+  period: AnalysisPeriod;
+  benchmark: string;
+}
+
+const INVALID_LINK = 'This link is incomplete or was not made by the calculator';
+
+// Explicit lists rather than `in`, which would also accept inherited keys such as "constructor".
+const METHODS = Object.keys(METHOD_DEFINITIONS) as CalculationMethod[];
+const VALUE_KEYS = Object.keys(DEFAULT_CALCULATOR_VALUES) as (keyof CalculatorValues)[];
+
+const VALUE_OPTIONS: Partial<Record<keyof CalculatorValues, string[]>> = {
+  costOfGoodsSoldSource: ['entered', 'derived'],
+  grossMarginSource: ['cogs', 'entered'],
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+
+const pipe = (data: BlobPart, transform: CompressionStream | DecompressionStream): Response =>
+  new Response(new Blob([data]).stream().pipeThrough(transform));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Keeps only inputs the calculator knows, with values of the right kind; the rest fall back to defaults.
+const readValues = (shared: unknown): CalculatorValues => {
+  const values: CalculatorValues = { ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [] };
+  if (typeof shared !== 'object' || shared === null) return values;
+  for (const [key, value] of Object.entries(shared)) {
+    const field = VALUE_KEYS.find((valueKey) => valueKey === key);
+    if (!field) continue;
+    const options = VALUE_OPTIONS[field];
+    if (options) {
+      if (typeof value === 'string' && options.includes(value)) Object.assign(values, { [field]: value });
+    } else if (field === 'inventorySnapshots') {
+      if (Array.isArray(value) && value.every(isFiniteNumber)) values.inventorySnapshots = value;
+    } else if (isFiniteNumber(value)) {
+      Object.assign(values, { [field]: value });
+    }
+  }
+  return values;
+};
+
+const readPeriod = (shared: Partial<AnalysisPeriod> | undefined): AnalysisPeriod => {
+  const type = shared?.type;
+  if (!type || !ANALYSIS_PERIOD_OPTIONS.some((option) => option.type === type)) return DEFAULT_ANALYSIS_PERIOD;
+  return type === 'custom'
+    ? { type, startDate: String(shared.startDate ?? ''), endDate: String(shared.endDate ?? '') }
+    : { type };
+};
+
+/** Packs the calculator state into a compact, URL-safe string. */
+export const encodeShareState = async (state: CalculatorState): Promise<string> => {
+  const values = Object.fromEntries(
+    Object.entries(state.values).filter(
+      ([key, value]) => JSON.stringify(value) !== JSON.stringify(DEFAULT_CALCULATOR_VALUES[key as keyof CalculatorValues])
+    )
+  );
+  const payload: SharePayload = {
+    version: SHARE_VERSION,
+    values,
+    method: state.method,
+    period: state.period,
+    benchmark: state.benchmarkName,
+  };
+  const compressed = await pipe(JSON.stringify(payload), new CompressionStream('deflate-raw')).arrayBuffer();
+  return toBase64Url(new Uint8Array(compressed));
+};
+
+/** Reads a string made by `encodeShareState`. Throws when it is damaged or not a shared calculation. */
+export const decodeShareState = async (encoded: string): Promise<CalculatorState> => {
+  let payload: Partial<SharePayload>;
+  try {
+    payload = JSON.parse(await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw')).text());
+  } catch {
+    throw new Error(INVALID_LINK);
+  }
+  if (typeof payload !== 'object' || payload === null || payload.version !== SHARE_VERSION) {
+    throw new Error(INVALID_LINK);
+  }
+  return {
+    values: readValues(payload.values),
+    method: METHODS.find((method) => method === payload.method) ?? 'cogs',
+    period: readPeriod(payload.period),
+    benchmarkName: findBenchmark(String(payload.benchmark ?? '')).name,
+  };
+};
+
+/**
+ * A link to the calculator page at `href` that opens with this state. The path is kept so links
+ * work when the app is served under a sub-path; other query parameters and the hash are dropped.
+ */
+export const buildShareUrl = async (state: CalculatorState, href: string = window.location.href): Promise<string> => {
+  const url = new URL(href);
+  url.search = new URLSearchParams({ [SHARE_PARAM]: await encodeShareState(state) }).toString();
+  url.hash = '';
+  return url.toString();
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_PERIOD, DEFAULT_CALCULATOR_VALUES } from '@/lib/turnover';
+import { createSavedCalculation, getCalculationLabel, isSameCalculation, type CalculatorState } from './calculations';
+
+const STATE: CalculatorState = {
+  values: { ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [100, 200] },
+  method: 'units',
+  period: { type: 'quarter' },
+  benchmarkName: 'Apparel',
+};
+
+describe('getCalculationLabel', () => {
+  it('names the method and period', () => {
+    expect(getCalculationLabel(STATE)).toBe('Unit Turnover – Quarter');
+  });
+});
+
+describe('isSameCalculation', () => {
+  it('matches a saved copy of the same state', () => {
+    const saved = createSavedCalculation('w1', 'Q1', STATE, { ratio: 4, daysSalesOfInventory: 22 });
+    expect(isSameCalculation(saved, STATE)).toBe(true);
+    expect(isSameCalculation({ ...STATE, values: { ...STATE.values } }, STATE)).toBe(true);
+  });
+
+  it.each<[string, Partial<CalculatorState>]>([
+    ['an input', { values: { ...STATE.values, unitsSold: 1 } }],
+    ['a snapshot', { values: { ...STATE.values, inventorySnapshots: [100, 201] } }],
+    ['the method', { method: 'cogs' }],
+    ['the period', { period: DEFAULT_ANALYSIS_PERIOD }],
+    ['the benchmark', { benchmarkName: 'Grocery' }],
+  ])('tells states apart by %s', (_, changes) => {
+    expect(isSameCalculation({ ...STATE, ...changes }, STATE)).toBe(false);
+  });
+
+  it('compares custom periods by their dates', () => {
+    const custom = (endDate: string): CalculatorState => ({ ...STATE, period: { type: 'custom', startDate: '2024-04-01', endDate } });
+    expect(isSameCalculation(custom('2024-06-30'), custom('2024-06-30'))).toBe(true);
+    expect(isSameCalculation(custom('2024-06-30'), custom('2024-07-31'))).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  ANALYSIS_PERIOD_OPTIONS,
+  DEFAULT_ANALYSIS_PERIOD,
+  DEFAULT_CALCULATOR_VALUES,
+  DEFAULT_PERIOD_HISTORY,
+  findBenchmark,
+  getPeriodLabel,
+  METHOD_DEFINITIONS,
+  PERIODS_PER_YEAR,
+  type AnalysisPeriod,
+  type CalculationMethod,
+  type CalculatorValues,
+  type HistoryFrequency,
+  type PeriodHistory,
+  type PeriodRecord,
+  type Scenario,
+} from '@/lib/turnover';
+import { DEFAULT_WORKSPACE_ID, withStore } from './db';
+
+/** The inputs that fully determine a calculation and its results. */
+export interface CalculatorState {
+  values: CalculatorValues;
+  method: CalculationMethod;
+  period: AnalysisPeriod;
+  benchmarkName: string;
+}
+
+/** A calculation the user saved, with its headline results for the history list. */
+export interface SavedCalculation extends CalculatorState {
+  id: string;
+  workspaceId: string;
+  label: string;
+  /** ISO timestamp. */
+  savedAt: string;
+  ratio: number;
+  daysSalesOfInventory: number;
+}
+
+/** The working state restored when the page is opened again. */
+export interface CalculatorSession extends CalculatorState {
+  scenarios: Scenario[];
+  history: PeriodHistory;
+}
+
+// Explicit lists rather than `in`, which would also accept inherited keys such as "constructor".
+const METHODS = Object.keys(METHOD_DEFINITIONS) as CalculationMethod[];
+const VALUE_KEYS = Object.keys(DEFAULT_CALCULATOR_VALUES) as (keyof CalculatorValues)[];
+const HISTORY_FREQUENCIES = Object.keys(PERIODS_PER_YEAR) as HistoryFrequency[];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Records saved before an input was added lack it; defaults keep them loadable.
+const readStoredValues = (values: unknown): CalculatorValues => ({
+  ...DEFAULT_CALCULATOR_VALUES,
+  ...(isObject(values) ? values : {}),
+});
+
+const readStoredMethod = (method: unknown): CalculationMethod => METHODS.find((option) => option === method) ?? 'cogs';
+
+const readStoredPeriod = (period: unknown): AnalysisPeriod => {
+  if (!isObject(period)) return DEFAULT_ANALYSIS_PERIOD;
+  const type = ANALYSIS_PERIOD_OPTIONS.find((option) => option.type === period.type)?.type;
+  if (!type) return DEFAULT_ANALYSIS_PERIOD;
+  return type === 'custom'
+    ? { type, startDate: String(period.startDate ?? ''), endDate: String(period.endDate ?? '') }
+    : { type };
+};
+
+const readStoredHistory = (history: unknown): PeriodHistory => {
+  if (!isObject(history) || !Array.isArray(history.records)) return DEFAULT_PERIOD_HISTORY;
+  return {
+    frequency: HISTORY_FREQUENCIES.find((option) => option === history.frequency) ?? DEFAULT_PERIOD_HISTORY.frequency,
+    records: history.records
+      .filter(
+        (record): record is PeriodRecord =>
+          isObject(record) &&
+          typeof record.label === 'string' &&
+          isFiniteNumber(record.costOfGoodsSold) &&
+          isFiniteNumber(record.beginningInventory) &&
+          isFiniteNumber(record.endingInventory)
+      )
+      .map((record) => ({ ...record, id: typeof record.id === 'string' ? record.id : crypto.randomUUID() })),
+  };
+};
+
+/**
+ * Scenarios from a stored session or an imported file. Anything that is not a named scenario
+ * is dropped, and missing inputs take their defaults so the scenario engine never sees undefined.
+ */
+export const readStoredScenarios = (scenarios: unknown): Scenario[] =>
+  Array.isArray(scenarios)
+    ? scenarios
+        .filter(isObject)
+        .filter((scenario) => typeof scenario.name === 'string')
+        .map((scenario) => ({
+          id: typeof scenario.id === 'string' ? scenario.id : crypto.randomUUID(),
+          name: scenario.name as string,
+          values: readStoredValues(scenario.values),
+        }))
+    : [];
+
+/** The calculator state from a stored record or an imported file, with unknown methods and periods reset. */
+const readStoredState = (state: Record<string, unknown>): CalculatorState => ({
+  values: readStoredValues(state.values),
+  method: readStoredMethod(state.method),
+  period: readStoredPeriod(state.period),
+  benchmarkName: findBenchmark(String(state.benchmarkName ?? '')).name,
+});
+
+/**
+ * A saved calculation from the database or an imported file, or null when it lacks what the
+ * history list shows: when it was saved, a known method, its inputs and its results.
+ */
+export const readStoredCalculation = (calculation: unknown): SavedCalculation | null => {
+  if (
+    !isObject(calculation) ||
+    typeof calculation.savedAt !== 'string' ||
+    !METHODS.some((method) => method === calculation.method) ||
+    !isObject(calculation.values) ||
+    !isFiniteNumber(calculation.ratio) ||
+    !isFiniteNumber(calculation.daysSalesOfInventory)
+  ) {
+    return null;
+  }
+  return {
+    ...readStoredState(calculation),
+    id: typeof calculation.id === 'string' ? calculation.id : crypto.randomUUID(),
+    workspaceId: typeof calculation.workspaceId === 'string' ? calculation.workspaceId : DEFAULT_WORKSPACE_ID,
+    label: typeof calculation.label === 'string' ? calculation.label : 'Imported calculation',
+    savedAt: calculation.savedAt,
+    ratio: calculation.ratio,
+    daysSalesOfInventory: calculation.daysSalesOfInventory,
+  };
+};
+
+/** A stored or imported session, or null when there is none. */
+export const readStoredSession = (session: unknown): CalculatorSession | null =>
+  isObject(session)
+    ? {
+        ...readStoredState(session),
+        scenarios: readStoredScenarios(session.scenarios),
+        history: readStoredHistory(session.history),
+      }
+    : null;
+
+/** A workspace's saved calculations, newest first. */
+export const listCalculations = async (workspaceId: string): Promise<SavedCalculation[]> => {
+  const calculations = await withStore<unknown[]>('calculations', 'readonly', (store) => store.getAll());
+  return calculations
+    .map(readStoredCalculation)
+    .filter((calculation): calculation is SavedCalculation => calculation?.workspaceId === workspaceId)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const saveCalculation = async (calculation: SavedCalculation): Promise<void> => {
+  await withStore('calculations', 'readwrite', (store) => store.put(calculation));
+};
+
+export const deleteCalculation = async (id: string): Promise<void> => {
+  await withStore('calculations', 'readwrite', (store) => store.delete(id));
+};
+
+export const createSavedCalculation = (
+  workspaceId: string,
+  label: string,
+  state: CalculatorState,
+  result: { ratio: number; daysSalesOfInventory: number }
+): SavedCalculation => ({
+  id: crypto.randomUUID(),
+  workspaceId,
+  label,
+  savedAt: new Date().toISOString(),
+  values: { ...state.values, inventorySnapshots: [...state.values.inventorySnapshots] },
+  method: state.method,
+  period: state.period,
+  benchmarkName: state.benchmarkName,
+  ratio: result.ratio,
+  daysSalesOfInventory: result.daysSalesOfInventory,
+});
+
+/** The label a calculation gets when it is saved without a name, e.g. "Unit Turnover – Quarter". */
+export const getCalculationLabel = (state: CalculatorState): string =>
+  `${METHOD_DEFINITIONS[state.method].label} – ${getPeriodLabel(state.period)}`;
+
+/** Whether two states have the same inputs, method, period and benchmark. */
+export const isSameCalculation = (a: CalculatorState, b: CalculatorState): boolean =>
+  a.method === b.method &&
+  a.benchmarkName === b.benchmarkName &&
+  a.period.type === b.period.type &&
+  (a.period.type !== 'custom' || (a.period.startDate === b.period.startDate && a.period.endDate === b.period.endDate)) &&
+  VALUE_KEYS.every((key) => JSON.stringify(a.values[key]) === JSON.stringify(b.values[key]));
+
+/**
+ * Adds a completed calculation to the workspace's history under its default label, unless it
+ * repeats the newest one there. Returns whether it was saved.
+ */
+export const recordCalculation = async (
+  workspaceId: string,
+  state: CalculatorState,
+  result: { ratio: number; daysSalesOfInventory: number }
+): Promise<boolean> => {
+  const [latest] = await listCalculations(workspaceId);
+  if (latest && isSameCalculation(latest, state)) return false;
+  await saveCalculation(createSavedCalculation(workspaceId, getCalculationLabel(state), state, result));
+  return true;
+};
+
+/** A copy saved now under a new id, so the original stays as it was. */
+export const duplicateCalculation = (calculation: SavedCalculation): SavedCalculation =>
+  createSavedCalculation(calculation.workspaceId, `${calculation.label} (copy)`, calculation, calculation);
+
+export const loadSession = async (workspaceId: string): Promise<CalculatorSession | undefined> => {
+  const session = await withStore<unknown>('session', 'readonly', (store) => store.get(workspaceId));
+  return readStoredSession(session) ?? undefined;
+};
+
+export const saveSession = async (workspaceId: string, session: CalculatorSession): Promise<void> => {
+  await withStore('session', 'readwrite', (store) => store.put(session, workspaceId));
+};
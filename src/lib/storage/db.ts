@@ -0,0 +1,71 @@
+const DATABASE_NAME = 'retail-insights';
+const DATABASE_VERSION = 2;
+
+export type StoreName = 'calculations' | 'session' | 'workspaces';
+
+/** Calculations and the session saved before workspaces existed belong to this workspace. */
+export const DEFAULT_WORKSPACE_ID = 'default';
+const LEGACY_SESSION_KEY = 'current';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Version 1 kept one session under a fixed key; from version 2 sessions are keyed by workspace.
+const moveLegacySession = (sessions: IDBObjectStore) => {
+  const legacy = sessions.get(LEGACY_SESSION_KEY);
+  legacy.onsuccess = () => {
+    if (legacy.result === undefined) return;
+    sessions.put(legacy.result, DEFAULT_WORKSPACE_ID);
+    sessions.delete(LEGACY_SESSION_KEY);
+  };
+};
+
+/** Opens the browser database once per page load, creating or upgrading its stores on first use. */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = (event) => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains('calculations')) {
+        database.createObjectStore('calculations', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('session')) {
+        database.createObjectStore('session');
+      } else if (event.oldVersion < 2 && request.transaction) {
+        moveLegacySession(request.transaction.objectStore('session'));
+      }
+      if (!database.objectStoreNames.contains('workspaces')) {
+        database.createObjectStore('workspaces', { keyPath: 'id' });
+      }
+    };
+    databasePromise = requestToPromise(request).catch((error) => {
+      // Let a later call try again, e.g. after the user allows storage.
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+/** Resolves once every request in the transaction has been written. */
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/** Runs one request against a store in its own transaction. */
+export const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return requestToPromise(run(database.transaction(name, mode).objectStore(name)));
+};
@@ -0,0 +1,3 @@
+export * from './db';
+export * from './calculations';
+export * from './workspaces';
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_PERIOD, DEFAULT_CALCULATOR_VALUES, DEFAULT_PERIOD_HISTORY } from '@/lib/turnover';
+import { DEFAULT_REPORT_BRANDING } from '@/lib/export';
+import { readWorkspaceFile, WORKSPACE_FILE_FORMAT } from './workspaces';
+
+const calculation = {
+  id: 'c1',
+  workspaceId: 'w1',
+  label: 'Q1',
+  savedAt: '2024-04-01T10:00:00.000Z',
+  values: { costOfGoodsSold: 500000 },
+  method: 'cogs',
+  period: { type: 'quarter' },
+  benchmarkName: 'Grocery',
+  ratio: 2.5,
+  daysSalesOfInventory: 36.5,
+};
+
+const file = (changes: Record<string, unknown> = {}) => ({
+  format: WORKSPACE_FILE_FORMAT,
+  version: 1,
+  exportedAt: '2024-04-02T00:00:00.000Z',
+  workspace: { id: 'w1', name: 'Koramangala Store', kind: 'store', branding: DEFAULT_REPORT_BRANDING, createdAt: '2024-01-01' },
+  session: null,
+  calculations: [calculation],
+  ...changes,
+});
+
+describe('readWorkspaceFile', () => {
+  it('reads an exported workspace', () => {
+    const read = readWorkspaceFile(file());
+    expect(read.workspace).toMatchObject({ name: 'Koramangala Store', kind: 'store' });
+    expect(read.calculations).toEqual([
+      { ...calculation, values: { ...DEFAULT_CALCULATOR_VALUES, costOfGoodsSold: 500000 }, benchmarkName: expect.any(String) },
+    ]);
+  });
+
+  it.each([null, [], { format: 'other' }, file({ workspace: {} }), file({ calculations: {} })])(
+    'rejects data that is not an exported workspace',
+    (data) => {
+      expect(() => readWorkspaceFile(data)).toThrow('This is not an exported workspace');
+    }
+  );
+
+  it('resets an unknown method and a missing period in the session', () => {
+    const { session } = readWorkspaceFile(
+      file({ session: { values: 'broken', method: 'constructor', scenarios: [{ name: 'Best case' }, 'junk'] } })
+    );
+    expect(session).toMatchObject({
+      values: DEFAULT_CALCULATOR_VALUES,
+      method: 'cogs',
+      period: DEFAULT_ANALYSIS_PERIOD,
+      history: DEFAULT_PERIOD_HISTORY,
+    });
+    expect(session?.scenarios).toHaveLength(1);
+  });
+
+  it('keeps only well-formed history records', () => {
+    const record = { id: 'r1', label: 'Jan', costOfGoodsSold: 100, beginningInventory: 50, endingInventory: 40 };
+    const { session } = readWorkspaceFile(
+      file({ session: { history: { frequency: 'weekly', records: [record, { label: 'Feb' }, null] } } })
+    );
+    expect(session?.history).toEqual({ frequency: 'month', records: [record] });
+    expect(readWorkspaceFile(file({ session: { history: 'none' } })).session?.history).toEqual(DEFAULT_PERIOD_HISTORY);
+  });
+
+  it('drops calculations the history list could not show', () => {
+    const { calculations } = readWorkspaceFile(
+      file({
+        calculations: [
+          calculation,
+          { ...calculation, savedAt: undefined },
+          { ...calculation, method: 'toString' },
+          { ...calculation, values: null },
+          { ...calculation, ratio: 'fast' },
+          'junk',
+        ],
+      })
+    );
+    expect(calculations).toHaveLength(1);
+  });
+
+  it('keeps only text branding fields and known kinds', () => {
+    const { workspace } = readWorkspaceFile(
+      file({ workspace: { name: 'Acme', kind: 'constructor', branding: { headerText: 'Acme Report', accentColor: 7 } } })
+    );
+    expect(workspace.kind).toBe('client');
+    expect(workspace.branding).toEqual({ ...DEFAULT_REPORT_BRANDING, headerText: 'Acme Report' });
+    expect(readWorkspaceFile(file({ workspace: { name: 'Acme', branding: 'red' } })).workspace.branding).toEqual(
+      DEFAULT_REPORT_BRANDING
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { DEFAULT_REPORT_BRANDING, type ReportBranding } from '@/lib/export';
+import { DEFAULT_WORKSPACE_ID, openDatabase, requestToPromise, transactionToPromise, withStore } from './db';
+import { readStoredCalculation, readStoredSession, type CalculatorSession, type SavedCalculation } from './calculations';
+
+export type WorkspaceKind = 'store' | 'brand' | 'client';
+
+export const WORKSPACE_KIND_LABELS: Record<WorkspaceKind, string> = {
+  store: 'Store',
+  brand: 'Brand',
+  client: 'Client',
+};
+
+/** A store, brand or client with its own session, saved calculations and report branding. */
+export interface Workspace {
+  id: string;
+  name: string;
+  kind: WorkspaceKind;
+  branding: ReportBranding;
+  /** ISO timestamp. */
+  createdAt: string;
+}
+
+/** A whole workspace in one file, for backups and for handing work to a colleague. */
+export interface WorkspaceFile {
+  format: typeof WORKSPACE_FILE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  workspace: Workspace;
+  session: CalculatorSession | null;
+  calculations: SavedCalculation[];
+}
+
+export const WORKSPACE_FILE_FORMAT = 'retail-insights-workspace';
+const ACTIVE_WORKSPACE_KEY = 'retail-insights:workspace';
+
+export const createWorkspace = (name: string, kind: WorkspaceKind, id: string = crypto.randomUUID()): Workspace => ({
+  id,
+  name,
+  kind,
+  branding: { ...DEFAULT_REPORT_BRANDING, preparedFor: name },
+  createdAt: new Date().toISOString(),
+});
+
+/** Workspaces in the order they were created. The first visit gets a default workspace. */
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  const workspaces = await withStore<Workspace[]>('workspaces', 'readonly', (store) => store.getAll());
+  if (workspaces.length === 0) {
+    const workspace = { ...createWorkspace('My Business', 'store', DEFAULT_WORKSPACE_ID), branding: DEFAULT_REPORT_BRANDING };
+    await saveWorkspace(workspace);
+    return [workspace];
+  }
+  return workspaces
+    .map((workspace) => ({ ...workspace, branding: { ...DEFAULT_REPORT_BRANDING, ...workspace.branding } }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  await withStore('workspaces', 'readwrite', (store) => store.put(workspace));
+};
+
+/** Deletes the workspace together with its session and saved calculations. */
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(['workspaces', 'session', 'calculations'], 'readwrite');
+  transaction.objectStore('workspaces').delete(id);
+  transaction.objectStore('session').delete(id);
+  const calculations = transaction.objectStore('calculations');
+  const saved = await requestToPromise<SavedCalculation[]>(calculations.getAll());
+  for (const calculation of saved) {
+    if ((calculation.workspaceId ?? DEFAULT_WORKSPACE_ID) === id) calculations.delete(calculation.id);
+  }
+  await transactionToPromise(transaction);
+};
+
+// The active workspace is a per-browser preference, so it lives outside the database.
+export const getActiveWorkspaceId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveWorkspaceId = (id: string): void => {
+  try {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  } catch {
+    // Without storage the choice simply lasts until the page is closed.
+  }
+};
+
+export const exportWorkspace = async (workspace: Workspace): Promise<WorkspaceFile> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(['session', 'calculations'], 'readonly');
+  const [session, calculations] = await Promise.all([
+    requestToPromise<CalculatorSession | undefined>(transaction.objectStore('session').get(workspace.id)),
+    requestToPromise<SavedCalculation[]>(transaction.objectStore('calculations').getAll()),
+  ]);
+  return {
+    format: WORKSPACE_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    workspace,
+    session: session ?? null,
+    calculations: calculations.filter((calculation) => (calculation.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspace.id),
+  };
+};
+
+export const getWorkspaceFileName = (workspace: Workspace): string =>
+  `${workspace.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace'}.workspace.json`;
+
+const WORKSPACE_KINDS = Object.keys(WORKSPACE_KIND_LABELS) as WorkspaceKind[];
+const BRANDING_KEYS = Object.keys(DEFAULT_REPORT_BRANDING) as (keyof ReportBranding)[];
+
+// Text fields the file does not set, or sets to something other than text, keep the defaults.
+const readBranding = (branding: unknown): ReportBranding => {
+  const read: ReportBranding = { ...DEFAULT_REPORT_BRANDING };
+  if (typeof branding !== 'object' || branding === null) return read;
+  for (const [key, value] of Object.entries(branding)) {
+    const field = BRANDING_KEYS.find((brandingKey) => brandingKey === key);
+    if (field && typeof value === 'string') read[field] = value;
+  }
+  return read;
+};
+
+/**
+ * Checks a parsed workspace file the way `share.ts` checks a link: the workspace needs a name,
+ * unknown kinds, methods and periods fall back to defaults, and calculations the history list
+ * could not show are dropped. Throws when the data is not an exported workspace at all.
+ */
+export const readWorkspaceFile = (data: unknown): WorkspaceFile => {
+  const file = data as Partial<WorkspaceFile> | null;
+  if (
+    typeof file !== 'object' ||
+    file === null ||
+    file.format !== WORKSPACE_FILE_FORMAT ||
+    typeof file.workspace?.name !== 'string' ||
+    !Array.isArray(file.calculations)
+  ) {
+    throw new Error('This is not an exported workspace');
+  }
+  const { workspace } = file;
+  return {
+    format: WORKSPACE_FILE_FORMAT,
+    version: 1,
+    exportedAt: String(file.exportedAt ?? ''),
+    workspace: {
+      id: String(workspace.id ?? ''),
+      name: workspace.name,
+      kind: WORKSPACE_KINDS.find((kind) => kind === workspace.kind) ?? 'client',
+      branding: readBranding(workspace.branding),
+      createdAt: String(workspace.createdAt ?? ''),
+    },
+    session: readStoredSession(file.session),
+    calculations: file.calculations
+      .map(readStoredCalculation)
+      .filter((calculation): calculation is SavedCalculation => calculation !== null),
+  };
+};
+
+/**
+ * Saves an exported workspace as a new workspace, leaving any existing copy alone.
+ * Everything gets fresh ids so the same file can be imported more than once.
+ */
+export const importWorkspace = async (text: string): Promise<Workspace> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const file = readWorkspaceFile(data);
+
+  const workspace: Workspace = {
+    ...createWorkspace(file.workspace.name, file.workspace.kind),
+    branding: file.workspace.branding,
+  };
+  const database = await openDatabase();
+  const transaction = database.transaction(['workspaces', 'session', 'calculations'], 'readwrite');
+  transaction.objectStore('workspaces').put(workspace);
+  if (file.session) {
+    transaction.objectStore('session').put(file.session, workspace.id);
+  }
+  for (const calculation of file.calculations) {
+    transaction.objectStore('calculations').put({ ...calculation, id: crypto.randomUUID(), workspaceId: workspace.id });
+  }
+  await transactionToPromise(transaction);
+  return workspace;
+};
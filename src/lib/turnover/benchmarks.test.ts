@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { describeDaysSalesOfInventory, describeGmroi, findBenchmark, getTurnoverBand } from './benchmarks';
+
+describe('findBenchmark', () => {
+  it('finds a category by name and falls back to general retail', () => {
+    expect(findBenchmark('Grocery')).toEqual({ name: 'Grocery', value: 12.8 });
+    expect(findBenchmark('Jewellery').name).toBe('General Retail');
+  });
+});
+
+describe('getTurnoverBand', () => {
+  it.each([
+    [1.9, 'low'],
+    [2, 'average'],
+    [6, 'average'],
+    [6.1, 'high'],
+  ])('puts a ratio of %d in the %s band', (ratio, band) => {
+    expect(getTurnoverBand(ratio)).toBe(band);
+  });
+});
+
+describe('interpretation text', () => {
+  it('describes days of inventory against the slow and fast thresholds', () => {
+    expect(describeDaysSalesOfInventory(200)).toBe('Your inventory takes a long time to sell');
+    expect(describeDaysSalesOfInventory(30)).toBe('Your inventory sells very quickly');
+    expect(describeDaysSalesOfInventory(90)).toBe('Your inventory sells at an average pace');
+  });
+
+  it('describes GMROI against break-even and strong returns', () => {
+    expect(describeGmroi(0.8)).toBe('Inventory returns less gross margin than it costs');
+    expect(describeGmroi(3.5)).toBe('Strong margin return on every rupee of inventory');
+    expect(describeGmroi(2)).toBe('Healthy margin return, within the typical retail range');
+  });
+});
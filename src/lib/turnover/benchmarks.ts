@@ -0,0 +1,67 @@
+export interface IndustryBenchmark {
+  name: string;
+  value: number;
+}
+
+export const INDUSTRY_BENCHMARKS: IndustryBenchmark[] = [
+  { name: 'Apparel', value: 4.5 },
+  { name: 'Electronics', value: 5.2 },
+  { name: 'Grocery', value: 12.8 },
+  { name: 'Furniture', value: 2.3 },
+  { name: 'General Retail', value: 3.8 },
+];
+
+export const INDUSTRY_AVERAGE_TURNOVER = 3.8;
+
+export const DEFAULT_BENCHMARK_NAME = 'General Retail';
+
+/** Looks up a turnover benchmark by category name, falling back to general retail. */
+export const findBenchmark = (name: string): IndustryBenchmark =>
+  INDUSTRY_BENCHMARKS.find((benchmark) => benchmark.name === name) ??
+  INDUSTRY_BENCHMARKS.find((benchmark) => benchmark.name === DEFAULT_BENCHMARK_NAME);
+
+/** Annual gross margin earned per rupee of average inventory at cost, by category. */
+export const GMROI_BENCHMARKS: IndustryBenchmark[] = [
+  { name: 'Apparel', value: 3.2 },
+  { name: 'Electronics', value: 1.8 },
+  { name: 'Grocery', value: 2.6 },
+  { name: 'Furniture', value: 1.9 },
+  { name: 'General Retail', value: 2.4 },
+];
+
+export const LOW_TURNOVER_THRESHOLD = 2;
+export const HIGH_TURNOVER_THRESHOLD = 6;
+
+export const SLOW_DSI_THRESHOLD = 180;
+export const FAST_DSI_THRESHOLD = 60;
+
+export type InterpretationBand = 'low' | 'average' | 'high';
+
+export const getTurnoverBand = (ratio: number): InterpretationBand => {
+  if (ratio < LOW_TURNOVER_THRESHOLD) return 'low';
+  if (ratio > HIGH_TURNOVER_THRESHOLD) return 'high';
+  return 'average';
+};
+
+export const describeTurnover = (ratio: number): string => {
+  switch (getTurnoverBand(ratio)) {
+    case 'low':
+      return 'Low turnover - consider reducing inventory levels';
+    case 'high':
+      return 'High turnover - efficient inventory management';
+    default:
+      return 'Average turnover - within normal retail range';
+  }
+};
+
+export const describeDaysSalesOfInventory = (days: number): string => {
+  if (days > SLOW_DSI_THRESHOLD) return 'Your inventory takes a long time to sell';
+  if (days < FAST_DSI_THRESHOLD) return 'Your inventory sells very quickly';
+  return 'Your inventory sells at an average pace';
+};
+
+export const describeGmroi = (gmroi: number): string => {
+  if (gmroi < 1) return 'Inventory returns less gross margin than it costs';
+  if (gmroi > 3) return 'Strong margin return on every rupee of inventory';
+  return 'Healthy margin return, within the typical retail range';
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCarryingCost } from './carryingCost';
+import { calculateTurnover } from './engine';
+import { DAYS_IN_YEAR, DEFAULT_CALCULATOR_VALUES } from './constants';
+
+describe('calculateCarryingCost', () => {
+  it('applies each rate to average inventory at cost', () => {
+    const values = DEFAULT_CALCULATOR_VALUES;
+    const result = calculateCarryingCost(values, calculateTurnover(values, 'cogs'));
+    // 12% + 5% + 1% + 2% + 5% of an average of 2,00,000.
+    expect(result.totalRate).toBe(25);
+    expect(result.annualCarryingCost).toBe(50000);
+    expect(result.components.map((component) => [component.key, component.annualCost])).toEqual([
+      ['costOfCapitalRate', 24000],
+      ['storageCostRate', 10000],
+      ['insuranceRate', 2000],
+      ['shrinkageRate', 4000],
+      ['obsolescenceRate', 10000],
+    ]);
+  });
+
+  it('values a day of DSI at a day of COGS and saves it for each day cut', () => {
+    const values = { ...DEFAULT_CALCULATOR_VALUES, dsiReductionDays: 10 };
+    const result = calculateCarryingCost(values, calculateTurnover(values, 'cogs'));
+    expect(result.costPerDsiDay).toBeCloseTo((1000000 / DAYS_IN_YEAR) * 0.25, 10);
+    expect(result.reductionSavings).toBeCloseTo(result.costPerDsiDay * 10, 10);
+  });
+
+  it('costs nothing per day when the period is incomplete', () => {
+    const values = DEFAULT_CALCULATOR_VALUES;
+    const result = calculateCarryingCost(values, calculateTurnover(values, 'cogs', { type: 'custom' }));
+    expect(result.costPerDsiDay).toBe(0);
+  });
+});
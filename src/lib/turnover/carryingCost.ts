@@ -0,0 +1,57 @@
+import type { CalculatorValues, NumericInputKey, TurnoverResult } from './types';
+import { resolveCostOfGoodsSold } from './cogs';
+import { getAverageInventoryAtCost, INPUT_LABELS } from './engine';
+
+export const CARRYING_COST_COMPONENTS: NumericInputKey[] = [
+  'costOfCapitalRate',
+  'storageCostRate',
+  'insuranceRate',
+  'shrinkageRate',
+  'obsolescenceRate',
+];
+
+export interface CarryingCostComponent {
+  key: NumericInputKey;
+  label: string;
+  /** Percentage of average inventory per year. */
+  rate: number;
+  annualCost: number;
+}
+
+export interface CarryingCostResult {
+  averageInventoryAtCost: number;
+  components: CarryingCostComponent[];
+  /** Sum of the component rates, in percent per year. */
+  totalRate: number;
+  annualCarryingCost: number;
+  /** Annual carrying cost of one day of DSI: daily COGS × total rate. */
+  costPerDsiDay: number;
+  /** Annual saving from cutting DSI by `values.dsiReductionDays`. */
+  reductionSavings: number;
+}
+
+/**
+ * Estimates the annual cost of holding the average inventory. A day of DSI is worth one day
+ * of COGS in stock, so shortening DSI saves that stock's share of the carrying cost.
+ */
+export const calculateCarryingCost = (values: CalculatorValues, turnover: TurnoverResult): CarryingCostResult => {
+  const averageInventoryAtCost = getAverageInventoryAtCost(values, turnover);
+  const components = CARRYING_COST_COMPONENTS.map((key) => ({
+    key,
+    label: INPUT_LABELS[key],
+    rate: values[key],
+    annualCost: (averageInventoryAtCost * values[key]) / 100,
+  }));
+  const totalRate = components.reduce((sum, component) => sum + component.rate, 0);
+  const dailyCostOfGoodsSold = turnover.periodDays > 0 ? resolveCostOfGoodsSold(values) / turnover.periodDays : 0;
+  const costPerDsiDay = (dailyCostOfGoodsSold * totalRate) / 100;
+
+  return {
+    averageInventoryAtCost,
+    components,
+    totalRate,
+    annualCarryingCost: (averageInventoryAtCost * totalRate) / 100,
+    costPerDsiDay,
+    reductionSavings: costPerDsiDay * values.dsiReductionDays,
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCashConversionCycle } from './cashCycle';
+import { calculateTurnover } from './engine';
+import { DAYS_IN_YEAR, DEFAULT_CALCULATOR_VALUES } from './constants';
+import type { CalculatorValues } from './types';
+
+const cycleOf = (changes: Partial<CalculatorValues> = {}) => {
+  const values = { ...DEFAULT_CALCULATOR_VALUES, ...changes };
+  return calculateCashConversionCycle(values, calculateTurnover(values, 'cogs'));
+};
+
+describe('calculateCashConversionCycle', () => {
+  it('adds receivable days to DSI and takes off payable days', () => {
+    const cycle = cycleOf();
+    expect(cycle.daysSalesOfInventory).toBeCloseTo(DAYS_IN_YEAR / 5, 10);
+    expect(cycle.daysSalesOutstanding).toBeCloseTo((120000 / 1500000) * DAYS_IN_YEAR, 10);
+    expect(cycle.daysPayablesOutstanding).toBeCloseTo((100000 / 900000) * DAYS_IN_YEAR, 10);
+    expect(cycle.cycleDays).toBeCloseTo(cycle.daysSalesOfInventory + cycle.daysSalesOutstanding - cycle.daysPayablesOutstanding, 10);
+    expect(cycle.cashTiedUp).toBeCloseTo((1000000 / DAYS_IN_YEAR) * cycle.cycleDays, 6);
+  });
+
+  it('measures payable days against COGS when there are no purchases', () => {
+    expect(cycleOf({ purchases: 0 }).daysPayablesOutstanding).toBeCloseTo((100000 / 1000000) * DAYS_IN_YEAR, 10);
+  });
+
+  it('ties up no cash when suppliers finance the whole cycle', () => {
+    const cycle = cycleOf({ accountsPayable: 1000000 });
+    expect(cycle.cycleDays).toBeLessThan(0);
+    expect(cycle.cashTiedUp).toBe(0);
+  });
+
+  it('gives no receivable days without sales', () => {
+    expect(cycleOf({ netSales: 0 }).daysSalesOutstanding).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import type { CalculatorValues, TurnoverResult } from './types';
+import { resolveCostOfGoodsSold } from './cogs';
+
+export interface CashConversionCycleResult {
+  daysSalesOfInventory: number;
+  /** Days Sales Outstanding: Accounts Receivable ÷ Net Sales × period days. */
+  daysSalesOutstanding: number;
+  /** Days Payables Outstanding: Accounts Payable ÷ Purchases × period days. */
+  daysPayablesOutstanding: number;
+  /** DSI + DSO − DPO. Negative when suppliers finance more than the operating cycle. */
+  cycleDays: number;
+  /** Cost of goods sold per day of the period: the cash one extra day of cycle ties up. */
+  cashPerDay: number;
+  /** cashPerDay × cycleDays; 0 when the cycle is negative. */
+  cashTiedUp: number;
+}
+
+/**
+ * Combines the turnover result's DSI with receivable and payable days over the same period.
+ * DPO is measured against purchases, falling back to COGS when purchases are not entered.
+ */
+export const calculateCashConversionCycle = (
+  values: CalculatorValues,
+  turnover: TurnoverResult
+): CashConversionCycleResult => {
+  const { periodDays, daysSalesOfInventory } = turnover;
+  const costOfGoodsSold = resolveCostOfGoodsSold(values);
+  const payablesBase = values.purchases > 0 ? values.purchases : costOfGoodsSold;
+
+  const daysSalesOutstanding = values.netSales > 0 ? (values.accountsReceivable / values.netSales) * periodDays : 0;
+  const daysPayablesOutstanding = payablesBase > 0 ? (values.accountsPayable / payablesBase) * periodDays : 0;
+  const cycleDays = daysSalesOfInventory + daysSalesOutstanding - daysPayablesOutstanding;
+  const cashPerDay = periodDays > 0 ? costOfGoodsSold / periodDays : 0;
+
+  return {
+    daysSalesOfInventory,
+    daysSalesOutstanding,
+    daysPayablesOutstanding,
+    cycleDays,
+    cashPerDay,
+    cashTiedUp: Math.max(cycleDays, 0) * cashPerDay,
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { deriveCostOfGoodsSold, resolveCostOfGoodsSold } from './cogs';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+
+const VALUES = {
+  ...DEFAULT_CALCULATOR_VALUES,
+  costOfGoodsSold: 700000,
+  beginningInventory: 250000,
+  purchases: 900000,
+  freightIn: 20000,
+  purchaseReturns: 15000,
+  purchaseDiscounts: 5000,
+  endingInventory: 150000,
+};
+
+describe('deriveCostOfGoodsSold', () => {
+  it('adds purchases and freight to beginning inventory and takes off returns, discounts and ending inventory', () => {
+    expect(deriveCostOfGoodsSold(VALUES)).toBe(250000 + 900000 + 20000 - 15000 - 5000 - 150000);
+  });
+
+  it('can come out negative when ending inventory is larger than what was available', () => {
+    expect(deriveCostOfGoodsSold({ ...VALUES, endingInventory: 2000000 })).toBeLessThan(0);
+  });
+});
+
+describe('resolveCostOfGoodsSold', () => {
+  it('uses the figure from the selected source', () => {
+    expect(resolveCostOfGoodsSold(VALUES)).toBe(700000);
+    expect(resolveCostOfGoodsSold({ ...VALUES, costOfGoodsSoldSource: 'derived' })).toBe(1000000);
+  });
+});
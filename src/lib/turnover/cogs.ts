@@ -0,0 +1,29 @@
+import type { CalculatorValues, NumericInputKey } from './types';
+
+export type CostOfGoodsSoldSource = 'entered' | 'derived';
+
+/** Inputs of the purchases-based COGS derivation, in formula order. */
+export const DERIVED_COGS_INPUTS: NumericInputKey[] = [
+  'beginningInventory',
+  'purchases',
+  'freightIn',
+  'purchaseReturns',
+  'purchaseDiscounts',
+  'endingInventory',
+];
+
+export const DERIVED_COGS_FORMULA =
+  'Beginning Inventory + Purchases + Freight-in − Purchase Returns − Purchase Discounts − Ending Inventory';
+
+/** COGS = Beginning + Purchases + Freight-in − Returns − Discounts − Ending. */
+export const deriveCostOfGoodsSold = (values: CalculatorValues): number =>
+  values.beginningInventory +
+  values.purchases +
+  values.freightIn -
+  values.purchaseReturns -
+  values.purchaseDiscounts -
+  values.endingInventory;
+
+/** The COGS figure in effect: derived from purchases when that source is selected, otherwise as entered. */
+export const resolveCostOfGoodsSold = (values: CalculatorValues): number =>
+  values.costOfGoodsSoldSource === 'derived' ? deriveCostOfGoodsSold(values) : values.costOfGoodsSold;
@@ -0,0 +1,30 @@
+import type { CalculatorValues } from './types';
+
+export const DAYS_IN_YEAR = 365;
+
+export const DEFAULT_CALCULATOR_VALUES: CalculatorValues = {
+  costOfGoodsSoldSource: 'entered',
+  costOfGoodsSold: 1000000,
+  purchases: 900000,
+  freightIn: 0,
+  purchaseReturns: 0,
+  purchaseDiscounts: 0,
+  beginningInventory: 250000,
+  endingInventory: 150000,
+  averageInventory: 200000,
+  netSales: 1500000,
+  grossMarginSource: 'cogs',
+  grossMargin: 500000,
+  averageRetailInventory: 300000,
+  unitsSold: 20000,
+  averageUnitsOnHand: 4000,
+  inventorySnapshots: [],
+  accountsReceivable: 120000,
+  accountsPayable: 100000,
+  costOfCapitalRate: 12,
+  storageCostRate: 5,
+  insuranceRate: 1,
+  shrinkageRate: 2,
+  obsolescenceRate: 5,
+  dsiReductionDays: 10,
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareCostingMethods,
+  createPurchaseLot,
+  type CostingComparisonInput,
+  type CostingMethod,
+  type CostingOutcome,
+} from './costing';
+import { DEFAULT_ANALYSIS_PERIOD } from './period';
+
+// 100 units on hand at 10, then deliveries at rising costs of 12 and 14.
+const RISING_COSTS: CostingComparisonInput = {
+  openingQuantity: 100,
+  openingUnitCost: 10,
+  lots: [createPurchaseLot('Lot 1', 100, 12), createPurchaseLot('Lot 2', 100, 14)],
+  unitsSold: 250,
+};
+
+const compare = (changes: Partial<CostingComparisonInput> = {}) =>
+  Object.fromEntries(
+    compareCostingMethods({ ...RISING_COSTS, ...changes }, DEFAULT_ANALYSIS_PERIOD).map((outcome) => [outcome.method, outcome])
+  ) as Record<CostingMethod, CostingOutcome>;
+
+describe('compareCostingMethods', () => {
+  it.each([
+    // Oldest first: all of the opening stock and Lot 1, then 50 from Lot 2.
+    { method: 'fifo' as const, costOfGoodsSold: 100 * 10 + 100 * 12 + 50 * 14, endingInventory: 50 * 14 },
+    // Running average of (1,000 + 1,200 + 1,400) ÷ 300 = 12.
+    { method: 'weighted-average' as const, costOfGoodsSold: 250 * 12, endingInventory: 50 * 12 },
+    // Newest first: all of Lot 2 and Lot 1, then 50 from the opening stock.
+    { method: 'lifo' as const, costOfGoodsSold: 100 * 14 + 100 * 12 + 50 * 10, endingInventory: 50 * 10 },
+  ])('values rising costs under $method', ({ method, costOfGoodsSold, endingInventory }) => {
+    const outcome = compare()[method];
+    expect(outcome.openingInventory).toBe(1000);
+    expect(outcome.costOfGoodsSold).toBeCloseTo(costOfGoodsSold, 10);
+    expect(outcome.endingInventory).toBeCloseTo(endingInventory, 10);
+    expect(outcome.endingQuantity).toBe(50);
+    expect(outcome.shortfall).toBe(0);
+    expect(outcome.turnover.throughput).toBeCloseTo(costOfGoodsSold, 10);
+  });
+
+  it('costs units sold beyond available stock at the last lot cost', () => {
+    for (const outcome of Object.values(compare({ unitsSold: 350 }))) {
+      expect(outcome.shortfall).toBe(50);
+      expect(outcome.costOfGoodsSold).toBeCloseTo(1000 + 1200 + 1400 + 50 * 14, 10);
+      expect(outcome.endingInventory).toBe(0);
+      expect(outcome.endingQuantity).toBe(0);
+    }
+  });
+
+  it('issues from opening stock alone when there are no lots', () => {
+    for (const outcome of Object.values(compare({ lots: [], unitsSold: 40 }))) {
+      expect(outcome.costOfGoodsSold).toBe(400);
+      expect(outcome.endingInventory).toBe(600);
+    }
+  });
+
+  it('costs nothing when there is no stock and no lots to price a shortfall', () => {
+    for (const outcome of Object.values(compare({ openingQuantity: 0, lots: [], unitsSold: 10 }))) {
+      expect(outcome.costOfGoodsSold).toBe(0);
+      expect(outcome.shortfall).toBe(10);
+      expect(outcome.turnover.ratio).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import type { TurnoverResult } from './types';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+import type { AnalysisPeriod } from './period';
+import { calculateTurnover } from './engine';
+
+export type CostingMethod = 'fifo' | 'weighted-average' | 'lifo';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: 'FIFO',
+  'weighted-average': 'Weighted Average',
+  lifo: 'LIFO',
+};
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'fifo';
+
+/** Units received together at one cost. A weighted-average pool keeps a single layer. */
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+/** Stock of one item under a costing method, oldest layer first. */
+export interface CostPool {
+  method: CostingMethod;
+  layers: CostLayer[];
+  /** Cost of the latest receipt, used to cost units issued when the pool is empty. */
+  lastUnitCost: number | null;
+}
+
+export interface CostIssue {
+  pool: CostPool;
+  cost: number;
+  /** Units issued beyond what the pool held, costed at the last unit cost. */
+  shortfall: number;
+}
+
+export const createCostPool = (method: CostingMethod): CostPool => ({ method, layers: [], lastUnitCost: null });
+
+export const getPoolQuantity = (pool: CostPool): number => pool.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+export const getPoolValue = (pool: CostPool): number =>
+  pool.layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+/** Adds received units. Weighted average folds them into the running average cost. */
+export const receiveIntoPool = (pool: CostPool, quantity: number, unitCost: number): CostPool => {
+  if (quantity <= 0) return pool;
+  if (pool.method !== 'weighted-average' || pool.layers.length === 0) {
+    return { ...pool, layers: [...pool.layers, { quantity, unitCost }], lastUnitCost: unitCost };
+  }
+  const onHand = getPoolQuantity(pool);
+  const averageCost = (getPoolValue(pool) + quantity * unitCost) / (onHand + quantity);
+  return { ...pool, layers: [{ quantity: onHand + quantity, unitCost: averageCost }], lastUnitCost: unitCost };
+};
+
+/**
+ * Takes units out of the pool and returns their cost: oldest layers first under FIFO,
+ * newest first under LIFO, at the running average otherwise.
+ */
+export const issueFromPool = (pool: CostPool, quantity: number): CostIssue => {
+  const layers = pool.layers.map((layer) => ({ ...layer }));
+  const takeFrom = (index: number) => (pool.method === 'lifo' ? layers.length - 1 - index : index);
+  let remaining = quantity;
+  let cost = 0;
+  for (let index = 0; index < layers.length && remaining > 0; index += 1) {
+    const layer = layers[takeFrom(index)];
+    const taken = Math.min(layer.quantity, remaining);
+    layer.quantity -= taken;
+    cost += taken * layer.unitCost;
+    remaining -= taken;
+  }
+  const fallbackCost = pool.lastUnitCost ?? 0;
+  return {
+    pool: { ...pool, layers: layers.filter((layer) => layer.quantity > 0) },
+    cost: cost + remaining * fallbackCost,
+    shortfall: remaining,
+  };
+};
+
+/** Stock bought in one delivery, in the order the deliveries arrived. */
+export interface PurchaseLot {
+  id: string;
+  label: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface CostingComparisonInput {
+  openingQuantity: number;
+  openingUnitCost: number;
+  lots: PurchaseLot[];
+  /** Units sold in the period, issued after all lots have arrived. */
+  unitsSold: number;
+}
+
+export interface CostingOutcome {
+  method: CostingMethod;
+  openingInventory: number;
+  costOfGoodsSold: number;
+  endingInventory: number;
+  endingQuantity: number;
+  /** Units sold beyond opening stock plus purchases. */
+  shortfall: number;
+  turnover: TurnoverResult;
+}
+
+export const createPurchaseLot = (label: string, quantity: number, unitCost: number): PurchaseLot => ({
+  id: crypto.randomUUID(),
+  label,
+  quantity,
+  unitCost,
+});
+
+// Rising purchase costs, where the three methods differ the most.
+export const DEFAULT_COSTING_COMPARISON: CostingComparisonInput = {
+  openingQuantity: 1000,
+  openingUnitCost: 100,
+  lots: [
+    createPurchaseLot('Lot 1', 1200, 110),
+    createPurchaseLot('Lot 2', 1500, 120),
+    createPurchaseLot('Lot 3', 1000, 130),
+  ],
+  unitsSold: 3800,
+};
+
+/**
+ * Values the same purchases and sales under each costing method, using periodic costing
+ * (the period's sales are issued once every lot is in), and runs each result through the
+ * COGS-method turnover calculation. Opening stock is valued the same under every method.
+ */
+export const compareCostingMethods = (input: CostingComparisonInput, period: AnalysisPeriod): CostingOutcome[] =>
+  (Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((method) => {
+    const stocked = input.lots.reduce(
+      (pool, lot) => receiveIntoPool(pool, lot.quantity, lot.unitCost),
+      receiveIntoPool(createCostPool(method), input.openingQuantity, input.openingUnitCost)
+    );
+    const issued = issueFromPool(stocked, input.unitsSold);
+    const openingInventory = input.openingQuantity * input.openingUnitCost;
+    const endingInventory = getPoolValue(issued.pool);
+    return {
+      method,
+      openingInventory,
+      costOfGoodsSold: issued.cost,
+      endingInventory,
+      endingQuantity: getPoolQuantity(issued.pool),
+      shortfall: issued.shortfall,
+      turnover: calculateTurnover(
+        {
+          ...DEFAULT_CALCULATOR_VALUES,
+          costOfGoodsSold: issued.cost,
+          beginningInventory: openingInventory,
+          endingInventory,
+        },
+        'cogs',
+        period
+      ),
+    };
+  });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTurnover } from './engine';
+import { DAYS_IN_YEAR, DEFAULT_CALCULATOR_VALUES } from './constants';
+import type { AnalysisPeriod } from './period';
+import type { CalculationMethod, CalculatorValues, TurnoverWarningCode } from './types';
+
+const values = (changes: Partial<CalculatorValues> = {}): CalculatorValues => ({ ...DEFAULT_CALCULATOR_VALUES, ...changes });
+
+const warningCodes = (changes: Partial<CalculatorValues>, method: CalculationMethod, period?: AnalysisPeriod): TurnoverWarningCode[] =>
+  calculateTurnover(values(changes), method, period).warnings.map((warning) => warning.code);
+
+describe('calculateTurnover', () => {
+  // The calculator before the engine existed: COGS over the average of beginning and ending
+  // inventory, or over the entered average, with DSI as 365 ÷ ratio.
+  it.each([
+    { method: 'cogs' as const, changes: { costOfGoodsSold: 1200000, beginningInventory: 250000, endingInventory: 150000 }, ratio: 1200000 / 200000 },
+    { method: 'average' as const, changes: { costOfGoodsSold: 1200000, averageInventory: 160000 }, ratio: 1200000 / 160000 },
+  ])('matches the original $method calculation', ({ method, changes, ratio }) => {
+    const result = calculateTurnover(values(changes), method);
+    expect(result.ratio).toBeCloseTo(ratio, 10);
+    expect(result.daysSalesOfInventory).toBeCloseTo(DAYS_IN_YEAR / ratio, 10);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it.each([
+    { method: 'cogs' as const, throughput: 1000000, averageInventory: 200000, basis: 'cost' },
+    { method: 'average' as const, throughput: 1000000, averageInventory: 250000, basis: 'cost' },
+    { method: 'sales' as const, throughput: 1500000, averageInventory: 500000, basis: 'retail' },
+    { method: 'units' as const, throughput: 20000, averageInventory: 2500, basis: 'units' },
+  ])('divides throughput by average inventory for the $method method', ({ method, throughput, averageInventory, basis }) => {
+    const result = calculateTurnover(
+      values({ averageInventory: 250000, averageRetailInventory: 500000, averageUnitsOnHand: 2500 }),
+      method
+    );
+    expect(result.basis).toBe(basis);
+    expect(result.throughput).toBe(throughput);
+    expect(result.averageInventory).toBe(averageInventory);
+    expect(result.ratio).toBeCloseTo(throughput / averageInventory, 10);
+  });
+
+  it.each([
+    { period: { type: 'month' }, days: DAYS_IN_YEAR / 12 },
+    { period: { type: 'quarter' }, days: DAYS_IN_YEAR / 4 },
+    { period: { type: 'half-year' }, days: DAYS_IN_YEAR / 2 },
+    { period: { type: 'fiscal-year' }, days: DAYS_IN_YEAR },
+    { period: { type: 'custom', startDate: '2024-04-01', endDate: '2024-06-30' }, days: 91 },
+  ] as { period: AnalysisPeriod; days: number }[])('annualises a $period.type period of $days days', ({ period, days }) => {
+    // COGS 1,000,000 over an average of 200,000 turns 5 times within the period.
+    const result = calculateTurnover(values(), 'cogs', period);
+    expect(result.periodDays).toBeCloseTo(days, 10);
+    expect(result.ratio).toBeCloseTo(5 * (DAYS_IN_YEAR / days), 10);
+    expect(result.daysSalesOfInventory).toBeCloseTo(days / 5, 10);
+  });
+
+  it('averages inventory snapshots instead of beginning and ending inventory', () => {
+    const result = calculateTurnover(values({ inventorySnapshots: [100000, 300000, 200000] }), 'cogs');
+    expect(result.averageInventory).toBe(200000);
+    expect(result.ratio).toBeCloseTo(5, 10);
+  });
+
+  it('derives COGS from purchases and inventory balances', () => {
+    const result = calculateTurnover(
+      values({ costOfGoodsSoldSource: 'derived', purchases: 900000, freightIn: 20000, purchaseReturns: 15000, purchaseDiscounts: 5000 }),
+      'cogs'
+    );
+    expect(result.throughput).toBe(250000 + 900000 + 20000 - 15000 - 5000 - 150000);
+  });
+
+  describe('warnings', () => {
+    it('names a negative input', () => {
+      const result = calculateTurnover(values({ netSales: -100 }), 'sales');
+      expect(result.warnings).toEqual([{ code: 'negative-input', message: 'Net Sales cannot be negative' }]);
+    });
+
+    it('flags non-positive inventory and returns a zero ratio', () => {
+      expect(warningCodes({ averageInventory: 0 }, 'average')).toEqual(['non-positive-inventory']);
+      expect(calculateTurnover(values({ averageInventory: 0 }), 'average').ratio).toBe(0);
+    });
+
+    it('flags zero throughput', () => {
+      expect(warningCodes({ unitsSold: 0 }, 'units')).toEqual(['zero-throughput']);
+    });
+
+    it('flags negative derived COGS only when COGS is derived', () => {
+      expect(warningCodes({ costOfGoodsSoldSource: 'derived', purchases: 0, endingInventory: 400000 }, 'cogs')).toEqual([
+        'negative-derived-cogs',
+      ]);
+      expect(warningCodes({ costOfGoodsSold: -100 }, 'cogs')).toEqual(['negative-input']);
+      expect(warningCodes({ unitsSold: -100 }, 'units')).toEqual(['negative-input']);
+    });
+
+    it('flags an incomplete custom period', () => {
+      expect(warningCodes({}, 'cogs', { type: 'custom', startDate: '2024-04-01' })).toEqual(['invalid-period']);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import type {
+  CalculationMethod,
+  CalculationStep,
+  CalculatorValues,
+  InventoryBasis,
+  NumericInputKey,
+  TurnoverResult,
+  TurnoverWarning,
+} from './types';
+import { DAYS_IN_YEAR } from './constants';
+import { DEFAULT_ANALYSIS_PERIOD, getPeriodDays, type AnalysisPeriod } from './period';
+import { averageOf } from './snapshots';
+import { DERIVED_COGS_FORMULA, DERIVED_COGS_INPUTS, resolveCostOfGoodsSold } from './cogs';
+
+export const INPUT_LABELS: Record<NumericInputKey, string> = {
+  costOfGoodsSold: 'Cost of Goods Sold',
+  purchases: 'Purchases',
+  freightIn: 'Freight-in',
+  purchaseReturns: 'Purchase Returns',
+  purchaseDiscounts: 'Purchase Discounts',
+  beginningInventory: 'Beginning Inventory',
+  endingInventory: 'Ending Inventory',
+  averageInventory: 'Average Inventory',
+  netSales: 'Net Sales',
+  grossMargin: 'Gross Margin',
+  averageRetailInventory: 'Average Inventory at Retail',
+  unitsSold: 'Units Sold',
+  averageUnitsOnHand: 'Average Units on Hand',
+  accountsReceivable: 'Accounts Receivable',
+  accountsPayable: 'Accounts Payable',
+  costOfCapitalRate: 'Cost of Capital',
+  storageCostRate: 'Storage Cost',
+  insuranceRate: 'Insurance',
+  shrinkageRate: 'Shrinkage',
+  obsolescenceRate: 'Obsolescence',
+  dsiReductionDays: 'DSI Reduction',
+};
+
+interface MethodDefinition {
+  label: string;
+  basis: InventoryBasis;
+  inputs: NumericInputKey[];
+  throughput: NumericInputKey;
+  /** Label of the inventory denominator as used in formulas. */
+  inventoryLabel: string;
+  averageInventory: (values: CalculatorValues) => number;
+  /** Set when the average is derived from other inputs rather than entered directly. */
+  averageFormula?: string;
+}
+
+export const METHOD_DEFINITIONS: Record<CalculationMethod, MethodDefinition> = {
+  cogs: {
+    label: 'Inventory Turnover',
+    basis: 'cost',
+    inputs: ['costOfGoodsSold', 'beginningInventory', 'endingInventory'],
+    throughput: 'costOfGoodsSold',
+    inventoryLabel: 'Average Inventory',
+    averageInventory: (values) => (values.beginningInventory + values.endingInventory) / 2,
+    averageFormula: '(Beginning Inventory + Ending Inventory) ÷ 2',
+  },
+  average: {
+    label: 'Inventory Turnover',
+    basis: 'cost',
+    inputs: ['costOfGoodsSold', 'averageInventory'],
+    throughput: 'costOfGoodsSold',
+    inventoryLabel: 'Average Inventory',
+    averageInventory: (values) => values.averageInventory,
+  },
+  sales: {
+    label: 'Retail Sales Turnover',
+    basis: 'retail',
+    inputs: ['netSales', 'averageRetailInventory'],
+    throughput: 'netSales',
+    inventoryLabel: 'Average Inventory at Retail',
+    averageInventory: (values) => values.averageRetailInventory,
+  },
+  units: {
+    label: 'Unit Turnover',
+    basis: 'units',
+    inputs: ['unitsSold', 'averageUnitsOnHand'],
+    throughput: 'unitsSold',
+    inventoryLabel: 'Average Units on Hand',
+    averageInventory: (values) => values.averageUnitsOnHand,
+  },
+};
+
+const inputStep = (
+  values: CalculatorValues,
+  key: NumericInputKey,
+  basis: InventoryBasis
+): CalculationStep => ({
+  key,
+  label: INPUT_LABELS[key],
+  value: values[key],
+  unit: basis === 'units' ? 'units' : 'currency',
+});
+
+/** Whether the COGS method should average the periodic snapshots instead of beginning and ending inventory. */
+export const usesInventorySnapshots = (values: CalculatorValues, method: CalculationMethod): boolean =>
+  method === 'cogs' && values.inventorySnapshots.length > 0;
+
+/** Whether a cost-based method should derive COGS from purchases instead of using the entered figure. */
+export const derivesCostOfGoodsSold = (values: CalculatorValues, method: CalculationMethod): boolean =>
+  METHOD_DEFINITIONS[method].throughput === 'costOfGoodsSold' && values.costOfGoodsSoldSource === 'derived';
+
+/** Numeric inputs the method actually reads, given the COGS source and snapshot settings. */
+export const getInputKeys = (values: CalculatorValues, method: CalculationMethod): NumericInputKey[] => {
+  const definition = METHOD_DEFINITIONS[method];
+  const throughputKeys = derivesCostOfGoodsSold(values, method) ? DERIVED_COGS_INPUTS : [definition.throughput];
+  const inventoryKeys = usesInventorySnapshots(values, method)
+    ? []
+    : definition.inputs.filter((key) => key !== definition.throughput);
+  return [...throughputKeys, ...inventoryKeys.filter((key) => !throughputKeys.includes(key))];
+};
+
+const getThroughput = (values: CalculatorValues, method: CalculationMethod): number =>
+  METHOD_DEFINITIONS[method].throughput === 'costOfGoodsSold'
+    ? resolveCostOfGoodsSold(values)
+    : values[METHOD_DEFINITIONS[method].throughput];
+
+const collectWarnings = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  averageInventory: number,
+  periodDays: number
+): TurnoverWarning[] => {
+  const definition = METHOD_DEFINITIONS[method];
+  const warnings: TurnoverWarning[] = [];
+
+  const negative = getInputKeys(values, method)
+    .filter((key) => values[key] < 0)
+    .map((key) => INPUT_LABELS[key]);
+  if (usesInventorySnapshots(values, method) && values.inventorySnapshots.some((value) => value < 0)) {
+    negative.push('Inventory Snapshots');
+  }
+  if (negative.length > 0) {
+    warnings.push({
+      code: 'negative-input',
+      message: `${negative.join(', ')} cannot be negative`,
+    });
+  }
+
+  if (averageInventory <= 0) {
+    warnings.push({
+      code: 'non-positive-inventory',
+      message: `${definition.inventoryLabel} must be greater than zero to calculate turnover`,
+    });
+  }
+
+  // An entered throughput below zero is already named by the negative-input warning above;
+  // only a figure derived from purchases needs its own explanation.
+  const throughput = getThroughput(values, method);
+  if (throughput < 0 && derivesCostOfGoodsSold(values, method)) {
+    warnings.push({
+      code: 'negative-derived-cogs',
+      message: 'Derived cost of goods sold is negative; check purchases and ending inventory',
+    });
+  }
+
+  if (throughput === 0) {
+    warnings.push({
+      code: 'zero-throughput',
+      message: `${INPUT_LABELS[definition.throughput]} is zero, so no inventory has turned over`,
+    });
+  }
+
+  if (periodDays <= 0) {
+    warnings.push({
+      code: 'invalid-period',
+      message: 'Select a complete analysis period to calculate turnover',
+    });
+  }
+
+  return warnings;
+};
+
+/**
+ * Calculates inventory turnover and Days Sales of Inventory for the given inputs.
+ * The throughput (COGS, net sales or units sold) is taken to cover the analysis period;
+ * the ratio is annualised from it and DSI is expressed over the same period.
+ * This is the single source of the numbers shown in the calculator, reports and exports.
+ */
+export const calculateTurnover = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  period: AnalysisPeriod = DEFAULT_ANALYSIS_PERIOD
+): TurnoverResult => {
+  const definition = METHOD_DEFINITIONS[method];
+  const periodDays = getPeriodDays(period);
+  const steps: CalculationStep[] = [
+    { key: 'periodDays', label: 'Analysis Period', value: periodDays, unit: 'days' },
+    ...getInputKeys(values, method).map((key) => inputStep(values, key, definition.basis)),
+  ];
+
+  const throughput = getThroughput(values, method);
+  if (derivesCostOfGoodsSold(values, method)) {
+    steps.push({
+      key: 'costOfGoodsSold',
+      label: INPUT_LABELS.costOfGoodsSold,
+      formula: DERIVED_COGS_FORMULA,
+      value: throughput,
+      unit: 'currency',
+    });
+  }
+
+  let averageInventory: number;
+  let twoPointAverage: number | undefined;
+  if (usesInventorySnapshots(values, method)) {
+    const snapshots = values.inventorySnapshots;
+    averageInventory = averageOf(snapshots);
+    twoPointAverage = (snapshots[0] + snapshots[snapshots.length - 1]) / 2;
+    steps.push(
+      {
+        key: 'averageInventory',
+        label: definition.inventoryLabel,
+        formula: `Sum of ${snapshots.length} Inventory Snapshots ÷ ${snapshots.length}`,
+        value: averageInventory,
+        unit: 'currency',
+      },
+      {
+        key: 'twoPointAverage',
+        label: 'Two-point Average',
+        formula: '(First Snapshot + Last Snapshot) ÷ 2',
+        value: twoPointAverage,
+        unit: 'currency',
+      }
+    );
+  } else {
+    averageInventory = definition.averageInventory(values);
+    if (definition.averageFormula) {
+      steps.push({
+        key: 'averageInventory',
+        label: definition.inventoryLabel,
+        formula: definition.averageFormula,
+        value: averageInventory,
+        unit: definition.basis === 'units' ? 'units' : 'currency',
+      });
+    }
+  }
+
+  const periodRatio = averageInventory > 0 && periodDays > 0 ? throughput / averageInventory : 0;
+  const ratio = periodRatio > 0 ? periodRatio * (DAYS_IN_YEAR / periodDays) : 0;
+  const daysSalesOfInventory = periodRatio > 0 ? periodDays / periodRatio : 0;
+
+  steps.push(
+    {
+      key: 'periodRatio',
+      label: `Period ${definition.label}`,
+      formula: `${INPUT_LABELS[definition.throughput]} ÷ ${definition.inventoryLabel}`,
+      value: periodRatio,
+      unit: 'times',
+    },
+    {
+      key: 'ratio',
+      label: `Annualised ${definition.label}`,
+      formula: `Period Turnover × (${DAYS_IN_YEAR} ÷ Analysis Period)`,
+      value: ratio,
+      unit: 'times',
+    },
+    {
+      key: 'daysSalesOfInventory',
+      label: 'Days Sales of Inventory',
+      formula: 'Analysis Period ÷ Period Turnover',
+      value: daysSalesOfInventory,
+      unit: 'days',
+    }
+  );
+
+  return {
+    method,
+    basis: definition.basis,
+    throughput,
+    period,
+    periodDays,
+    periodRatio,
+    ratio,
+    daysSalesOfInventory,
+    averageInventory,
+    twoPointAverage,
+    steps,
+    warnings: collectWarnings(values, method, averageInventory, periodDays),
+  };
+};
+
+/**
+ * Average inventory valued at cost for the turnover's period. Retail and unit-based results
+ * fall back to the COGS method's beginning/ending (or snapshot) balances.
+ */
+export const getAverageInventoryAtCost = (values: CalculatorValues, turnover: TurnoverResult): number =>
+  turnover.basis === 'cost' ? turnover.averageInventory : calculateTurnover(values, 'cogs', turnover.period).averageInventory;
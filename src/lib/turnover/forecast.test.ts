@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { forecastSeries, forecastTurnoverHistory, MIN_FORECAST_PERIODS } from './forecast';
+import type { PeriodHistory, PeriodRecord } from './history';
+
+const options = { horizon: 2, seasonLength: 4 };
+
+describe('forecastSeries', () => {
+  it('extends a straight line with no band when it fits exactly', () => {
+    expect(forecastSeries([1, 2, 3, 4], { ...options, model: 'linear' }).points).toEqual([
+      { step: 1, value: 5, lower: 5, upper: 5 },
+      { step: 2, value: 6, lower: 6, upper: 6 },
+    ]);
+  });
+
+  it('holds the mean of the last window flat', () => {
+    const { points } = forecastSeries([1, 2, 3, 5], { ...options, model: 'moving-average', window: 2 });
+    expect(points.map((point) => point.value)).toEqual([4, 4]);
+    expect(points[1].upper - points[1].value).toBeGreaterThan(points[0].upper - points[0].value);
+  });
+
+  it('repeats the season once there are two full seasons', () => {
+    const result = forecastSeries([1, 2, 3, 4, 1, 2, 3, 4], { ...options, model: 'holt-winters' });
+    expect(result.seasonal).toBe(true);
+    expect(result.points[0].value).toBeCloseTo(1, 10);
+    expect(result.points[1].value).toBeCloseTo(2, 10);
+  });
+
+  it("falls back to Holt's trend with less than two seasons", () => {
+    const result = forecastSeries([1, 2, 3, 4, 5], { ...options, model: 'holt-winters' });
+    expect(result.seasonal).toBe(false);
+    expect(result.points[0].value).toBeCloseTo(6, 10);
+  });
+});
+
+const record = (index: number, costOfGoodsSold: number): PeriodRecord => ({
+  id: String(index),
+  label: `Q${index}`,
+  costOfGoodsSold,
+  beginningInventory: 100,
+  endingInventory: 100,
+});
+
+describe('forecastTurnoverHistory', () => {
+  it(`needs at least ${MIN_FORECAST_PERIODS} periods`, () => {
+    expect(forecastTurnoverHistory({ frequency: 'quarter', records: [record(1, 100), record(2, 100)] }, 'linear', 2)).toBeNull();
+  });
+
+  it('forecasts annualised turnover and flags when it will drop below the low threshold', () => {
+    // Annualised turnover of 8, 6 and 4 falls by 2 a quarter; 2 itself is not yet below the threshold.
+    const history: PeriodHistory = { frequency: 'quarter', records: [record(1, 200), record(2, 150), record(3, 100)] };
+    const forecast = forecastTurnoverHistory(history, 'linear', 3);
+    expect(forecast?.actuals.map((actual) => actual.ratio)).toEqual([8, 6, 4]);
+    expect(forecast?.ratio.points.map((point) => point.value)).toEqual([2, 0, -2]);
+    expect(forecast?.lowTurnoverStep).toBe(2);
+  });
+});
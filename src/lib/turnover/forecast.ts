@@ -0,0 +1,190 @@
+import { LOW_TURNOVER_THRESHOLD } from './benchmarks';
+import { calculatePeriodTurnover, PERIODS_PER_YEAR, type PeriodHistory } from './history';
+
+export type ForecastModel = 'linear' | 'moving-average' | 'holt-winters';
+
+export interface ForecastModelOption {
+  model: ForecastModel;
+  label: string;
+}
+
+export const FORECAST_MODELS: ForecastModelOption[] = [
+  { model: 'linear', label: 'Linear trend' },
+  { model: 'moving-average', label: 'Moving average' },
+  { model: 'holt-winters', label: 'Holt-Winters (seasonal)' },
+];
+
+export interface ForecastPoint {
+  /** Periods after the last actual, starting at 1. */
+  step: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastResult {
+  model: ForecastModel;
+  /** False when Holt-Winters had fewer than two full seasons and fell back to Holt's trend method. */
+  seasonal: boolean;
+  points: ForecastPoint[];
+}
+
+export interface ForecastOptions {
+  model: ForecastModel;
+  horizon: number;
+  /** Periods per season, e.g. 12 for monthly data. */
+  seasonLength: number;
+  /** Window for the moving average. */
+  window?: number;
+}
+
+// ~80% prediction interval, matching the P10–P90 spread used by the simulation.
+const BAND_Z = 1.2816;
+
+const HOLT_WINTERS_SMOOTHING = { alpha: 0.4, beta: 0.2, gamma: 0.3 };
+
+const standardDeviation = (residuals: number[]): number => {
+  if (residuals.length < 2) return 0;
+  const mean = residuals.reduce((sum, value) => sum + value, 0) / residuals.length;
+  const variance = residuals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (residuals.length - 1);
+  return Math.sqrt(variance);
+};
+
+/** Least-squares line through the series. Each fit returns in-sample values and a predictor. */
+const fitLinear = (series: number[]) => {
+  const n = series.length;
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  series.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  const slope = denominator > 0 ? numerator / denominator : 0;
+  const intercept = meanY - slope * meanX;
+  return {
+    fitted: series.map((_, x) => intercept + slope * x),
+    predict: (step: number) => intercept + slope * (n - 1 + step),
+  };
+};
+
+const fitMovingAverage = (series: number[], window: number) => {
+  const size = Math.max(1, Math.min(window, series.length));
+  const fitted = series.map((value, index) => {
+    const slice = series.slice(Math.max(0, index - size), index);
+    return slice.length > 0 ? slice.reduce((sum, item) => sum + item, 0) / slice.length : value;
+  });
+  const last = series.slice(-size);
+  const level = last.reduce((sum, value) => sum + value, 0) / last.length;
+  return { fitted, predict: () => level };
+};
+
+const fitHolt = (series: number[]) => {
+  const { alpha, beta } = HOLT_WINTERS_SMOOTHING;
+  let level = series[0];
+  let trend = series.length > 1 ? series[1] - series[0] : 0;
+  const fitted = [series[0]];
+  for (let t = 1; t < series.length; t += 1) {
+    fitted.push(level + trend);
+    const previousLevel = level;
+    level = alpha * series[t] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+  }
+  return { fitted, predict: (step: number) => level + step * trend };
+};
+
+/**
+ * Additive Holt-Winters. Trend comes from the change between the first two season means;
+ * the first season, detrended, seeds the seasonal terms and smoothing starts after it.
+ */
+const fitHoltWinters = (series: number[], seasonLength: number) => {
+  const { alpha, beta, gamma } = HOLT_WINTERS_SMOOTHING;
+  const firstSeason = series.slice(0, seasonLength);
+  const secondSeason = series.slice(seasonLength, seasonLength * 2);
+  const firstMean = firstSeason.reduce((sum, value) => sum + value, 0) / seasonLength;
+  const secondMean = secondSeason.reduce((sum, value) => sum + value, 0) / seasonLength;
+  const centre = (seasonLength - 1) / 2;
+
+  let trend = (secondMean - firstMean) / seasonLength;
+  let level = firstMean + centre * trend;
+  const seasonals = firstSeason.map((value, index) => value - (firstMean + (index - centre) * trend));
+  const fitted = firstSeason.map((_, index) => firstMean + (index - centre) * trend + seasonals[index]);
+
+  for (let t = seasonLength; t < series.length; t += 1) {
+    const seasonIndex = t % seasonLength;
+    fitted.push(level + trend + seasonals[seasonIndex]);
+    const previousLevel = level;
+    level = alpha * (series[t] - seasonals[seasonIndex]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals[seasonIndex] = gamma * (series[t] - level) + (1 - gamma) * seasonals[seasonIndex];
+  }
+
+  const n = series.length;
+  return {
+    fitted,
+    predict: (step: number) => level + step * trend + seasonals[(n - 1 + step) % seasonLength],
+  };
+};
+
+/**
+ * Projects `series` `horizon` periods ahead with a band from the in-sample residual spread,
+ * widening with the square root of the step. Needs at least two points.
+ */
+export const forecastSeries = (series: number[], options: ForecastOptions): ForecastResult => {
+  const seasonal = options.model === 'holt-winters' && series.length >= options.seasonLength * 2;
+  let fit: { fitted: number[]; predict: (step: number) => number };
+
+  if (options.model === 'linear') {
+    fit = fitLinear(series);
+  } else if (options.model === 'moving-average') {
+    fit = fitMovingAverage(series, options.window ?? 3);
+  } else if (seasonal) {
+    fit = fitHoltWinters(series, options.seasonLength);
+  } else {
+    fit = fitHolt(series);
+  }
+
+  const spread = standardDeviation(series.map((value, index) => value - fit.fitted[index]));
+  const points = Array.from({ length: options.horizon }, (_, index) => {
+    const step = index + 1;
+    const value = fit.predict(step);
+    const margin = BAND_Z * spread * Math.sqrt(step);
+    return { step, value, lower: value - margin, upper: value + margin };
+  });
+
+  return { model: options.model, seasonal, points };
+};
+
+export interface TurnoverForecast {
+  actuals: { label: string; ratio: number; daysSalesOfInventory: number }[];
+  ratio: ForecastResult;
+  daysSalesOfInventory: ForecastResult;
+  /** First forecast step whose ratio falls below the low-turnover threshold, or null if none does. */
+  lowTurnoverStep: number | null;
+}
+
+export const MIN_FORECAST_PERIODS = 3;
+
+/** Forecasts annualised turnover and DSI from the period history. Needs `MIN_FORECAST_PERIODS` rows. */
+export const forecastTurnoverHistory = (
+  history: PeriodHistory,
+  model: ForecastModel,
+  horizon: number
+): TurnoverForecast | null => {
+  if (history.records.length < MIN_FORECAST_PERIODS) return null;
+
+  const actuals = history.records.map((record) => {
+    const outcome = calculatePeriodTurnover(record, history.frequency);
+    return { label: record.label, ratio: outcome.ratio, daysSalesOfInventory: outcome.daysSalesOfInventory };
+  });
+  const options = { model, horizon, seasonLength: PERIODS_PER_YEAR[history.frequency] };
+  const ratio = forecastSeries(actuals.map((actual) => actual.ratio), options);
+
+  return {
+    actuals,
+    ratio,
+    daysSalesOfInventory: forecastSeries(actuals.map((actual) => actual.daysSalesOfInventory), options),
+    lowTurnoverStep: ratio.points.find((point) => point.value < LOW_TURNOVER_THRESHOLD)?.step ?? null,
+  };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGmroi } from './gmroi';
+import { calculateTurnover } from './engine';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+import type { CalculationMethod, CalculatorValues } from './types';
+import type { AnalysisPeriod } from './period';
+
+const gmroiOf = (changes: Partial<CalculatorValues> = {}, method: CalculationMethod = 'cogs', period?: AnalysisPeriod) => {
+  const values = { ...DEFAULT_CALCULATOR_VALUES, ...changes };
+  return calculateGmroi(values, calculateTurnover(values, method, period));
+};
+
+describe('calculateGmroi', () => {
+  it('divides net sales less COGS by average inventory at cost', () => {
+    // Net sales 15,00,000 less COGS 10,00,000 over an average of 2,00,000.
+    expect(gmroiOf()).toEqual({
+      netSales: 1500000,
+      grossMargin: 500000,
+      grossMarginPercent: (500000 / 1500000) * 100,
+      averageInventoryAtCost: 200000,
+      periodGmroi: 2.5,
+      gmroi: 2.5,
+    });
+  });
+
+  it('uses an entered gross margin when that source is selected', () => {
+    expect(gmroiOf({ grossMarginSource: 'entered', grossMargin: 300000 }).gmroi).toBe(1.5);
+  });
+
+  it('annualises like the turnover ratio', () => {
+    expect(gmroiOf({}, 'cogs', { type: 'quarter' }).gmroi).toBeCloseTo(10, 10);
+  });
+
+  it('uses inventory at cost for the retail and unit methods', () => {
+    expect(gmroiOf({}, 'sales').averageInventoryAtCost).toBe(200000);
+    expect(gmroiOf({}, 'units').averageInventoryAtCost).toBe(200000);
+  });
+
+  it('returns zeros rather than dividing by nothing', () => {
+    expect(gmroiOf({ netSales: 0, beginningInventory: 0, endingInventory: 0 })).toMatchObject({ grossMarginPercent: 0, gmroi: 0 });
+  });
+});
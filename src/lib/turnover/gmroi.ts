@@ -0,0 +1,41 @@
+import type { CalculatorValues, TurnoverResult } from './types';
+import { DAYS_IN_YEAR } from './constants';
+import { resolveCostOfGoodsSold } from './cogs';
+import { getAverageInventoryAtCost } from './engine';
+
+export type GrossMarginSource = 'cogs' | 'entered';
+
+export interface GmroiResult {
+  netSales: number;
+  grossMargin: number;
+  /** Gross margin as a percentage of net sales. 0 when there are no sales. */
+  grossMarginPercent: number;
+  averageInventoryAtCost: number;
+  /** Gross margin over the analysis period ÷ average inventory at cost. */
+  periodGmroi: number;
+  /** GMROI annualised the same way as the turnover ratio. */
+  gmroi: number;
+}
+
+/**
+ * Gross margin return on inventory for the same period and inventory figures as `turnover`.
+ * GMROI needs inventory at cost, so retail and unit-based results use the cost balances instead.
+ */
+export const calculateGmroi = (values: CalculatorValues, turnover: TurnoverResult): GmroiResult => {
+  const netSales = values.netSales;
+  const grossMargin =
+    values.grossMarginSource === 'entered' ? values.grossMargin : netSales - resolveCostOfGoodsSold(values);
+  const averageInventoryAtCost = getAverageInventoryAtCost(values, turnover);
+
+  const periodGmroi = averageInventoryAtCost > 0 ? grossMargin / averageInventoryAtCost : 0;
+  const gmroi = turnover.periodDays > 0 ? periodGmroi * (DAYS_IN_YEAR / turnover.periodDays) : 0;
+
+  return {
+    netSales,
+    grossMargin,
+    grossMarginPercent: netSales !== 0 ? (grossMargin / netSales) * 100 : 0,
+    averageInventoryAtCost,
+    periodGmroi,
+    gmroi,
+  };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getGoalSeekVariables, solveForTarget, type GoalSeekTarget } from './goalSeek';
+import { calculateTurnover } from './engine';
+import { DAYS_IN_YEAR, DEFAULT_CALCULATOR_VALUES } from './constants';
+
+// COGS 10,00,000 over an average of 2,00,000 (2,50,000 and 1,50,000): 5 turns a year.
+const solve = (target: GoalSeekTarget, values = DEFAULT_CALCULATOR_VALUES) =>
+  solveForTarget(values, 'cogs', calculateTurnover(values, 'cogs'), target);
+
+describe('getGoalSeekVariables', () => {
+  it('offers ending inventory only when the average comes from beginning and ending balances', () => {
+    expect(getGoalSeekVariables(DEFAULT_CALCULATOR_VALUES, 'cogs').map((option) => option.variable)).toEqual([
+      'averageInventory',
+      'endingInventory',
+      'throughput',
+    ]);
+    const withSnapshots = { ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [1, 2] };
+    expect(getGoalSeekVariables(withSnapshots, 'cogs').map((option) => option.variable)).toEqual(['averageInventory', 'throughput']);
+    expect(getGoalSeekVariables(DEFAULT_CALCULATOR_VALUES, 'units').map((option) => option.variable)).toEqual(['averageInventory', 'throughput']);
+  });
+});
+
+describe('solveForTarget', () => {
+  it('finds the average inventory for a target ratio', () => {
+    expect(solve({ metric: 'ratio', value: 8, solveFor: 'averageInventory' })).toMatchObject({
+      targetPeriodRatio: 8,
+      currentValue: 200000,
+      requiredValue: 125000,
+      gap: -75000,
+      gapPercent: -37.5,
+      feasible: true,
+    });
+  });
+
+  it('finds the ending inventory that gives the required average', () => {
+    expect(solve({ metric: 'ratio', value: 8, solveFor: 'endingInventory' })).toMatchObject({ requiredValue: 0, feasible: true });
+    expect(solve({ metric: 'ratio', value: 10, solveFor: 'endingInventory' })).toMatchObject({ requiredValue: -50000, feasible: false });
+  });
+
+  it('finds the throughput for a target DSI', () => {
+    const result = solve({ metric: 'dsi', value: 50, solveFor: 'throughput' });
+    expect(result.targetPeriodRatio).toBeCloseTo(DAYS_IN_YEAR / 50, 10);
+    expect(result.requiredValue).toBeCloseTo((DAYS_IN_YEAR / 50) * 200000, 6);
+  });
+
+  it('cannot reach a target that is not positive', () => {
+    expect(solve({ metric: 'ratio', value: 0, solveFor: 'averageInventory' })).toMatchObject({ targetPeriodRatio: 0, feasible: false });
+  });
+});
@@ -0,0 +1,105 @@
+import type { CalculationMethod, CalculatorValues, TurnoverResult } from './types';
+import { DAYS_IN_YEAR } from './constants';
+import { METHOD_DEFINITIONS, usesInventorySnapshots, INPUT_LABELS } from './engine';
+
+export type GoalSeekMetric = 'ratio' | 'dsi';
+
+export type GoalSeekVariable = 'averageInventory' | 'endingInventory' | 'throughput';
+
+export interface GoalSeekTarget {
+  metric: GoalSeekMetric;
+  /** Annualised turnover ratio, or DSI in days over the analysis period. */
+  value: number;
+  solveFor: GoalSeekVariable;
+}
+
+export interface GoalSeekVariableOption {
+  variable: GoalSeekVariable;
+  label: string;
+}
+
+export interface GoalSeekResult {
+  variable: GoalSeekVariable;
+  label: string;
+  /** Period turnover the target implies. 0 when the target cannot be reached. */
+  targetPeriodRatio: number;
+  currentValue: number;
+  requiredValue: number;
+  /** requiredValue − currentValue. */
+  gap: number;
+  /** Gap as a percentage of the current value. 0 when the current value is 0. */
+  gapPercent: number;
+  /** False when the target is not positive or the required value would be negative. */
+  feasible: boolean;
+}
+
+/**
+ * Variables that can be solved for with the given method. Ending inventory is only offered
+ * when the average comes from beginning and ending balances.
+ */
+export const getGoalSeekVariables = (
+  values: CalculatorValues,
+  method: CalculationMethod
+): GoalSeekVariableOption[] => {
+  const definition = METHOD_DEFINITIONS[method];
+  const options: GoalSeekVariableOption[] = [
+    { variable: 'averageInventory', label: `Required ${definition.inventoryLabel}` },
+  ];
+  if (method === 'cogs' && !usesInventorySnapshots(values, method)) {
+    options.push({ variable: 'endingInventory', label: 'Required Ending Inventory' });
+  }
+  options.push({ variable: 'throughput', label: `Required ${INPUT_LABELS[definition.throughput]}` });
+  return options;
+};
+
+/**
+ * Reverse-solves the turnover formula: given a target ratio or DSI, works out the inventory
+ * (or throughput) needed with every other input held at its current value.
+ */
+export const solveForTarget = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  turnover: TurnoverResult,
+  target: GoalSeekTarget
+): GoalSeekResult => {
+  const { periodDays, throughput, averageInventory } = turnover;
+  const label =
+    getGoalSeekVariables(values, method).find((option) => option.variable === target.solveFor)?.label ?? target.solveFor;
+
+  let targetPeriodRatio = 0;
+  if (target.value > 0 && periodDays > 0) {
+    targetPeriodRatio =
+      target.metric === 'ratio' ? target.value * (periodDays / DAYS_IN_YEAR) : periodDays / target.value;
+  }
+
+  let currentValue: number;
+  let requiredValue: number;
+  switch (target.solveFor) {
+    case 'throughput':
+      currentValue = throughput;
+      requiredValue = targetPeriodRatio * averageInventory;
+      break;
+    case 'endingInventory': {
+      currentValue = values.endingInventory;
+      const requiredAverage = targetPeriodRatio > 0 ? throughput / targetPeriodRatio : 0;
+      requiredValue = 2 * requiredAverage - values.beginningInventory;
+      break;
+    }
+    default:
+      currentValue = averageInventory;
+      requiredValue = targetPeriodRatio > 0 ? throughput / targetPeriodRatio : 0;
+  }
+
+  const gap = requiredValue - currentValue;
+
+  return {
+    variable: target.solveFor,
+    label,
+    targetPeriodRatio,
+    currentValue,
+    requiredValue,
+    gap,
+    gapPercent: currentValue !== 0 ? (gap / currentValue) * 100 : 0,
+    feasible: targetPeriodRatio > 0 && requiredValue >= 0,
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { analysePeriodHistory, calculatePeriodTurnover, createNextPeriodRecord, type PeriodRecord } from './history';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+
+const record = (label: string, costOfGoodsSold: number, beginningInventory = 50, endingInventory = 50): PeriodRecord => ({
+  id: label,
+  label,
+  costOfGoodsSold,
+  beginningInventory,
+  endingInventory,
+});
+
+describe('calculatePeriodTurnover', () => {
+  it('annualises a row by the history frequency', () => {
+    expect(calculatePeriodTurnover(record('Jan', 100), 'month').ratio).toBeCloseTo(24, 10);
+    expect(calculatePeriodTurnover(record('Q1', 100), 'quarter').ratio).toBeCloseTo(8, 10);
+  });
+});
+
+describe('createNextPeriodRecord', () => {
+  it('opens the next row at the last closing balance', () => {
+    const next = createNextPeriodRecord({ frequency: 'month', records: [record('Jan', 100, 60, 40)] });
+    expect(next).toMatchObject({ label: 'Period 2', costOfGoodsSold: 100, beginningInventory: 40, endingInventory: 40 });
+  });
+
+  it('starts an empty history from a period share of the defaults', () => {
+    expect(createNextPeriodRecord({ frequency: 'quarter', records: [] })).toMatchObject({
+      label: 'Period 1',
+      costOfGoodsSold: DEFAULT_CALCULATOR_VALUES.costOfGoodsSold / 4,
+      beginningInventory: DEFAULT_CALCULATOR_VALUES.beginningInventory,
+    });
+  });
+});
+
+describe('analysePeriodHistory', () => {
+  it('compares each row with the one before and the same period a year earlier', () => {
+    const records = [100, 50, 75, 75, 150].map((cogs, index) => record(`Q${index + 1}`, cogs));
+    const rows = analysePeriodHistory({ frequency: 'quarter', records });
+    expect(rows.map((row) => row.periodChange)).toEqual([null, -50, 50, 0, 100]);
+    expect(rows.map((row) => row.yearChange)).toEqual([null, null, null, null, 50]);
+  });
+
+  it('leaves the change out when the earlier period did not turn', () => {
+    const rows = analysePeriodHistory({ frequency: 'month', records: [record('Jan', 0), record('Feb', 100)] });
+    expect(rows[1].periodChange).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import type { TurnoverResult } from './types';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+import { calculateTurnover } from './engine';
+
+export type HistoryFrequency = 'month' | 'quarter';
+
+/** One row of period history: the COGS-method inputs for a single month or quarter. */
+export interface PeriodRecord {
+  id: string;
+  label: string;
+  costOfGoodsSold: number;
+  beginningInventory: number;
+  endingInventory: number;
+}
+
+export interface PeriodHistory {
+  frequency: HistoryFrequency;
+  records: PeriodRecord[];
+}
+
+export const DEFAULT_PERIOD_HISTORY: PeriodHistory = {
+  frequency: 'month',
+  records: [],
+};
+
+/** Periods per year, used as the season length for seasonal forecasts. */
+export const PERIODS_PER_YEAR: Record<HistoryFrequency, number> = {
+  month: 12,
+  quarter: 4,
+};
+
+export const createPeriodRecord = (label: string, record: Omit<PeriodRecord, 'id' | 'label'>): PeriodRecord => ({
+  id: crypto.randomUUID(),
+  label,
+  ...record,
+});
+
+/** Turnover for one history row, annualised from the history's frequency. */
+export const calculatePeriodTurnover = (record: PeriodRecord, frequency: HistoryFrequency): TurnoverResult =>
+  calculateTurnover(
+    {
+      ...DEFAULT_CALCULATOR_VALUES,
+      costOfGoodsSold: record.costOfGoodsSold,
+      beginningInventory: record.beginningInventory,
+      endingInventory: record.endingInventory,
+    },
+    'cogs',
+    { type: frequency }
+  );
+
+/** Starts the next row from the last one: its ending inventory becomes the new opening balance. */
+export const createNextPeriodRecord = (history: PeriodHistory): PeriodRecord => {
+  const last = history.records[history.records.length - 1];
+  return createPeriodRecord(`Period ${history.records.length + 1}`, {
+    costOfGoodsSold: last?.costOfGoodsSold ?? DEFAULT_CALCULATOR_VALUES.costOfGoodsSold / PERIODS_PER_YEAR[history.frequency],
+    beginningInventory: last?.endingInventory ?? DEFAULT_CALCULATOR_VALUES.beginningInventory,
+    endingInventory: last?.endingInventory ?? DEFAULT_CALCULATOR_VALUES.endingInventory,
+  });
+};
+
+export interface PeriodHistoryRow {
+  record: PeriodRecord;
+  turnover: TurnoverResult;
+  /** Percent change in turnover against the previous row (MoM or QoQ), or null for the first row. */
+  periodChange: number | null;
+  /** Percent change in turnover against the same period a year earlier, or null without a year of history. */
+  yearChange: number | null;
+}
+
+const percentChange = (value: number, previous: number | undefined): number | null =>
+  previous === undefined || previous === 0 ? null : ((value - previous) / previous) * 100;
+
+/** Turnover for every history row plus its period-over-period and year-over-year changes. */
+export const analysePeriodHistory = (history: PeriodHistory): PeriodHistoryRow[] => {
+  const turnovers = history.records.map((record) => calculatePeriodTurnover(record, history.frequency));
+  const yearLag = PERIODS_PER_YEAR[history.frequency];
+
+  return history.records.map((record, index) => ({
+    record,
+    turnover: turnovers[index],
+    periodChange: percentChange(turnovers[index].ratio, turnovers[index - 1]?.ratio),
+    yearChange: percentChange(turnovers[index].ratio, turnovers[index - yearLag]?.ratio),
+  }));
+};
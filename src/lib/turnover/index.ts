@@ -0,0 +1,18 @@
+export * from './types';
+export * from './constants';
+export * from './period';
+export * from './snapshots';
+export * from './cogs';
+export * from './engine';
+export * from './benchmarks';
+export * from './gmroi';
+export * from './cashCycle';
+export * from './carryingCost';
+export * from './goalSeek';
+export * from './scenarios';
+export * from './sensitivity';
+export * from './monteCarlo';
+export * from './history';
+export * from './forecast';
+export * from './costing';
+export * from './ledger';
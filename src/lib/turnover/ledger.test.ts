@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { applyLedgerReplay, getLedgerPeriod, ledgerToPeriodRecords, replayLedger, type LedgerEntry } from './ledger';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+
+const entry = (date: string, type: LedgerEntry['type'], quantity: number, unitCost: number | null = null, sku = 'A'): LedgerEntry => ({
+  date,
+  sku,
+  type,
+  quantity,
+  unitCost,
+});
+
+// 10 units at 10 on hand, 10 more bought at 20, then 15 sold in January and 5 in February.
+const LEDGER: LedgerEntry[] = [
+  entry('2024-01-01', 'opening', 10, 10),
+  entry('2024-01-15', 'receipt', 10, 20),
+  entry('2024-01-31', 'sale', 15),
+  entry('2024-02-01', 'sale', 5),
+];
+
+describe('replayLedger', () => {
+  it('costs sales from the layers and closes each month', () => {
+    const replay = replayLedger(LEDGER, 'fifo');
+    expect(replay.openingInventory).toBe(100);
+    expect(replay.months).toEqual([
+      { month: '2024-01', label: 'Jan 2024', openingInventory: 100, costOfGoodsSold: 200, writeOffs: 0, closingInventory: 100, unitsSold: 15 },
+      { month: '2024-02', label: 'Feb 2024', openingInventory: 100, costOfGoodsSold: 100, writeOffs: 0, closingInventory: 0, unitsSold: 5 },
+    ]);
+    expect(replay.costOfGoodsSold).toBe(300);
+    expect(replay.unitsSold).toBe(20);
+    expect(replay.warnings).toEqual([]);
+  });
+
+  it('issues the newest layers first under LIFO', () => {
+    const [january] = replayLedger(LEDGER, 'lifo').months;
+    expect(january.costOfGoodsSold).toBe(10 * 20 + 5 * 10);
+    expect(january.closingInventory).toBe(50);
+  });
+
+  it('replays entries in date order whatever order they arrive in', () => {
+    expect(replayLedger([...LEDGER].reverse(), 'fifo')).toEqual(replayLedger(LEDGER, 'fifo'));
+  });
+
+  it('posts opening balances before movements dated earlier', () => {
+    const replay = replayLedger([entry('2023-12-20', 'sale', 4), entry('2024-01-01', 'opening', 10, 10)], 'fifo');
+    expect(replay.openingInventory).toBe(100);
+    expect(replay.months[0]).toMatchObject({ month: '2023-12', costOfGoodsSold: 40, closingInventory: 60 });
+    expect(replay.warnings).toEqual([]);
+  });
+
+  it('keeps the opening balance when there are no movements', () => {
+    const replay = replayLedger([entry('2024-01-01', 'opening', 10, 10)], 'fifo');
+    expect(replay.months).toEqual([]);
+    expect(replay.closingInventory).toBe(100);
+    expect(getLedgerPeriod(replay)).toEqual({ type: 'custom' });
+  });
+
+  it('includes quiet months between movements', () => {
+    const replay = replayLedger([...LEDGER.slice(0, 3), entry('2024-04-10', 'sale', 5)], 'fifo');
+    expect(replay.months.map((month) => month.month)).toEqual(['2024-01', '2024-02', '2024-03', '2024-04']);
+    expect(replay.months[1]).toMatchObject({ costOfGoodsSold: 0, openingInventory: 100, closingInventory: 100 });
+  });
+
+  it('costs units sold beyond stock on hand at the last receipt cost, with a warning', () => {
+    const replay = replayLedger([...LEDGER.slice(0, 3), entry('2024-02-10', 'sale', 8)], 'fifo');
+    expect(replay.months[1].costOfGoodsSold).toBe(8 * 20);
+    expect(replay.closingInventory).toBe(0);
+    expect(replay.warnings).toEqual([
+      { date: '2024-02-10', sku: 'A', message: '3 more units taken out than were in stock; costed at the last receipt cost' },
+    ]);
+  });
+
+  it('counts written-off stock in COGS and values stock added without a cost at the current cost', () => {
+    const replay = replayLedger([...LEDGER.slice(0, 2), entry('2024-01-20', 'adjustment', -2), entry('2024-01-25', 'adjustment', 2)], 'weighted-average');
+    expect(replay.months[0]).toMatchObject({ costOfGoodsSold: 30, writeOffs: 30, unitsSold: 0, closingInventory: 300 });
+  });
+
+  it('leaves out stock added with no cost to go by', () => {
+    const replay = replayLedger([entry('2024-01-05', 'adjustment', 5, null, 'B')], 'fifo');
+    expect(replay.closingInventory).toBe(0);
+    expect(replay.warnings).toHaveLength(1);
+  });
+});
+
+describe('applyLedgerReplay', () => {
+  it('feeds the opening and month-end balances into the snapshots average', () => {
+    const values = applyLedgerReplay({ ...DEFAULT_CALCULATOR_VALUES, costOfGoodsSoldSource: 'derived' }, replayLedger(LEDGER, 'fifo'));
+    expect(values).toMatchObject({
+      costOfGoodsSoldSource: 'entered',
+      costOfGoodsSold: 300,
+      beginningInventory: 100,
+      endingInventory: 0,
+      unitsSold: 20,
+      inventorySnapshots: [100, 100, 0],
+    });
+  });
+
+  it('uses beginning and ending inventory alone for a single month', () => {
+    const values = applyLedgerReplay(DEFAULT_CALCULATOR_VALUES, replayLedger(LEDGER.slice(0, 3), 'fifo'));
+    expect(values.inventorySnapshots).toEqual([]);
+  });
+});
+
+describe('getLedgerPeriod', () => {
+  it('covers whole calendar months', () => {
+    expect(getLedgerPeriod(replayLedger(LEDGER, 'fifo'))).toEqual({ type: 'custom', startDate: '2024-01-01', endDate: '2024-02-29' });
+  });
+});
+
+describe('ledgerToPeriodRecords', () => {
+  it('makes one history row per month', () => {
+    expect(ledgerToPeriodRecords(replayLedger(LEDGER, 'fifo'))).toMatchObject([
+      { label: 'Jan 2024', costOfGoodsSold: 200, beginningInventory: 100, endingInventory: 100 },
+      { label: 'Feb 2024', costOfGoodsSold: 100, beginningInventory: 100, endingInventory: 0 },
+    ]);
+  });
+});
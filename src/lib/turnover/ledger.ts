@@ -0,0 +1,197 @@
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import type { CalculatorValues } from './types';
+import type { AnalysisPeriod } from './period';
+import { createPeriodRecord, type PeriodRecord } from './history';
+import {
+  createCostPool,
+  getPoolQuantity,
+  getPoolValue,
+  issueFromPool,
+  receiveIntoPool,
+  type CostingMethod,
+  type CostPool,
+} from './costing';
+
+/** Opening entries set the starting balance; they are posted before everything else. */
+export type LedgerEntryType = 'opening' | 'receipt' | 'sale' | 'adjustment';
+
+export interface LedgerEntry {
+  /** ISO date (yyyy-MM-dd). */
+  date: string;
+  sku: string;
+  type: LedgerEntryType;
+  /** Units moved. Positive for opening, receipt and sale entries; adjustments are signed. */
+  quantity: number;
+  /** Cost per unit. Needed for openings and receipts; stock adjusted in defaults to the item's current cost. */
+  unitCost: number | null;
+}
+
+export interface LedgerWarning {
+  date: string;
+  sku: string;
+  message: string;
+}
+
+export interface LedgerMonth {
+  /** Calendar month as yyyy-MM. */
+  month: string;
+  label: string;
+  openingInventory: number;
+  /** Cost of units sold plus stock written off by adjustments. */
+  costOfGoodsSold: number;
+  /** The part of COGS that came from adjustments (shrinkage, damage, write-offs). */
+  writeOffs: number;
+  closingInventory: number;
+  unitsSold: number;
+}
+
+export interface LedgerReplay {
+  method: CostingMethod;
+  months: LedgerMonth[];
+  skuCount: number;
+  openingInventory: number;
+  closingInventory: number;
+  costOfGoodsSold: number;
+  unitsSold: number;
+  warnings: LedgerWarning[];
+}
+
+const monthOf = (date: string): string => date.slice(0, 7);
+
+const monthsBetween = (first: string, last: string): string[] => {
+  const months: string[] = [];
+  let cursor = parseISO(`${first}-01`);
+  const end = parseISO(`${last}-01`);
+  while (cursor <= end) {
+    months.push(format(cursor, 'yyyy-MM'));
+    cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+  }
+  return months;
+};
+
+const totalValue = (pools: Map<string, CostPool>): number =>
+  Array.from(pools.values()).reduce((sum, pool) => sum + getPoolValue(pool), 0);
+
+/**
+ * Replays a stock ledger under a costing method: receipts add cost layers, sales and
+ * negative adjustments draw them down, and the inventory value is taken at each month end.
+ * Stock written off by adjustments counts towards COGS, as retail accounts usually book
+ * shrinkage. Selling more than is on hand is costed at the item's last receipt cost.
+ */
+export const replayLedger = (entries: LedgerEntry[], method: CostingMethod): LedgerReplay => {
+  const pools = new Map<string, CostPool>();
+  const warnings: LedgerWarning[] = [];
+  const poolFor = (sku: string) => pools.get(sku) ?? createCostPool(method);
+
+  const receive = (entry: LedgerEntry, quantity: number, unitCost: number | null) => {
+    const pool = poolFor(entry.sku);
+    const onHand = getPoolQuantity(pool);
+    const cost = unitCost ?? (onHand > 0 ? getPoolValue(pool) / onHand : pool.lastUnitCost);
+    if (cost === null) {
+      warnings.push({ date: entry.date, sku: entry.sku, message: `${quantity} units added with no cost and no earlier receipt to cost them; left out` });
+      return;
+    }
+    pools.set(entry.sku, receiveIntoPool(pool, quantity, cost));
+  };
+
+  const issue = (entry: LedgerEntry, quantity: number): number => {
+    const result = issueFromPool(poolFor(entry.sku), quantity);
+    pools.set(entry.sku, result.pool);
+    if (result.shortfall > 0) {
+      warnings.push({
+        date: entry.date,
+        sku: entry.sku,
+        message: `${result.shortfall} more units taken out than were in stock; costed at the last receipt cost`,
+      });
+    }
+    return result.cost;
+  };
+
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  for (const entry of sorted.filter((item) => item.type === 'opening')) {
+    receive(entry, entry.quantity, entry.unitCost);
+  }
+  const openingInventory = totalValue(pools);
+
+  const movements = sorted.filter((entry) => entry.type !== 'opening');
+  const months = movements.length > 0 ? monthsBetween(monthOf(movements[0].date), monthOf(movements[movements.length - 1].date)) : [];
+  let position = 0;
+  const replayedMonths = months.map((month) => {
+    const monthOpening = totalValue(pools);
+    let costOfGoodsSold = 0;
+    let writeOffs = 0;
+    let unitsSold = 0;
+    for (; position < movements.length && monthOf(movements[position].date) === month; position += 1) {
+      const entry = movements[position];
+      if (entry.type === 'receipt') {
+        receive(entry, entry.quantity, entry.unitCost);
+      } else if (entry.type === 'sale') {
+        costOfGoodsSold += issue(entry, entry.quantity);
+        unitsSold += entry.quantity;
+      } else if (entry.quantity > 0) {
+        receive(entry, entry.quantity, entry.unitCost);
+      } else {
+        const cost = issue(entry, -entry.quantity);
+        costOfGoodsSold += cost;
+        writeOffs += cost;
+      }
+    }
+    return {
+      month,
+      label: format(parseISO(`${month}-01`), 'MMM yyyy'),
+      openingInventory: monthOpening,
+      costOfGoodsSold,
+      writeOffs,
+      closingInventory: totalValue(pools),
+      unitsSold,
+    };
+  });
+
+  return {
+    method,
+    months: replayedMonths,
+    skuCount: new Set(entries.map((entry) => entry.sku)).size,
+    openingInventory,
+    closingInventory: totalValue(pools),
+    costOfGoodsSold: replayedMonths.reduce((sum, month) => sum + month.costOfGoodsSold, 0),
+    unitsSold: replayedMonths.reduce((sum, month) => sum + month.unitsSold, 0),
+    warnings,
+  };
+};
+
+/** The calendar months the replay covers, as a custom analysis period. */
+export const getLedgerPeriod = (replay: LedgerReplay): AnalysisPeriod => {
+  const first = replay.months[0];
+  const last = replay.months[replay.months.length - 1];
+  if (!first || !last) return { type: 'custom' };
+  return {
+    type: 'custom',
+    startDate: format(startOfMonth(parseISO(`${first.month}-01`)), 'yyyy-MM-dd'),
+    endDate: format(endOfMonth(parseISO(`${last.month}-01`)), 'yyyy-MM-dd'),
+  };
+};
+
+/**
+ * Sets COGS and units sold from the replay, with the opening and month-end balances as
+ * inventory snapshots so the average reflects every month rather than just the two ends.
+ */
+export const applyLedgerReplay = (values: CalculatorValues, replay: LedgerReplay): CalculatorValues => ({
+  ...values,
+  costOfGoodsSoldSource: 'entered',
+  costOfGoodsSold: replay.costOfGoodsSold,
+  beginningInventory: replay.openingInventory,
+  endingInventory: replay.closingInventory,
+  unitsSold: replay.unitsSold,
+  inventorySnapshots:
+    replay.months.length > 1 ? [replay.openingInventory, ...replay.months.map((month) => month.closingInventory)] : [],
+});
+
+/** One monthly history row per replayed month. */
+export const ledgerToPeriodRecords = (replay: LedgerReplay): PeriodRecord[] =>
+  replay.months.map((month) =>
+    createPeriodRecord(month.label, {
+      costOfGoodsSold: month.costOfGoodsSold,
+      beginningInventory: month.openingInventory,
+      endingInventory: month.closingInventory,
+    })
+  );
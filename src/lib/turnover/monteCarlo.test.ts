@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildHistogram,
+  createRandom,
+  percentile,
+  runMonteCarlo,
+  validateDistribution,
+  type Distribution,
+  type MonteCarloInputs,
+} from './monteCarlo';
+import { DAYS_IN_YEAR, DEFAULT_CALCULATOR_VALUES } from './constants';
+import { DEFAULT_ANALYSIS_PERIOD } from './period';
+
+const fixed = (value: number): Distribution => ({ type: 'triangular', min: value, mode: value, max: value });
+
+const simulate = (changes: Partial<MonteCarloInputs>, benchmark = 4) =>
+  runMonteCarlo(
+    DEFAULT_CALCULATOR_VALUES,
+    'cogs',
+    DEFAULT_ANALYSIS_PERIOD,
+    { throughput: fixed(1000000), averageInventory: fixed(200000), iterations: 200, seed: 42, ...changes },
+    benchmark
+  );
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createRandom(7);
+    const second = createRandom(7);
+    const draws = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(draws);
+    expect(draws.every((draw) => draw >= 0 && draw < 1)).toBe(true);
+    expect(createRandom(8)()).not.toBe(draws[0]);
+  });
+});
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(percentile(sorted, 0.1)).toBe(1);
+    expect(percentile(sorted, 0.5)).toBe(5);
+    expect(percentile(sorted, 0.9)).toBe(9);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('splits the range into equal bins and puts the maximum in the last one', () => {
+    expect(buildHistogram([0, 1, 2, 3, 4], 2)).toEqual([
+      { start: 0, end: 2, count: 2 },
+      { start: 2, end: 4, count: 3 },
+    ]);
+  });
+
+  it('puts identical values in the first bin', () => {
+    expect(buildHistogram([5, 5, 5], 3).map((bin) => bin.count)).toEqual([3, 0, 0]);
+    expect(buildHistogram([], 3)).toEqual([]);
+  });
+});
+
+describe('validateDistribution', () => {
+  it.each([
+    [{ type: 'triangular', min: 1, mode: 2, max: 3 }, null],
+    [{ type: 'triangular', min: 5, mode: 5, max: 5 }, null],
+    [{ type: 'triangular', min: 3, mode: 2, max: 4 }, 'Minimum cannot be above the most likely value.'],
+    [{ type: 'triangular', min: 1, mode: 5, max: 4 }, 'Most likely value cannot be above the maximum.'],
+    [{ type: 'triangular', min: NaN, mode: 2, max: 3 }, 'Enter a number in every field.'],
+    [{ type: 'normal', mean: 10, stdDev: 0 }, null],
+    [{ type: 'normal', mean: 10, stdDev: -1 }, 'Std. deviation cannot be negative.'],
+  ] as [Distribution, string | null][])('checks %o', (distribution, problem) => {
+    expect(validateDistribution(distribution)).toBe(problem);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('gives the calculator result when nothing varies', () => {
+    const simulation = simulate({});
+    expect(simulation.ratio).toEqual({ p10: 5, p50: 5, p90: 5 });
+    expect(simulation.daysSalesOfInventory).toEqual({ p10: DAYS_IN_YEAR / 5, p50: DAYS_IN_YEAR / 5, p90: DAYS_IN_YEAR / 5 });
+    expect(simulation.histogram[0].count).toBe(200);
+    expect(simulation.unsoldRuns).toBe(0);
+  });
+
+  it('counts only ratios above the benchmark', () => {
+    expect(simulate({}, 4).probabilityAboveBenchmark).toBe(1);
+    expect(simulate({}, 5).probabilityAboveBenchmark).toBe(0);
+  });
+
+  it('is reproducible from its seed', () => {
+    const inputs = { throughput: { type: 'normal', mean: 1000000, stdDev: 100000 } as Distribution };
+    expect(simulate({ ...inputs, seed: 1 }).ratios).toEqual(simulate({ ...inputs, seed: 1 }).ratios);
+    expect(simulate({ ...inputs, seed: 1 }).ratios).not.toEqual(simulate({ ...inputs, seed: 2 }).ratios);
+  });
+
+  it('leaves runs without sales or inventory out of the DSI percentiles', () => {
+    const simulation = simulate({ averageInventory: { type: 'triangular', min: -200000, mode: 0, max: 200000 } });
+    const unsold = simulation.ratios.filter((ratio) => ratio === 0).length;
+    expect(unsold).toBeGreaterThan(0);
+    expect(simulation.unsoldRuns).toBe(unsold);
+    expect(simulation.daysSalesOfInventory.p10).toBeGreaterThan(0);
+  });
+
+  it('reports every run as unsold when nothing sells', () => {
+    const simulation = simulate({ throughput: fixed(0) });
+    expect(simulation.unsoldRuns).toBe(200);
+    expect(simulation.ratio.p90).toBe(0);
+  });
+
+  it('throws on an invalid distribution', () => {
+    expect(() => simulate({ averageInventory: { type: 'triangular', min: 3, mode: 2, max: 4 } })).toThrow(
+      'Minimum cannot be above the most likely value.'
+    );
+  });
+});
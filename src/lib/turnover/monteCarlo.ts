@@ -0,0 +1,208 @@
+import type { CalculationMethod, CalculatorValues } from './types';
+import type { AnalysisPeriod } from './period';
+import { calculateTurnover, METHOD_DEFINITIONS } from './engine';
+
+export interface TriangularDistribution {
+  type: 'triangular';
+  min: number;
+  mode: number;
+  max: number;
+}
+
+export interface NormalDistribution {
+  type: 'normal';
+  mean: number;
+  stdDev: number;
+}
+
+export type Distribution = TriangularDistribution | NormalDistribution;
+
+export interface MonteCarloInputs {
+  throughput: Distribution;
+  averageInventory: Distribution;
+  iterations: number;
+  /** Seed for the random generator, so a run can be reproduced exactly. */
+  seed: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  ratios: number[];
+  ratio: Percentiles;
+  /** Over the runs whose stock sells; see `unsoldRuns`. */
+  daysSalesOfInventory: Percentiles;
+  /** Runs with no throughput or no inventory, where days of inventory is unbounded or meaningless. */
+  unsoldRuns: number;
+  histogram: HistogramBin[];
+  /** Share of runs, 0–1, whose ratio beats `benchmark`. */
+  probabilityAboveBenchmark: number;
+  benchmark: number;
+}
+
+/** mulberry32: small, fast and good enough for simulation sampling. */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Explains why a distribution cannot be sampled, or returns null when it can. A triangular
+ * range needs min ≤ mode ≤ max and a normal one a non-negative spread; otherwise draws are NaN.
+ */
+export const validateDistribution = (distribution: Distribution): string | null => {
+  const numbers = distribution.type === 'triangular'
+    ? [distribution.min, distribution.mode, distribution.max]
+    : [distribution.mean, distribution.stdDev];
+  if (!numbers.every(Number.isFinite)) return 'Enter a number in every field.';
+  if (distribution.type === 'normal') {
+    return distribution.stdDev < 0 ? 'Std. deviation cannot be negative.' : null;
+  }
+  if (distribution.min > distribution.mode) return 'Minimum cannot be above the most likely value.';
+  if (distribution.mode > distribution.max) return 'Most likely value cannot be above the maximum.';
+  return null;
+};
+
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  if (distribution.type === 'normal') {
+    // Box–Muller; 1 − u keeps the log argument away from zero.
+    const u = 1 - random();
+    const v = random();
+    return distribution.mean + distribution.stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  const { min, mode, max } = distribution;
+  if (max <= min) return min;
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+};
+
+/** A ±`spread` triangular range around `value`, used to seed the inputs from the current figures. */
+export const triangularAround = (value: number, spread = 0.2): Distribution => ({
+  type: 'triangular',
+  min: Math.round(value * (1 - spread)),
+  mode: value,
+  max: Math.round(value * (1 + spread)),
+});
+
+/** Returns `values` with the method's throughput and average inventory replaced. */
+export const withThroughputAndInventory = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  throughput: number,
+  averageInventory: number
+): CalculatorValues => {
+  const next: CalculatorValues = {
+    ...values,
+    costOfGoodsSoldSource: 'entered',
+    inventorySnapshots: [],
+    [METHOD_DEFINITIONS[method].throughput]: throughput,
+  };
+  switch (method) {
+    case 'cogs':
+      return { ...next, beginningInventory: averageInventory, endingInventory: averageInventory };
+    case 'sales':
+      return { ...next, averageRetailInventory: averageInventory };
+    case 'units':
+      return { ...next, averageUnitsOnHand: averageInventory };
+    default:
+      return { ...next, averageInventory };
+  }
+};
+
+export const percentile = (sorted: number[], fraction: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(Math.max(Math.ceil(fraction * sorted.length) - 1, 0), sorted.length - 1);
+  return sorted[index];
+};
+
+const toPercentiles = (sorted: number[]): Percentiles => ({
+  p10: percentile(sorted, 0.1),
+  p50: percentile(sorted, 0.5),
+  p90: percentile(sorted, 0.9),
+});
+
+export const buildHistogram = (values: number[], binCount: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = values.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+  const max = values.reduce((highest, value) => Math.max(highest, value), -Infinity);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    const index = Math.min(Math.floor((value - min) / width), binCount - 1);
+    bins[index].count += 1;
+  });
+  return bins;
+};
+
+/**
+ * Samples throughput and average inventory from their distributions and runs each draw through
+ * the turnover engine. Draws with zero throughput or non-positive inventory count as a ratio of 0,
+ * which is what the engine returns for the same inputs, but are left out of the days-of-inventory
+ * percentiles: stock that never sells has no finite DSI, not a DSI of 0. They are counted in
+ * `unsoldRuns` instead. Throws when a distribution fails `validateDistribution`, rather than
+ * counting its NaN draws as zeros.
+ */
+export const runMonteCarlo = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  period: AnalysisPeriod,
+  inputs: MonteCarloInputs,
+  benchmark: number
+): MonteCarloResult => {
+  const problem = validateDistribution(inputs.throughput) ?? validateDistribution(inputs.averageInventory);
+  if (problem) throw new Error(problem);
+  const random = createRandom(inputs.seed);
+  const ratios: number[] = [];
+  const days: number[] = [];
+
+  for (let i = 0; i < inputs.iterations; i += 1) {
+    const throughput = Math.max(sampleDistribution(inputs.throughput, random), 0);
+    const averageInventory = sampleDistribution(inputs.averageInventory, random);
+    const outcome = calculateTurnover(
+      withThroughputAndInventory(values, method, throughput, averageInventory),
+      method,
+      period
+    );
+    ratios.push(outcome.ratio);
+    if (outcome.ratio > 0) days.push(outcome.daysSalesOfInventory);
+  }
+
+  const sortedRatios = [...ratios].sort((a, b) => a - b);
+  const sortedDays = [...days].sort((a, b) => a - b);
+
+  return {
+    iterations: inputs.iterations,
+    ratios,
+    ratio: toPercentiles(sortedRatios),
+    daysSalesOfInventory: toPercentiles(sortedDays),
+    unsoldRuns: ratios.length - days.length,
+    histogram: buildHistogram(ratios, 20),
+    probabilityAboveBenchmark: ratios.length > 0 ? ratios.filter((ratio) => ratio > benchmark).length / ratios.length : 0,
+    benchmark,
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatPeriodDays, getPeriodDays, getPeriodLabel } from './period';
+import { DAYS_IN_YEAR } from './constants';
+
+describe('getPeriodDays', () => {
+  it('uses fractions of a year for fixed periods', () => {
+    expect(getPeriodDays({ type: 'quarter' })).toBe(DAYS_IN_YEAR / 4);
+    expect(getPeriodDays({ type: 'fiscal-year' })).toBe(DAYS_IN_YEAR);
+  });
+
+  it('counts both end dates of a custom range', () => {
+    expect(getPeriodDays({ type: 'custom', startDate: '2024-04-01', endDate: '2024-04-01' })).toBe(1);
+    expect(getPeriodDays({ type: 'custom', startDate: '2024-01-01', endDate: '2024-12-31' })).toBe(366);
+  });
+
+  it.each([
+    { startDate: '2024-04-01' },
+    { startDate: '2024-04-01', endDate: 'soon' },
+    { startDate: '2024-06-30', endDate: '2024-04-01' },
+  ])('gives 0 days for an incomplete or reversed range %o', (range) => {
+    expect(getPeriodDays({ type: 'custom', ...range })).toBe(0);
+  });
+});
+
+describe('getPeriodLabel', () => {
+  it('names the period type', () => {
+    expect(getPeriodLabel({ type: 'half-year' })).toBe('Half-year');
+  });
+});
+
+describe('formatPeriodDays', () => {
+  it.each([
+    [91, '91'],
+    [91.25, '91.25'],
+    [182.5, '182.5'],
+    [30.416666, '30.42'],
+  ])('formats %d as %s', (days, text) => {
+    expect(formatPeriodDays(days)).toBe(text);
+  });
+});
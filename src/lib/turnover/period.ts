@@ -0,0 +1,59 @@
+import { differenceInCalendarDays, isValid, parseISO } from 'date-fns';
+import { DAYS_IN_YEAR } from './constants';
+
+export type AnalysisPeriodType = 'month' | 'quarter' | 'half-year' | 'fiscal-year' | 'custom';
+
+export interface AnalysisPeriod {
+  type: AnalysisPeriodType;
+  /** Inclusive start of a custom range, as an ISO date (yyyy-MM-dd). */
+  startDate?: string;
+  /** Inclusive end of a custom range, as an ISO date (yyyy-MM-dd). */
+  endDate?: string;
+}
+
+export interface AnalysisPeriodOption {
+  type: AnalysisPeriodType;
+  label: string;
+}
+
+export const ANALYSIS_PERIOD_OPTIONS: AnalysisPeriodOption[] = [
+  { type: 'month', label: 'Month' },
+  { type: 'quarter', label: 'Quarter' },
+  { type: 'half-year', label: 'Half-year' },
+  { type: 'fiscal-year', label: 'Fiscal year' },
+  { type: 'custom', label: 'Custom date range' },
+];
+
+export const DEFAULT_ANALYSIS_PERIOD: AnalysisPeriod = { type: 'fiscal-year' };
+
+// Fixed periods are fractions of a year so that annualising a quarterly figure multiplies it by exactly 4.
+const FIXED_PERIOD_DAYS: Record<Exclude<AnalysisPeriodType, 'custom'>, number> = {
+  month: DAYS_IN_YEAR / 12,
+  quarter: DAYS_IN_YEAR / 4,
+  'half-year': DAYS_IN_YEAR / 2,
+  'fiscal-year': DAYS_IN_YEAR,
+};
+
+/**
+ * Number of days covered by the period. A custom range counts both end dates;
+ * an incomplete or reversed range yields 0.
+ */
+export const getPeriodDays = (period: AnalysisPeriod): number => {
+  if (period.type !== 'custom') {
+    return FIXED_PERIOD_DAYS[period.type];
+  }
+
+  if (!period.startDate || !period.endDate) return 0;
+  const start = parseISO(period.startDate);
+  const end = parseISO(period.endDate);
+  if (!isValid(start) || !isValid(end)) return 0;
+
+  return Math.max(differenceInCalendarDays(end, start) + 1, 0);
+};
+
+export const getPeriodLabel = (period: AnalysisPeriod): string =>
+  ANALYSIS_PERIOD_OPTIONS.find((option) => option.type === period.type)?.label ?? period.type;
+
+/** Formats a day count for display, keeping up to two decimals for fractional periods such as 91.25. */
+export const formatPeriodDays = (days: number): string =>
+  Number.isInteger(days) ? `${days}` : days.toFixed(2).replace(/0$/, '');
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createScenario, evaluateScenario } from './scenarios';
+import { calculateTurnover } from './engine';
+import { calculateCarryingCost } from './carryingCost';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+
+describe('createScenario', () => {
+  it('copies the values so editing one side leaves the other alone', () => {
+    const values = { ...DEFAULT_CALCULATOR_VALUES, inventorySnapshots: [100, 200] };
+    const scenario = createScenario('Leaner stock', values);
+    scenario.values.inventorySnapshots.push(300);
+    scenario.values.endingInventory = 1;
+    expect(values.inventorySnapshots).toEqual([100, 200]);
+    expect(values.endingInventory).toBe(DEFAULT_CALCULATOR_VALUES.endingInventory);
+    expect(createScenario('Other', values).id).not.toBe(scenario.id);
+  });
+});
+
+describe('evaluateScenario', () => {
+  it('runs the scenario with the calculator method and period', () => {
+    const scenario = createScenario('Leaner stock', { ...DEFAULT_CALCULATOR_VALUES, endingInventory: 50000 });
+    const turnover = calculateTurnover(scenario.values, 'sales', { type: 'quarter' });
+    expect(evaluateScenario(scenario, 'sales', { type: 'quarter' })).toEqual({
+      id: scenario.id,
+      name: 'Leaner stock',
+      turnover,
+      carryingCost: calculateCarryingCost(scenario.values, turnover),
+    });
+  });
+});
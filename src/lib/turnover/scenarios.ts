@@ -0,0 +1,41 @@
+import type { CalculationMethod, CalculatorValues, TurnoverResult } from './types';
+import type { AnalysisPeriod } from './period';
+import { calculateTurnover } from './engine';
+import { calculateCarryingCost, type CarryingCostResult } from './carryingCost';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  values: CalculatorValues;
+}
+
+export interface ScenarioOutcome {
+  id: string;
+  name: string;
+  turnover: TurnoverResult;
+  carryingCost: CarryingCostResult;
+}
+
+export const BASELINE_SCENARIO_ID = 'baseline';
+
+/** Clones `values` into a new what-if so later edits to either side stay independent. */
+export const createScenario = (name: string, values: CalculatorValues): Scenario => ({
+  id: crypto.randomUUID(),
+  name,
+  values: { ...values, inventorySnapshots: [...values.inventorySnapshots] },
+});
+
+/** Runs a scenario through the same method and period as the calculator so outcomes are comparable. */
+export const evaluateScenario = (
+  scenario: Scenario,
+  method: CalculationMethod,
+  period: AnalysisPeriod
+): ScenarioOutcome => {
+  const turnover = calculateTurnover(scenario.values, method, period);
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    turnover,
+    carryingCost: calculateCarryingCost(scenario.values, turnover),
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildTwoWayTable, runSensitivity } from './sensitivity';
+import { DEFAULT_ANALYSIS_PERIOD } from './period';
+import { DEFAULT_CALCULATOR_VALUES } from './constants';
+
+// COGS 10,00,000 over an average of 2,00,000 (2,50,000 and 1,50,000): 5 turns a year.
+const VALUES = DEFAULT_CALCULATOR_VALUES;
+
+describe('runSensitivity', () => {
+  it('ranks the inputs the method reads by how far they move turnover', () => {
+    const analysis = runSensitivity(VALUES, 'cogs', DEFAULT_ANALYSIS_PERIOD, 0.1);
+    expect(analysis.base.ratio).toBe(5);
+    expect(analysis.bars.map((bar) => bar.key)).toEqual(['costOfGoodsSold', 'beginningInventory', 'endingInventory']);
+    const [cogs] = analysis.bars;
+    expect(cogs.low.ratio).toBeCloseTo(4.5, 10);
+    expect(cogs.high.ratio).toBeCloseTo(5.5, 10);
+    expect(cogs.ratioSwing).toBeCloseTo(1, 10);
+  });
+
+  it('scales snapshots as one input when the average comes from them', () => {
+    const values = { ...VALUES, inventorySnapshots: [100000, 200000, 300000] };
+    const keys = runSensitivity(values, 'cogs', DEFAULT_ANALYSIS_PERIOD, 0.1).bars.map((bar) => bar.key);
+    expect(keys).toEqual(['inventorySnapshots', 'costOfGoodsSold']);
+  });
+});
+
+describe('buildTwoWayTable', () => {
+  it('scales throughput down the rows and inventory across the columns', () => {
+    const table = buildTwoWayTable(VALUES, 'cogs', DEFAULT_ANALYSIS_PERIOD, [0.5, 1, 2]);
+    expect(table).toMatchObject({ baseThroughput: 1000000, baseAverageInventory: 200000 });
+    expect(table.cells.map((row) => row.map((cell) => cell.ratio))).toEqual([
+      [5, 2.5, 1.25],
+      [10, 5, 2.5],
+      [20, 10, 5],
+    ]);
+  });
+
+  it('holds a derived COGS fixed while inventory is scaled', () => {
+    const values = { ...VALUES, costOfGoodsSoldSource: 'derived' as const };
+    const table = buildTwoWayTable(values, 'cogs', DEFAULT_ANALYSIS_PERIOD, [1, 2]);
+    // Purchases 9,00,000 plus a 1,00,000 drawdown give COGS 10,00,000.
+    expect(table.baseThroughput).toBe(1000000);
+    expect(table.cells[0][1].ratio).toBe(2.5);
+  });
+});
@@ -0,0 +1,134 @@
+import type { CalculationMethod, CalculatorValues, NumericInputKey, TurnoverResult } from './types';
+import type { AnalysisPeriod } from './period';
+import { calculateTurnover, getInputKeys, INPUT_LABELS, METHOD_DEFINITIONS, usesInventorySnapshots } from './engine';
+import { getTurnoverBand, type InterpretationBand } from './benchmarks';
+
+export type SensitivityInput = NumericInputKey | 'inventorySnapshots';
+
+export interface SensitivityBar {
+  key: SensitivityInput;
+  label: string;
+  /** Outcomes with the input lowered and raised by the perturbation. */
+  low: TurnoverResult;
+  high: TurnoverResult;
+  /** Absolute spread of the annualised ratio between the low and high runs. */
+  ratioSwing: number;
+  /** Absolute spread of DSI between the low and high runs. */
+  dsiSwing: number;
+}
+
+export interface SensitivityAnalysis {
+  base: TurnoverResult;
+  /** Perturbation as a fraction, e.g. 0.1 for ±10%. */
+  perturbation: number;
+  /** Sorted by ratio swing, largest first, as a tornado chart is drawn. */
+  bars: SensitivityBar[];
+}
+
+export interface TwoWayCell {
+  ratio: number;
+  daysSalesOfInventory: number;
+  band: InterpretationBand;
+}
+
+export interface TwoWayTable {
+  throughputLabel: string;
+  inventoryLabel: string;
+  /** Multipliers applied to throughput, one per row. */
+  throughputFactors: number[];
+  /** Multipliers applied to average inventory, one per column. */
+  inventoryFactors: number[];
+  baseThroughput: number;
+  baseAverageInventory: number;
+  cells: TwoWayCell[][];
+}
+
+const INVENTORY_KEYS: NumericInputKey[] = [
+  'beginningInventory',
+  'endingInventory',
+  'averageInventory',
+  'averageRetailInventory',
+  'averageUnitsOnHand',
+];
+
+const scaleInput = (values: CalculatorValues, key: SensitivityInput, factor: number): CalculatorValues =>
+  key === 'inventorySnapshots'
+    ? { ...values, inventorySnapshots: values.inventorySnapshots.map((value) => value * factor) }
+    : { ...values, [key]: values[key] * factor };
+
+/**
+ * Perturbs every input the method reads by ±`perturbation` one at a time and records how far
+ * turnover and DSI move, so the inputs that matter most stand out.
+ */
+export const runSensitivity = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  period: AnalysisPeriod,
+  perturbation: number
+): SensitivityAnalysis => {
+  const keys: SensitivityInput[] = [...getInputKeys(values, method)];
+  if (usesInventorySnapshots(values, method)) keys.push('inventorySnapshots');
+
+  const bars = keys.map((key) => {
+    const low = calculateTurnover(scaleInput(values, key, 1 - perturbation), method, period);
+    const high = calculateTurnover(scaleInput(values, key, 1 + perturbation), method, period);
+    return {
+      key,
+      label: key === 'inventorySnapshots' ? 'Inventory Snapshots' : INPUT_LABELS[key],
+      low,
+      high,
+      ratioSwing: Math.abs(high.ratio - low.ratio),
+      dsiSwing: Math.abs(high.daysSalesOfInventory - low.daysSalesOfInventory),
+    };
+  });
+
+  return {
+    base: calculateTurnover(values, method, period),
+    perturbation,
+    bars: bars.sort((a, b) => b.ratioSwing - a.ratioSwing),
+  };
+};
+
+/**
+ * Grid of turnover outcomes with throughput scaled down the rows and average inventory scaled
+ * across the columns. Throughput is pinned to its resolved value so that scaling inventory
+ * doesn't also move a COGS derived from purchases.
+ */
+export const buildTwoWayTable = (
+  values: CalculatorValues,
+  method: CalculationMethod,
+  period: AnalysisPeriod,
+  factors: number[]
+): TwoWayTable => {
+  const definition = METHOD_DEFINITIONS[method];
+  const base = calculateTurnover(values, method, period);
+  const pinned: CalculatorValues = {
+    ...values,
+    costOfGoodsSoldSource: 'entered',
+    [definition.throughput]: base.throughput,
+  };
+
+  const cells = factors.map((throughputFactor) =>
+    factors.map((inventoryFactor) => {
+      let scaled = scaleInput(pinned, definition.throughput, throughputFactor);
+      scaled = INVENTORY_KEYS.reduce((acc, key) => scaleInput(acc, key, inventoryFactor), scaled);
+      scaled = scaleInput(scaled, 'inventorySnapshots', inventoryFactor);
+      const outcome = calculateTurnover(scaled, method, period);
+      return {
+        ratio: outcome.ratio,
+        daysSalesOfInventory: outcome.daysSalesOfInventory,
+        band: getTurnoverBand(outcome.ratio),
+      };
+    })
+  );
+
+  return {
+    throughputLabel: INPUT_LABELS[definition.throughput],
+    inventoryLabel: definition.inventoryLabel,
+    throughputFactors: factors,
+    inventoryFactors: factors,
+    baseThroughput: base.throughput,
+    baseAverageInventory: base.averageInventory,
+    cells,
+  };
+};
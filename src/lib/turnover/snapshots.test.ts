@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { averageOf, parseSnapshotList, resizeSnapshots } from './snapshots';
+
+describe('parseSnapshotList', () => {
+  it('reads balances separated by lines, tabs, spaces or semicolons', () => {
+    expect(parseSnapshotList('₹1,00,000\n2,50,000\t300000; 400000  500000')).toEqual([100000, 250000, 300000, 400000, 500000]);
+  });
+
+  it('skips tokens that are not numbers', () => {
+    expect(parseSnapshotList('Jan 100 Feb n/a 200')).toEqual([100, 200]);
+    expect(parseSnapshotList('')).toEqual([]);
+  });
+});
+
+describe('resizeSnapshots', () => {
+  it('keeps existing balances and interpolates the rest from start to end', () => {
+    expect(resizeSnapshots([], 4, 100, 400)).toEqual([100, 200, 300, 400]);
+    expect(resizeSnapshots([5, 6], 4, 100, 400)).toEqual([5, 6, 300, 400]);
+  });
+
+  it('drops balances beyond the new count', () => {
+    expect(resizeSnapshots([1, 2, 3, 4], 2, 0, 0)).toEqual([1, 2]);
+    expect(resizeSnapshots([], 1, 100, 400)).toEqual([100]);
+  });
+});
+
+describe('averageOf', () => {
+  it('averages the balances, and is 0 for none', () => {
+    expect(averageOf([100, 200, 600])).toBe(300);
+    expect(averageOf([])).toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+export type SnapshotFrequency = 'quarterly' | 'monthly' | 'weekly';
+
+export interface SnapshotFrequencyOption {
+  frequency: SnapshotFrequency;
+  label: string;
+  count: number;
+}
+
+export const SNAPSHOT_FREQUENCIES: SnapshotFrequencyOption[] = [
+  { frequency: 'quarterly', label: 'Quarterly (4 balances)', count: 4 },
+  { frequency: 'monthly', label: 'Monthly (12 balances)', count: 12 },
+  { frequency: 'weekly', label: 'Weekly (52 balances)', count: 52 },
+];
+
+/**
+ * Parses a pasted list of balances. Values may be separated by new lines, tabs,
+ * spaces or semicolons; currency symbols and digit-group commas are ignored.
+ * Tokens that are not numbers are skipped.
+ */
+export const parseSnapshotList = (text: string): number[] => {
+  return text
+    .split(/[\s;]+/)
+    .map((token) => token.replace(/[₹,]/g, ''))
+    .filter((token) => token !== '')
+    .map(Number)
+    .filter((value) => Number.isFinite(value));
+};
+
+/**
+ * Produces `count` balances, keeping existing ones and filling the rest by
+ * interpolating from `start` to `end` so a fresh list starts out as a straight line.
+ */
+export const resizeSnapshots = (
+  snapshots: number[],
+  count: number,
+  start: number,
+  end: number
+): number[] => {
+  return Array.from({ length: count }, (_, index) => {
+    if (index < snapshots.length) return snapshots[index];
+    const fraction = count > 1 ? index / (count - 1) : 0;
+    return Math.round(start + (end - start) * fraction);
+  });
+};
+
+export const averageOf = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
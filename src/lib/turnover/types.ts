@@ -0,0 +1,95 @@
+import type { CostOfGoodsSoldSource } from './cogs';
+import type { GrossMarginSource } from './gmroi';
+import type { AnalysisPeriod } from './period';
+
+export type CalculationMethod = 'cogs' | 'average' | 'sales' | 'units';
+
+/** What the inventory is measured in: cost, retail selling price, or unit count. */
+export type InventoryBasis = 'cost' | 'retail' | 'units';
+
+export interface CalculatorValues {
+  /** Whether COGS is entered directly or derived from purchases and inventory balances. */
+  costOfGoodsSoldSource: CostOfGoodsSoldSource;
+  costOfGoodsSold: number;
+  purchases: number;
+  freightIn: number;
+  purchaseReturns: number;
+  purchaseDiscounts: number;
+  beginningInventory: number;
+  endingInventory: number;
+  averageInventory: number;
+  netSales: number;
+  /** Whether gross margin is net sales less COGS, or the `grossMargin` figure as entered. */
+  grossMarginSource: GrossMarginSource;
+  grossMargin: number;
+  averageRetailInventory: number;
+  unitsSold: number;
+  averageUnitsOnHand: number;
+  /**
+   * Periodic inventory balances at cost for the COGS method. When present they replace
+   * beginning and ending inventory as the basis for the average; empty means not used.
+   */
+  inventorySnapshots: number[];
+  accountsReceivable: number;
+  accountsPayable: number;
+  /** Annual carrying cost components, each as a percentage of average inventory at cost. */
+  costOfCapitalRate: number;
+  storageCostRate: number;
+  insuranceRate: number;
+  shrinkageRate: number;
+  obsolescenceRate: number;
+  /** DSI reduction, in days, to price in the carrying cost estimate. */
+  dsiReductionDays: number;
+}
+
+/** Fields of `CalculatorValues` that hold a single number. */
+export type NumericInputKey = {
+  [K in keyof CalculatorValues]: CalculatorValues[K] extends number ? K : never;
+}[keyof CalculatorValues];
+
+export type StepUnit = 'currency' | 'units' | 'times' | 'days';
+
+/** One intermediate figure of a calculation, in the order it was derived. */
+export interface CalculationStep {
+  key: string;
+  label: string;
+  /** Symbolic formula, e.g. "(Beginning Inventory + Ending Inventory) ÷ 2". Omitted for raw inputs. */
+  formula?: string;
+  value: number;
+  unit: StepUnit;
+}
+
+export type TurnoverWarningCode =
+  | 'non-positive-inventory'
+  | 'negative-input'
+  | 'zero-throughput'
+  | 'negative-derived-cogs'
+  | 'invalid-period';
+
+export interface TurnoverWarning {
+  code: TurnoverWarningCode;
+  message: string;
+}
+
+export interface TurnoverResult {
+  method: CalculationMethod;
+  /** Ratios on a retail or unit basis are not comparable with cost-based benchmarks. */
+  basis: InventoryBasis;
+  /** What moved through inventory: COGS, net sales or units sold, depending on the method. */
+  throughput: number;
+  period: AnalysisPeriod;
+  /** Length of the analysis period in days; COGS is assumed to cover exactly this span. */
+  periodDays: number;
+  /** Turnover over the analysis period itself, before annualising. */
+  periodRatio: number;
+  /** Annualised turnover ratio in times per year. 0 when average inventory is not positive. */
+  ratio: number;
+  /** Days Sales of Inventory over the analysis period. 0 when the ratio is 0. */
+  daysSalesOfInventory: number;
+  /** Average inventory in the method's basis (rupees at cost or retail, or units). */
+  averageInventory: number;
+  /** (First + last) ÷ 2 of the inventory snapshots, when the average came from snapshots. */
+  twoPointAverage?: number;
+  steps: CalculationStep[];
+  warnings: TurnoverWarning[];
+}
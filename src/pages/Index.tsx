@@ -1,27 +1,46 @@
-
 import React from 'react';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import AppSidebar from '../components/AppSidebar';
 import InventoryTurnoverCalculator from '../components/InventoryTurnoverCalculator';
+import { useWorkspaces } from '@/hooks/use-workspaces';
+import { WORKSPACE_KIND_LABELS } from '@/lib/storage';
 
 const Index = () => {
+  const workspaces = useWorkspaces();
+  const { activeWorkspace } = workspaces;
+
   return (
-    <div className="min-h-screen bg-cream py-10">
-      <div className="container mx-auto px-4">
-        <header className="text-center mb-10">
-          <h1 className="text-4xl md:text-5xl font-bold text-dark-green mb-3">Retail Insights Visualizer</h1>
-          <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-            Professional tools for retail and e-commerce businesses to analyze key performance metrics
-          </p>
-        </header>
+    <SidebarProvider>
+      <AppSidebar workspaces={workspaces} />
+      <SidebarInset className="min-h-screen bg-cream py-10">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center gap-2 mb-4 text-sm text-gray-600">
+            <SidebarTrigger />
+            {activeWorkspace && (
+              <span>
+                {WORKSPACE_KIND_LABELS[activeWorkspace.kind]}: <span className="font-semibold text-primary">{activeWorkspace.name}</span>
+              </span>
+            )}
+          </div>
+
+          <header className="text-center mb-10">
+            <h1 className="text-4xl md:text-5xl font-bold text-dark-green mb-3">Retail Insights Visualizer</h1>
+            <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+              Professional tools for retail and e-commerce businesses to analyze key performance metrics
+            </p>
+          </header>
 
-        <main>
-          <InventoryTurnoverCalculator />
-        </main>
+          <section>
+            {/* Keyed by workspace so switching restores that workspace's own session. */}
+            {activeWorkspace && <InventoryTurnoverCalculator key={activeWorkspace.id} workspace={activeWorkspace} />}
+          </section>
 
-        <footer className="mt-16 text-center text-sm text-gray-500">
-          <p>© 2023 Retail Insights Visualizer. All rights reserved.</p>
-        </footer>
-      </div>
-    </div>
+          <footer className="mt-16 text-center text-sm text-gray-500">
+            <p>© 2023 Retail Insights Visualizer. All rights reserved.</p>
+          </footer>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 